@@ -0,0 +1,25 @@
+import { checkAuthorization, listChanges, withCors, preflight } from '@/lib/sync-server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Documents changed since the sequence number in ?since=
+ */
+export async function GET(request: Request) {
+  const denied = checkAuthorization(request);
+  if (denied) return withCors(denied);
+
+  const since = Number(new URL(request.url).searchParams.get('since') || 0);
+  if (!Number.isInteger(since) || since < 0) {
+    return withCors(Response.json({ error: 'Invalid since parameter' }, { status: 400 }));
+  }
+
+  try {
+    return withCors(Response.json(await listChanges(since)));
+  } catch (error) {
+    console.error('Failed to list changes:', error);
+    return withCors(Response.json({ error: 'Failed to list changes' }, { status: 500 }));
+  }
+}
+
+export const OPTIONS = preflight;
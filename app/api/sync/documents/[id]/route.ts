@@ -0,0 +1,54 @@
+import { checkAuthorization, pushDocument, withCors, preflight } from '@/lib/sync-server';
+import { isValidSyncId, PushRequest, ConflictResponse } from '@/lib/sync-protocol';
+
+function isPushRequest(value: unknown): value is PushRequest {
+  const push = value as PushRequest;
+  return (
+    typeof push === 'object' &&
+    push !== null &&
+    Number.isInteger(push.baseRevision) &&
+    typeof push.title === 'string' &&
+    typeof push.createdAt === 'number' &&
+    typeof push.updatedAt === 'number' &&
+    typeof push.deleted === 'boolean' &&
+    (push.content === null || typeof push.content === 'object')
+  );
+}
+
+/**
+ * Push a new revision of a document (or its deletion).
+ * Responds 409 with the server's copy when baseRevision is outdated.
+ */
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const denied = checkAuthorization(request);
+  if (denied) return withCors(denied);
+
+  const { id } = await params;
+  if (!isValidSyncId(id)) {
+    return withCors(Response.json({ error: 'Invalid document ID' }, { status: 400 }));
+  }
+
+  let push: unknown;
+  try {
+    push = await request.json();
+  } catch {
+    push = null;
+  }
+  if (!isPushRequest(push)) {
+    return withCors(Response.json({ error: 'Invalid document' }, { status: 400 }));
+  }
+
+  try {
+    const result = await pushDocument(id, push);
+    if (result.status === 'conflict') {
+      const body: ConflictResponse = { document: result.document };
+      return withCors(Response.json(body, { status: 409 }));
+    }
+    return withCors(Response.json(result.response));
+  } catch (error) {
+    console.error(`Failed to store document ${id}:`, error);
+    return withCors(Response.json({ error: 'Failed to store the document' }, { status: 500 }));
+  }
+}
+
+export const OPTIONS = preflight;
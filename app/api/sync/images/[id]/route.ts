@@ -0,0 +1,97 @@
+import { checkAuthorization, readImage, hasImage, writeImage, withCors, preflight } from '@/lib/sync-server';
+import { isValidSyncId, IMAGE_WIDTH_HEADER, IMAGE_HEIGHT_HEADER, SYNC_IMAGE_TYPES } from '@/lib/sync-protocol';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Images are uploaded after client-side downscaling, so anything bigger is a mistake
+const MAX_IMAGE_BYTES = 25 * 1024 * 1024;
+
+const readDimension = (value: string | null) => (value && Number.isFinite(Number(value)) ? Number(value) : null);
+
+// Media type without parameters, e.g. "image/png" for "image/png; charset=binary"
+const readType = (value: string | null) => (value || '').split(';')[0].trim().toLowerCase();
+
+async function resolveId(request: Request, params: RouteContext['params']): Promise<string | Response> {
+  const denied = checkAuthorization(request);
+  if (denied) return withCors(denied);
+
+  const { id } = await params;
+  if (!isValidSyncId(id)) {
+    return withCors(Response.json({ error: 'Invalid image ID' }, { status: 400 }));
+  }
+  return id;
+}
+
+/**
+ * Download an image, with its dimensions in the X-Image-Width/Height headers.
+ * Served so that the browser never runs it as a page on this origin: no type sniffing, and SVGs,
+ * which can carry scripts, as sandboxed attachments.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const id = await resolveId(request, params);
+  if (id instanceof Response) return id;
+
+  try {
+    const image = await readImage(id);
+    if (!image) {
+      return withCors(Response.json({ error: 'Image not found' }, { status: 404 }));
+    }
+    // Images stored before uploads were checked may have any type
+    const type = SYNC_IMAGE_TYPES.includes(image.meta.type) ? image.meta.type : 'application/octet-stream';
+    const headers = new Headers({ 'Content-Type': type, 'X-Content-Type-Options': 'nosniff' });
+    if (type === 'image/svg+xml') {
+      headers.set('Content-Disposition', 'attachment');
+      headers.set('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'; sandbox");
+    }
+    if (image.meta.width) headers.set(IMAGE_WIDTH_HEADER, String(image.meta.width));
+    if (image.meta.height) headers.set(IMAGE_HEIGHT_HEADER, String(image.meta.height));
+    return withCors(new Response(new Uint8Array(image.data), { headers }));
+  } catch (error) {
+    console.error(`Failed to read image ${id}:`, error);
+    return withCors(Response.json({ error: 'Failed to read the image' }, { status: 500 }));
+  }
+}
+
+/**
+ * Whether the image was uploaded already
+ */
+export async function HEAD(request: Request, { params }: RouteContext) {
+  const id = await resolveId(request, params);
+  if (id instanceof Response) return id;
+
+  const exists = await hasImage(id).catch(() => false);
+  return withCors(new Response(null, { status: exists ? 200 : 404 }));
+}
+
+/**
+ * Upload an image; the body is the raw image bytes, with one of SYNC_IMAGE_TYPES as its Content-Type
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const id = await resolveId(request, params);
+  if (id instanceof Response) return id;
+
+  const type = readType(request.headers.get('content-type'));
+  if (!SYNC_IMAGE_TYPES.includes(type)) {
+    return withCors(Response.json({ error: 'Unsupported image type' }, { status: 415 }));
+  }
+
+  const data = new Uint8Array(await request.arrayBuffer());
+  if (data.byteLength === 0 || data.byteLength > MAX_IMAGE_BYTES) {
+    return withCors(Response.json({ error: 'Invalid image size' }, { status: 413 }));
+  }
+
+  try {
+    await writeImage(id, data, {
+      type,
+      width: readDimension(request.headers.get(IMAGE_WIDTH_HEADER)),
+      height: readDimension(request.headers.get(IMAGE_HEIGHT_HEADER)),
+      createdAt: Date.now(),
+    });
+    return withCors(new Response(null, { status: 204 }));
+  } catch (error) {
+    console.error(`Failed to store image ${id}:`, error);
+    return withCors(Response.json({ error: 'Failed to store the image' }, { status: 500 }));
+  }
+}
+
+export const OPTIONS = preflight;
@@ -1,86 +1,284 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Editor as TiptapEditor } from '@tiptap/react';
-import dynamic from 'next/dynamic';
-import { saveDocument, loadDocument, loadImage } from '@/lib/storage';
-import { useAutosave, AutosaveIndicator } from '@/hooks/useAutosave';
+import { useState, useEffect, useCallback } from 'react';
+import {
+  listDocuments,
+  createDocument,
+  renameDocument,
+  duplicateDocument,
+  deleteDocument,
+  DocumentSummary,
+  StorageFullError,
+} from '@/lib/storage';
+import { importMarkdown } from '@/lib/markdown';
+import { restoreBackup, ParsedBackup, RestoreMode, ConflictStrategy } from '@/lib/backup';
+import { collectGarbage } from '@/lib/image-gc';
+import { purgeDeletedNotes, restoreDeletedNote, DeletedNote } from '@/lib/history';
+import { subscribeToTabs } from '@/lib/tab-sync';
+import { replayJournal } from '@/lib/journal';
+import {
+  requestPersistentStorage,
+  getQuotaStatus,
+  subscribeToStorageFull,
+  reportStorageFull,
+  QuotaStatus,
+} from '@/lib/quota';
+import { getVaultStatus, subscribeToVault, requestVaultLock } from '@/lib/vault';
+import { forgetCollaboration } from '@/lib/collaboration';
+import { setNoteTitles, subscribeToOpenNote } from '@/lib/note-links';
+import type { FocusTarget } from '@/lib/editor-focus';
+import type { TaskEntry } from '@/lib/tasks';
+import type { SearchResult } from '@/lib/search-index';
+import { startSync, requestSync, getSyncStatus, subscribeToSyncStatus, SyncState } from '@/lib/sync';
+import { formatBytes } from '@/lib/format';
+import { Archive, CloudOff, HardDrive, ListChecks, Lock, RefreshCw, ShieldCheck, X } from 'lucide-react';
+import DocumentSidebar from '@/components/DocumentSidebar';
+import BackupDialog from '@/components/BackupDialog';
+import StorageScreen from '@/components/StorageScreen';
+import StorageFullDialog from '@/components/StorageFullDialog';
+import DocumentWorkspace from '@/components/DocumentWorkspace';
+import DatabaseGate from '@/components/DatabaseGate';
+import VaultGate from '@/components/VaultGate';
+import VaultDialog from '@/components/VaultDialog';
+import SyncDialog from '@/components/SyncDialog';
+import TaskDashboard from '@/components/TaskDashboard';
+import NoteSearch from '@/components/NoteSearch';
 
-// Dynamically import Editor to avoid SSR issues
-const Editor = dynamic(() => import('@/components/Editor'), { ssr: false });
+// Remember which note was open across reloads
+const ACTIVE_DOCUMENT_KEY = 'notes-app-active-document';
 
 export default function Home() {
-  const [content, setContent] = useState<any>(null);
+  return (
+    <DatabaseGate>
+      <VaultGate>
+        <NotesLibrary />
+      </VaultGate>
+    </DatabaseGate>
+  );
+}
+
+function NotesLibrary() {
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [editor, setEditor] = useState<TiptapEditor | null>(null);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showStorage, setShowStorage] = useState(false);
+  const [recoveryMessage, setRecoveryMessage] = useState<string | null>(null);
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  const [showStorageFull, setShowStorageFull] = useState(false);
+  const [showVault, setShowVault] = useState(false);
+  const [isVaultEnabled, setIsVaultEnabled] = useState(() => getVaultStatus().enabled);
+  const [showSync, setShowSync] = useState(false);
+  const [syncState, setSyncState] = useState<SyncState>(() => getSyncStatus().state);
+  const [showTasks, setShowTasks] = useState(false);
+  const [focusTarget, setFocusTarget] = useState<FocusTarget | null>(null);
+  // Open note that is being deleted; its workspace drops unsaved edits before it closes
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const refreshDocuments = useCallback(async () => {
+    const summaries = await listDocuments();
+    setDocuments(summaries);
+    return summaries;
+  }, []);
+
+  const selectDocument = useCallback((documentId: string) => {
+    setActiveId(documentId);
+    localStorage.setItem(ACTIVE_DOCUMENT_KEY, documentId);
+  }, []);
 
-  // Load document on mount
+  // Load the library on mount
   useEffect(() => {
-    const loadDoc = async () => {
+    const loadLibrary = async () => {
       try {
-        const savedContent = await loadDocument();
-        if (savedContent) {
-          // Resolve image URLs from imageIds
-          const resolvedContent = await resolveImageUrls(savedContent);
-          setContent(resolvedContent);
+        // Write back edits whose save never finished last time
+        const { restored, copies } = await replayJournal();
+        if (restored + copies > 0) {
+          setRecoveryMessage(
+            `Recovered unsaved changes from your last session${copies > 0 ? ` (${copies} saved as separate notes)` : ''}.`
+          );
+        }
+
+        let summaries = await listDocuments();
+        if (summaries.length === 0) {
+          await createDocument();
+          summaries = await listDocuments();
         }
+        setDocuments(summaries);
+
+        const storedId = localStorage.getItem(ACTIVE_DOCUMENT_KEY);
+        const initial = summaries.find((document) => document.id === storedId) || summaries[0];
+        setActiveId(initial?.id || null);
       } catch (error) {
-        console.error('Failed to load document:', error);
+        console.error('Failed to load documents:', error);
       } finally {
         setIsLoading(false);
       }
     };
 
-    loadDoc();
+    // Then drop expired deleted notes and sweep unreferenced images in the background, once
+    // recovered edits are back in their notes
+    loadLibrary()
+      .then(() => purgeDeletedNotes())
+      .then(() => collectGarbage())
+      .catch((error) => {
+        console.error('Image cleanup failed:', error);
+      });
+
+    // Ask the browser not to evict the notes; the Storage screen shows the outcome
+    requestPersistentStorage();
+    getQuotaStatus().then(setQuota);
   }, []);
 
-  // Recursively resolve image URLs in content
-  const resolveImageUrls = async (content: any): Promise<any> => {
-    if (!content) return content;
-
-    if (content.type === 'image' && content.attrs?.imageId) {
-      const url = await loadImage(content.attrs.imageId);
-      if (url) {
-        return {
-          ...content,
-          attrs: {
-            ...content.attrs,
-            src: url,
-          },
-        };
+  useEffect(() => subscribeToStorageFull(() => setShowStorageFull(true)), []);
+
+  useEffect(() => subscribeToVault((status) => setIsVaultEnabled(status.enabled)), []);
+
+  useEffect(() => subscribeToSyncStatus((status) => setSyncState(status.state)), []);
+
+  // Links between notes show the titles from here
+  useEffect(() => setNoteTitles(documents), [documents]);
+
+  useEffect(
+    () =>
+      subscribeToOpenNote((documentId, focus) => {
+        selectDocument(documentId);
+        if (focus) setFocusTarget({ documentId, ...focus });
+      }),
+    [selectDocument]
+  );
+
+  // Pulled changes reach the sidebar and the open note through subscribeToTabs below
+  useEffect(() => startSync(), []);
+
+  const handleSaved = () => {
+    refreshDocuments();
+    getQuotaStatus().then(setQuota);
+    requestSync();
+  };
+
+  // Keep the sidebar in step with other tabs; close the open note if it was deleted there
+  useEffect(() => {
+    return subscribeToTabs(async () => {
+      const summaries = await refreshDocuments();
+      setActiveId((current) =>
+        current && !summaries.some((document) => document.id === current) ? summaries[0]?.id || null : current
+      );
+    });
+  }, [refreshDocuments]);
+
+  const handleCreate = async () => {
+    const document = await createDocument();
+    await refreshDocuments();
+    selectDocument(document.id);
+    requestSync();
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const { title, content } = await importMarkdown(file);
+      const document = await createDocument(title, content);
+      await refreshDocuments();
+      selectDocument(document.id);
+      requestSync();
+    } catch (error) {
+      console.error('Failed to import Markdown:', error);
+      if (error instanceof StorageFullError) {
+        reportStorageFull(error);
+        return;
       }
+      window.alert(`Could not import "${file.name}". ${error instanceof Error ? error.message : ''}`);
     }
+  };
 
-    if (content.content && Array.isArray(content.content)) {
-      const resolvedChildren = await Promise.all(
-        content.content.map((child: any) => resolveImageUrls(child))
-      );
-      return {
-        ...content,
-        content: resolvedChildren,
-      };
+  const handleRename = async (documentId: string, title: string) => {
+    await renameDocument(documentId, title);
+    await refreshDocuments();
+    requestSync();
+  };
+
+  const handleDuplicate = async (documentId: string) => {
+    const copy = await duplicateDocument(documentId);
+    await refreshDocuments();
+    selectDocument(copy.id);
+    requestSync();
+  };
+
+  const handleDelete = async (documentId: string) => {
+    // Discard the open note's pending edits and close it first, so its final save can't bring it back
+    const wasOpen = documentId === activeId;
+    if (wasOpen) {
+      setDeletingId(documentId);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      setActiveId(null);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    try {
+      await deleteDocument(documentId);
+      forgetCollaboration(documentId).catch((error) => {
+        console.error('Failed to clear collaboration state:', error);
+      });
+    } finally {
+      setDeletingId(null);
+      let summaries = await refreshDocuments();
+      if (summaries.length === 0) {
+        await createDocument();
+        summaries = await refreshDocuments();
+      }
+      if (wasOpen) {
+        const next = summaries.find((document) => document.id === documentId) || summaries[0];
+        selectDocument(next.id);
+      }
+      requestSync();
     }
+  };
 
-    return content;
+  const handleRestoreDeleted = async (note: DeletedNote) => {
+    try {
+      const document = await restoreDeletedNote(note);
+      await refreshDocuments();
+      selectDocument(document.id);
+      requestSync();
+    } catch {
+      window.alert(`Could not restore "${note.title}".`);
+    }
   };
 
-  // Autosave hook
-  const { status, triggerAutosave } = useAutosave({
-    delay: 5000, // 5 seconds
-    onSave: async () => {
-      if (editor) {
-        const json = editor.getJSON();
-        await saveDocument(json);
+  const handleRestore = async (backup: ParsedBackup, mode: RestoreMode, strategy: ConflictStrategy) => {
+    // Close the open note first so its pending autosave lands before the restore
+    const previousId = activeId;
+    setActiveId(null);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    try {
+      return await restoreBackup(backup, mode, strategy);
+    } finally {
+      let summaries = await refreshDocuments();
+      if (summaries.length === 0) {
+        await createDocument();
+        summaries = await refreshDocuments();
       }
-    },
-  });
+      const next = summaries.find((document) => document.id === previousId) || summaries[0];
+      selectDocument(next.id);
+      requestSync();
+    }
+  };
 
-  // Handle editor updates
-  const handleEditorUpdate = (updatedEditor: TiptapEditor) => {
-    setEditor(updatedEditor);
-    triggerAutosave();
+  const handleOpenTask = (task: TaskEntry) => {
+    setShowTasks(false);
+    selectDocument(task.documentId);
+    setFocusTarget({ documentId: task.documentId, nodeType: 'taskItem', index: task.index });
   };
 
+  const handleOpenSearchResult = (result: SearchResult) => {
+    selectDocument(result.documentId);
+    if (result.block) setFocusTarget({ documentId: result.documentId, ...result.block });
+  };
+
+  const handleFocusHandled = useCallback(() => setFocusTarget(null), []);
+
+  const activeDocument = documents.find((document) => document.id === activeId);
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -96,21 +294,155 @@ export default function Home() {
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
       <header className="bg-white border-b border-gray-200 sticky top-0 z-20 shadow-sm">
-        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between gap-4">
           <div className="flex items-center gap-3">
             <h1 className="text-2xl font-bold text-gray-900">📝 Notes</h1>
-            <span className="text-sm text-gray-500 hidden sm:inline">
+            <span className="text-sm text-gray-500 hidden xl:inline">
               Your offline document editor
             </span>
           </div>
-          <AutosaveIndicator status={status} />
+          <NoteSearch onOpenResult={handleOpenSearchResult} />
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setShowTasks(true)}
+              title="Tasks"
+              className="flex items-center gap-2 px-3 py-1.5 rounded text-sm text-gray-700 hover:bg-gray-100"
+            >
+              <ListChecks size={18} />
+              <span className="hidden sm:inline">Tasks</span>
+            </button>
+            {isVaultEnabled && (
+              <button
+                onClick={requestVaultLock}
+                title="Lock"
+                className="flex items-center gap-2 px-3 py-1.5 rounded text-sm text-gray-700 hover:bg-gray-100"
+              >
+                <Lock size={18} />
+                <span className="hidden sm:inline">Lock</span>
+              </button>
+            )}
+            <button
+              onClick={() => setShowVault(true)}
+              title="Encryption"
+              className="flex items-center gap-2 px-3 py-1.5 rounded text-sm text-gray-700 hover:bg-gray-100"
+            >
+              <ShieldCheck size={18} />
+              <span className="hidden sm:inline">Encryption</span>
+            </button>
+            <button
+              onClick={() => setShowSync(true)}
+              title={syncState === 'offline' ? 'Sync (offline)' : syncState === 'error' ? 'Sync (failed)' : 'Sync'}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded text-sm hover:bg-gray-100 ${
+                syncState === 'error' ? 'text-red-600' : 'text-gray-700'
+              }`}
+            >
+              {syncState === 'offline' ? (
+                <CloudOff size={18} />
+              ) : (
+                <RefreshCw size={18} className={syncState === 'syncing' ? 'animate-spin' : undefined} />
+              )}
+              <span className="hidden sm:inline">Sync</span>
+            </button>
+            <button
+              onClick={() => setShowStorage(true)}
+              title="Storage"
+              className="flex items-center gap-2 px-3 py-1.5 rounded text-sm text-gray-700 hover:bg-gray-100"
+            >
+              <HardDrive size={18} />
+              <span className="hidden sm:inline">Storage</span>
+            </button>
+            <button
+              onClick={() => setShowBackup(true)}
+              title="Backup & restore"
+              className="flex items-center gap-2 px-3 py-1.5 rounded text-sm text-gray-700 hover:bg-gray-100"
+            >
+              <Archive size={18} />
+              <span className="hidden sm:inline">Backup</span>
+            </button>
+          </div>
         </div>
       </header>
 
+      {showVault && <VaultDialog onClose={() => setShowVault(false)} />}
+      {showSync && <SyncDialog onClose={() => setShowSync(false)} />}
+      {showTasks && <TaskDashboard onOpenTask={handleOpenTask} onClose={() => setShowTasks(false)} />}
+      {showBackup && <BackupDialog onRestore={handleRestore} onClose={() => setShowBackup(false)} />}
+      {showStorage && (
+        <StorageScreen
+          onClose={() => {
+            setShowStorage(false);
+            getQuotaStatus().then(setQuota);
+          }}
+        />
+      )}
+      {showStorageFull && (
+        <StorageFullDialog
+          onOpenStorage={() => {
+            setShowStorageFull(false);
+            setShowStorage(true);
+          }}
+          onClose={() => setShowStorageFull(false)}
+        />
+      )}
+
+      {quota && quota.level !== 'ok' && (
+        <div className="max-w-6xl mx-auto px-4 pt-4">
+          <div
+            className={`flex items-center justify-between gap-3 px-4 py-2 rounded border text-sm ${
+              quota.level === 'critical'
+                ? 'bg-red-50 border-red-200 text-red-800'
+                : 'bg-amber-50 border-amber-200 text-amber-800'
+            }`}
+          >
+            <span>
+              Storage is {Math.round((quota.usage / quota.quota) * 100)}% full ({formatBytes(quota.usage)} of{' '}
+              {formatBytes(quota.quota)}). Free up space to keep saving.
+            </span>
+            <button onClick={() => setShowStorage(true)} className="font-medium underline">
+              Manage storage
+            </button>
+          </div>
+        </div>
+      )}
+
+      {recoveryMessage && (
+        <div className="max-w-6xl mx-auto px-4 pt-4">
+          <div className="flex items-center justify-between gap-3 px-4 py-2 rounded bg-blue-50 border border-blue-200 text-sm text-blue-800">
+            <span>{recoveryMessage}</span>
+            <button onClick={() => setRecoveryMessage(null)} title="Dismiss" className="p-1 rounded hover:bg-blue-100">
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="max-w-6xl mx-auto px-4 py-6 sm:py-8">
-        <div className="bg-white rounded-lg shadow-sm">
-          <Editor content={content} onUpdate={handleEditorUpdate} />
+        <div className="flex flex-col lg:flex-row gap-6">
+          <DocumentSidebar
+            documents={documents}
+            activeId={activeId}
+            onSelect={selectDocument}
+            onCreate={handleCreate}
+            onImport={handleImport}
+            onRename={handleRename}
+            onDuplicate={handleDuplicate}
+            onDelete={handleDelete}
+            onRestore={handleRestoreDeleted}
+          />
+          <div className="flex-1 min-w-0">
+            {activeDocument && (
+              <DocumentWorkspace
+                key={activeDocument.id}
+                documentId={activeDocument.id}
+                title={activeDocument.title}
+                onSaved={handleSaved}
+                focusTarget={focusTarget}
+                onFocusHandled={handleFocusHandled}
+                isDeleting={activeDocument.id === deletingId}
+              />
+            )}
+          </div>
         </div>
 
         {/* Help Text */}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Link2 } from 'lucide-react';
+import { getBacklinks, subscribeToNoteTitles, openNote, Backlink } from '@/lib/note-links';
+
+interface BacklinksPanelProps {
+  documentId: string;
+}
+
+/**
+ * Notes that link to this one, with the text around each link
+ */
+export default function BacklinksPanel({ documentId }: BacklinksPanelProps) {
+  const [backlinks, setBacklinks] = useState<Backlink[]>([]);
+
+  // Saves and renames anywhere refresh the library list, which republishes the titles
+  useEffect(() => {
+    const load = () =>
+      getBacklinks(documentId).then(setBacklinks, (error) => {
+        console.error('Failed to load backlinks:', error);
+      });
+    load();
+    return subscribeToNoteTitles(load);
+  }, [documentId]);
+
+  return (
+    <div className="px-4 py-3 border-t border-gray-200">
+      <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+        <Link2 size={16} />
+        Linked from {backlinks.length > 0 && <span className="font-normal text-gray-500">({backlinks.length})</span>}
+      </h3>
+      {backlinks.length === 0 ? (
+        <p className="mt-1 text-sm text-gray-500">
+          No other notes link here yet. Type <kbd className="px-1 rounded bg-gray-100">[[</kbd> in a note to link
+          to another.
+        </p>
+      ) : (
+        <ul className="mt-2 space-y-1">
+          {backlinks.map((backlink) => (
+            <li key={backlink.documentId}>
+              <button
+                onClick={() => openNote(backlink.documentId, { nodeType: 'noteLink', index: backlink.index })}
+                className="w-full px-2 py-1.5 rounded text-left hover:bg-gray-50"
+              >
+                <span className="block text-sm font-medium text-blue-700">{backlink.title}</span>
+                {backlink.excerpt && (
+                  <span className="block text-xs text-gray-500 truncate">{backlink.excerpt}</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { X, Download, Upload, AlertTriangle } from 'lucide-react';
+import {
+  exportBackup,
+  readBackup,
+  findBackupConflicts,
+  BackupValidationError,
+  EncryptedBackupError,
+  ParsedBackup,
+  BackupConflict,
+  RestoreMode,
+  ConflictStrategy,
+  RestoreResult,
+} from '@/lib/backup';
+import { downloadBlob } from '@/lib/download';
+import { WrongPassphraseError } from '@/lib/crypto';
+import { getVaultStatus, MIN_PASSPHRASE_LENGTH } from '@/lib/vault';
+
+interface BackupDialogProps {
+  onRestore: (backup: ParsedBackup, mode: RestoreMode, strategy: ConflictStrategy) => Promise<RestoreResult>;
+  onClose: () => void;
+}
+
+const STRATEGY_LABELS: Record<ConflictStrategy, string> = {
+  'keep-newer': 'Keep the most recently updated version',
+  'keep-local': 'Keep my local version',
+  'keep-imported': 'Overwrite with the imported version',
+  'keep-both': 'Keep both (import as a copy)',
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+export default function BackupDialog({ onRestore, onClose }: BackupDialogProps) {
+  const [backup, setBackup] = useState<ParsedBackup | null>(null);
+  const [conflicts, setConflicts] = useState<BackupConflict[]>([]);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [strategy, setStrategy] = useState<ConflictStrategy>('keep-newer');
+  const [isWorking, setIsWorking] = useState(false);
+  const [result, setResult] = useState<RestoreResult | null>(null);
+  // Encrypted exports are the default while vault mode is on
+  const [encryptExport, setEncryptExport] = useState(() => getVaultStatus().enabled);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  // Comments are left out of exports unless asked for
+  const [includeComments, setIncludeComments] = useState(false);
+  // Encrypted archive waiting for its passphrase
+  const [lockedFile, setLockedFile] = useState<File | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    if (encryptExport && exportPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setProblems([`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters to encrypt the backup.`]);
+      return;
+    }
+    setIsWorking(true);
+    setProblems([]);
+    try {
+      const blob = await exportBackup({
+        includeComments,
+        ...(encryptExport && { passphrase: exportPassphrase }),
+      });
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(blob, `notes-backup-${date}.${encryptExport ? 'enc' : 'zip'}`);
+      setExportPassphrase('');
+    } catch (error) {
+      console.error('Failed to export backup:', error);
+      setProblems(['Could not create the backup archive.']);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFile = async (file: File, passphrase?: string) => {
+    setBackup(null);
+    setProblems([]);
+    setResult(null);
+    setIsWorking(true);
+    try {
+      const parsed = await readBackup(file, passphrase);
+      setConflicts(await findBackupConflicts(parsed));
+      setBackup(parsed);
+      setLockedFile(null);
+      setImportPassphrase('');
+    } catch (error) {
+      if (error instanceof EncryptedBackupError) {
+        setLockedFile(file);
+      } else if (error instanceof WrongPassphraseError) {
+        setProblems(['The passphrase does not decrypt this backup.']);
+      } else {
+        setLockedFile(null);
+        setProblems(
+          error instanceof BackupValidationError ? error.problems : ['Could not read the backup archive.']
+        );
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    if (
+      mode === 'replace' &&
+      !window.confirm('Replace all local notes, images and history with this backup? This cannot be undone.')
+    ) {
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      setResult(await onRestore(backup, mode, strategy));
+      setBackup(null);
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      setProblems(['Restoring the backup failed. No changes were made.']);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/30 p-4" onClick={onClose}>
+      <div className="w-full max-w-lg bg-white rounded-lg shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-3 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Backup & restore</h2>
+          <button onClick={onClose} title="Close" className="p-1.5 rounded text-gray-600 hover:bg-gray-100">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-5 py-4 space-y-5 text-sm">
+          <section>
+            <h3 className="font-medium text-gray-900">Export everything</h3>
+            <p className="mt-1 text-gray-600">
+              Download one archive with all notes, their history and every stored image.
+            </p>
+            <label className="mt-2 flex items-center gap-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={includeComments}
+                onChange={(e) => setIncludeComments(e.target.checked)}
+              />
+              Include comments
+            </label>
+            <label className="mt-1 flex items-center gap-2 text-gray-700">
+              <input type="checkbox" checked={encryptExport} onChange={(e) => setEncryptExport(e.target.checked)} />
+              Encrypt the backup with a passphrase
+            </label>
+            {encryptExport && (
+              <input
+                type="password"
+                value={exportPassphrase}
+                onChange={(e) => setExportPassphrase(e.target.value)}
+                placeholder="Backup passphrase"
+                autoComplete="new-password"
+                className="mt-2 w-full px-3 py-1.5 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            )}
+            <button
+              onClick={handleExport}
+              disabled={isWorking}
+              className="mt-2 flex items-center gap-2 px-3 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Download size={14} /> Export everything
+            </button>
+          </section>
+
+          <section>
+            <h3 className="font-medium text-gray-900">Import</h3>
+            <p className="mt-1 text-gray-600">The archive is checked before anything is written.</p>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isWorking}
+              className="mt-2 flex items-center gap-2 px-3 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+            >
+              <Upload size={14} /> Choose backup file
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".zip,.enc"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+            {lockedFile && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleFile(lockedFile, importPassphrase);
+                }}
+                className="mt-2 flex gap-2"
+              >
+                <input
+                  type="password"
+                  value={importPassphrase}
+                  onChange={(e) => setImportPassphrase(e.target.value)}
+                  placeholder={`Passphrase for ${lockedFile.name}`}
+                  autoFocus
+                  className="flex-1 min-w-0 px-3 py-1.5 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  type="submit"
+                  disabled={isWorking || !importPassphrase}
+                  className="px-3 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Decrypt
+                </button>
+              </form>
+            )}
+          </section>
+
+          {problems.length > 0 && (
+            <div className="rounded border border-red-200 bg-red-50 p-3 text-red-800">
+              <p className="flex items-center gap-2 font-medium">
+                <AlertTriangle size={14} /> This archive cannot be imported
+              </p>
+              <ul className="mt-1 list-disc pl-5 max-h-32 overflow-y-auto">
+                {problems.map((problem, index) => (
+                  <li key={index}>{problem}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {backup && (
+            <div className="rounded border border-gray-200 p-3 space-y-3">
+              <p className="text-gray-700">
+                Backup from {formatDate(backup.manifest.exportedAt)}: {backup.documents.length} notes,{' '}
+                {backup.images.length} images, {backup.snapshots.length} versions
+                {backup.comments.length > 0 && `, ${backup.comments.length} comment threads`}.
+              </p>
+
+              <div className="space-y-1">
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                  Merge with my notes
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                  Replace all my notes
+                </label>
+              </div>
+
+              {mode === 'merge' && conflicts.length > 0 && (
+                <div>
+                  <p className="text-gray-700">
+                    {conflicts.length} {conflicts.length === 1 ? 'note already exists' : 'notes already exist'}:
+                  </p>
+                  <ul className="mt-1 max-h-28 overflow-y-auto text-xs text-gray-600">
+                    {conflicts.map((conflict) => (
+                      <li key={conflict.id}>
+                        {conflict.localTitle} (local {formatDate(conflict.localUpdatedAt)}, imported{' '}
+                        {formatDate(conflict.importedUpdatedAt)})
+                      </li>
+                    ))}
+                  </ul>
+                  <select
+                    value={strategy}
+                    onChange={(e) => setStrategy(e.target.value as ConflictStrategy)}
+                    className="mt-2 w-full px-2 py-1 border border-gray-300 rounded"
+                  >
+                    {Object.entries(STRATEGY_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <button
+                onClick={handleRestore}
+                disabled={isWorking}
+                className="px-3 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                {mode === 'replace' ? 'Replace with backup' : 'Import backup'}
+              </button>
+            </div>
+          )}
+
+          {result && (
+            <p className="rounded border border-green-200 bg-green-50 p-3 text-green-800">
+              Imported {result.documentsAdded} new and {result.documentsUpdated} updated notes
+              {result.documentsSkipped > 0 && `, skipped ${result.documentsSkipped}`}, and {result.imagesAdded} images.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { NodeViewWrapper, NodeViewContent, NodeViewProps } from '@tiptap/react';
+import { Check, Copy, ListOrdered } from 'lucide-react';
+import { CODE_LANGUAGES } from '@/lib/code-block';
+
+// Value of the picker's "detect" entry; the node stores null
+const AUTO_LANGUAGE = '';
+// How long the copy button shows it worked
+const COPIED_DURATION = 1500;
+
+/**
+ * Code block node view: language picker, line numbers toggle and copy button above the code
+ */
+export default function CodeBlockView({ node, updateAttributes, editor }: NodeViewProps) {
+  const { language, lineNumbers } = node.attrs;
+  const [copied, setCopied] = useState(false);
+  const isEditable = editor.isEditable;
+  const lineCount = node.textContent.split('\n').length;
+  const isKnown = !language || CODE_LANGUAGES.some((option) => option.id === language);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = setTimeout(() => setCopied(false), COPIED_DURATION);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(node.textContent);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+    }
+  };
+
+  return (
+    <NodeViewWrapper className="code-block">
+      <div contentEditable={false} className="code-block-header">
+        <select
+          value={language ?? AUTO_LANGUAGE}
+          onChange={(e) => updateAttributes({ language: e.target.value || null })}
+          disabled={!isEditable}
+          title="Language"
+          className="bg-transparent text-gray-300 rounded hover:bg-gray-700 focus:outline-none"
+        >
+          <option value={AUTO_LANGUAGE}>Auto-detect</option>
+          {!isKnown && <option value={language}>{language}</option>}
+          {CODE_LANGUAGES.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <div className="flex items-center gap-1">
+          {isEditable && (
+            <button
+              type="button"
+              onClick={() => updateAttributes({ lineNumbers: !lineNumbers })}
+              title={lineNumbers ? 'Hide line numbers' : 'Show line numbers'}
+              className={`p-1 rounded hover:bg-gray-700 ${lineNumbers ? 'text-white' : ''}`}
+            >
+              <ListOrdered size={14} />
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleCopy}
+            title={copied ? 'Copied' : 'Copy code'}
+            className="flex items-center gap-1 p-1 rounded hover:bg-gray-700"
+          >
+            {copied ? <Check size={14} /> : <Copy size={14} />}
+            {copied && 'Copied'}
+          </button>
+        </div>
+      </div>
+      <pre data-line-numbers={lineNumbers || undefined}>
+        {lineNumbers && (
+          <span contentEditable={false} aria-hidden className="code-block-gutter">
+            {Array.from({ length: lineCount }, (_, index) => index + 1).join('\n')}
+          </span>
+        )}
+        <NodeViewContent<'code'>
+          as="code"
+          className={language ? `language-${language}` : undefined}
+          // Long lines scroll rather than wrap, so they stay level with their numbers
+          style={{ whiteSpace: 'pre' }}
+        />
+      </pre>
+    </NodeViewWrapper>
+  );
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import { X, Users, AlertTriangle } from 'lucide-react';
+import {
+  getCollaborationSettings,
+  saveCollaborationSettings,
+  COLLABORATOR_COLORS,
+  CollaborationSettings,
+  Collaborator,
+} from '@/lib/collaboration';
+import type { ConnectionStatus } from '@/hooks/useCollaboration';
+
+interface CollaborationDialogProps {
+  enabled: boolean;
+  // Collaboration can't be used in vault mode: the shared state is stored unencrypted
+  isAvailable: boolean;
+  status: ConnectionStatus | null;
+  collaborators: Collaborator[];
+  onToggle: (enabled: boolean) => void;
+  onSettingsSaved: (settings: CollaborationSettings) => void;
+  onClose: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-1.5 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const STATUS_LABELS: Record<ConnectionStatus, string> = {
+  connecting: 'Connecting to the collaboration server…',
+  connected: 'Connected. Changes are shared as you type.',
+  disconnected: 'Offline. Your changes are kept and merged when you reconnect.',
+};
+
+/**
+ * Turn collaboration on or off for a note and set the name and color others see
+ */
+export default function CollaborationDialog({
+  enabled,
+  isAvailable,
+  status,
+  collaborators,
+  onToggle,
+  onSettingsSaved,
+  onClose,
+}: CollaborationDialogProps) {
+  const [settings, setSettings] = useState(getCollaborationSettings);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveCollaborationSettings(settings);
+    onSettingsSaved(getCollaborationSettings());
+    setMessage('Settings saved.');
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/30 p-4" onClick={onClose}>
+      <div className="w-full max-w-md bg-white rounded-lg shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-3 border-b border-gray-200">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <Users size={18} />
+            Collaborate
+          </h2>
+          <button onClick={onClose} title="Close" className="p-1.5 rounded text-gray-600 hover:bg-gray-100">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-5 py-4 space-y-4 text-sm text-gray-700">
+          <p>
+            Edit this note together in real time. Everyone needs the same note (for example through sync) and the
+            same collaboration server.
+          </p>
+
+          {!isAvailable ? (
+            <p className="flex gap-2 text-amber-800">
+              <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+              Collaboration is not available while encryption is on, because shared edits are stored and sent
+              unencrypted.
+            </p>
+          ) : (
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={enabled} onChange={(e) => onToggle(e.target.checked)} />
+              Collaborate on this note
+            </label>
+          )}
+
+          {enabled && status && (
+            <div className="space-y-2">
+              <p>{STATUS_LABELS[status]}</p>
+              {collaborators.length > 0 && (
+                <ul className="flex flex-wrap gap-2">
+                  {collaborators.map((collaborator) => (
+                    <li
+                      key={collaborator.clientId}
+                      className="px-2 py-0.5 rounded-full text-xs text-white"
+                      style={{ backgroundColor: collaborator.color }}
+                    >
+                      {collaborator.name}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <form onSubmit={handleSave} className="space-y-3 pt-3 border-t border-gray-200">
+            <label className="block">
+              <span className="font-medium text-gray-900">Your name</span>
+              <input
+                type="text"
+                value={settings.userName}
+                onChange={(e) => setSettings({ ...settings, userName: e.target.value })}
+                maxLength={40}
+                className={`mt-1 ${inputClassName}`}
+              />
+            </label>
+
+            <div>
+              <span className="font-medium text-gray-900">Your color</span>
+              <div className="mt-1 flex gap-2">
+                {COLLABORATOR_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => setSettings({ ...settings, userColor: color })}
+                    title={color}
+                    className={`w-6 h-6 rounded-full ${
+                      settings.userColor === color ? 'ring-2 ring-offset-2 ring-gray-400' : ''
+                    }`}
+                    style={{ backgroundColor: color }}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <label className="block">
+              <span className="font-medium text-gray-900">Collaboration server</span>
+              <input
+                type="text"
+                value={settings.serverUrl}
+                onChange={(e) => setSettings({ ...settings, serverUrl: e.target.value })}
+                placeholder="ws://localhost:1234"
+                className={`mt-1 ${inputClassName}`}
+              />
+              <span className="mt-1 block text-xs text-gray-500">
+                Start it with <code>npm run collab</code>. A new address applies the next time the note is opened.
+              </span>
+            </label>
+
+            <button
+              type="submit"
+              disabled={!settings.userName.trim()}
+              className="px-3 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save
+            </button>
+          </form>
+          {message && <p className="text-green-700">{message}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+'use client';
+
+import { useState } from 'react';
+import type { Editor } from '@tiptap/react';
+import { MessageSquare, Check, RotateCcw, Trash2 } from 'lucide-react';
+import type { CommentThread } from '@/lib/storage';
+import {
+  createCommentThread,
+  replyToCommentThread,
+  setCommentThreadResolved,
+  deleteCommentThread,
+  removeComment,
+  selectComment,
+  CommentAnchor,
+} from '@/lib/comments';
+import { getCollaborationSettings } from '@/lib/collaboration';
+import { useComments } from '@/hooks/useComments';
+
+interface CommentsPanelProps {
+  editor: Editor;
+  documentId: string;
+}
+
+const formatCommentTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+
+// Comments are signed with the name set for collaboration
+const getAuthor = () => getCollaborationSettings().userName.trim() || 'Anonymous';
+
+/**
+ * Text box for a new comment or a reply. Ctrl/Cmd+Enter sends, Escape cancels.
+ */
+function CommentComposer({
+  placeholder,
+  submitLabel,
+  autoFocus,
+  onSubmit,
+  onCancel,
+}: {
+  placeholder: string;
+  submitLabel: string;
+  autoFocus?: boolean;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!body.trim() || isSending) return;
+    setIsSending(true);
+    try {
+      await onSubmit(body.trim());
+      setBody('');
+    } catch {
+      // Logged by lib/comments.ts; the text stays so it can be sent again
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="mt-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            handleSubmit();
+          } else if (e.key === 'Escape') {
+            onCancel?.();
+          }
+        }}
+        autoFocus={autoFocus}
+        rows={2}
+        placeholder={placeholder}
+        className="w-full px-2 py-1 text-sm border border-gray-300 rounded resize-y"
+      />
+      <div className="flex justify-end gap-2 mt-1">
+        {onCancel && (
+          <button onClick={onCancel} className="px-2 py-1 text-xs rounded text-gray-700 hover:bg-gray-100">
+            Cancel
+          </button>
+        )}
+        <button
+          onClick={handleSubmit}
+          disabled={!body.trim() || isSending}
+          className="px-2 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ThreadCard({
+  editor,
+  thread,
+  anchor,
+  isActive,
+}: {
+  editor: Editor;
+  thread: CommentThread;
+  anchor: CommentAnchor;
+  isActive: boolean;
+}) {
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this comment and all its replies?')) return;
+    await deleteCommentThread(thread);
+    removeComment(editor, thread.id);
+  };
+
+  return (
+    <li
+      onClick={() => {
+        if (!isActive) selectComment(editor, anchor);
+      }}
+      className={`p-3 rounded-lg border bg-white cursor-pointer ${
+        isActive ? 'border-blue-400 shadow-sm' : 'border-gray-200 hover:border-gray-300'
+      } ${thread.resolved ? 'opacity-75' : ''}`}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <p className="min-w-0 pl-2 border-l-2 border-amber-300 text-xs text-gray-500 truncate">{anchor.text}</p>
+        <div className="flex shrink-0 gap-0.5" onClick={(e) => e.stopPropagation()}>
+          <button
+            onClick={() => setCommentThreadResolved(thread.id, !thread.resolved)}
+            title={thread.resolved ? 'Reopen' : 'Resolve'}
+            className="p-1 rounded text-gray-500 hover:bg-gray-100 hover:text-gray-800"
+          >
+            {thread.resolved ? <RotateCcw size={14} /> : <Check size={14} />}
+          </button>
+          <button
+            onClick={handleDelete}
+            title="Delete thread"
+            className="p-1 rounded text-gray-500 hover:bg-gray-100 hover:text-red-600"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      </div>
+
+      <ul className="mt-2 space-y-2">
+        {thread.messages.map((message) => (
+          <li key={message.id} className="text-sm">
+            <div className="flex items-baseline justify-between gap-2">
+              <span className="font-medium text-gray-900 truncate">{message.author}</span>
+              <span className="shrink-0 text-xs text-gray-400">{formatCommentTime(message.createdAt)}</span>
+            </div>
+            <p className="text-gray-700 whitespace-pre-wrap break-words">{message.body}</p>
+          </li>
+        ))}
+      </ul>
+      {thread.resolved && <p className="mt-2 text-xs text-green-700">Resolved</p>}
+
+      {isActive && (
+        <div onClick={(e) => e.stopPropagation()}>
+          <CommentComposer
+            placeholder={thread.resolved ? 'Reply to reopen…' : 'Reply…'}
+            submitLabel="Reply"
+            onSubmit={(body) => replyToCommentThread(thread.id, getAuthor(), body)}
+          />
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Margin beside the editor with the note's comment threads, in the order their text appears.
+ * Hidden while the note has no comments.
+ */
+export default function CommentsPanel({ editor, documentId }: CommentsPanelProps) {
+  const { threads, anchors, activeId, draftId } = useComments(editor, documentId);
+  const [showResolved, setShowResolved] = useState(false);
+
+  const threadsById = new Map(threads.map((thread) => [thread.id, thread]));
+  // Threads whose text is still in the note
+  const placed = anchors.flatMap((anchor) => {
+    const thread = threadsById.get(anchor.threadId);
+    return thread ? [{ thread, anchor }] : [];
+  });
+  const resolvedCount = placed.filter(({ thread }) => thread.resolved).length;
+  const shown = placed.filter(({ thread }) => showResolved || !thread.resolved || thread.id === activeId);
+  const draftAnchor = draftId ? anchors.find((anchor) => anchor.threadId === draftId) : undefined;
+
+  if (placed.length === 0 && !draftAnchor) return null;
+
+  return (
+    <aside className="w-72 shrink-0 border-l border-gray-200 bg-gray-50 px-3 py-4">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+          <MessageSquare size={16} />
+          Comments
+          <span className="font-normal text-gray-500">({placed.length - resolvedCount})</span>
+        </h3>
+        {resolvedCount > 0 && (
+          <label className="flex items-center gap-1 text-xs text-gray-600">
+            <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />
+            Resolved ({resolvedCount})
+          </label>
+        )}
+      </div>
+
+      {draftAnchor && (
+        <div className="mb-3 p-3 rounded-lg border border-blue-400 bg-white shadow-sm">
+          <p className="pl-2 border-l-2 border-amber-300 text-xs text-gray-500 truncate">{draftAnchor.text}</p>
+          <CommentComposer
+            placeholder="Add a comment…"
+            submitLabel="Comment"
+            autoFocus
+            onSubmit={async (body) => {
+              await createCommentThread(documentId, draftAnchor.threadId, getAuthor(), body);
+            }}
+            onCancel={() => removeComment(editor, draftAnchor.threadId)}
+          />
+        </div>
+      )}
+
+      <ul className="space-y-3">
+        {shown.map(({ thread, anchor }) => (
+          <ThreadCard
+            key={thread.id}
+            editor={editor}
+            thread={thread}
+            anchor={anchor}
+            isActive={thread.id === activeId}
+          />
+        ))}
+      </ul>
+      {shown.length === 0 && !draftAnchor && (
+        <p className="text-sm text-gray-500">All comments are resolved.</p>
+      )}
+    </aside>
+  );
+}
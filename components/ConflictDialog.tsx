@@ -0,0 +1,79 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import type { NoteDocument } from '@/lib/storage';
+
+interface ConflictDialogProps {
+  title: string;
+  // The version currently stored, saved by another tab
+  theirs: NoteDocument;
+  onKeepMine: () => Promise<void> | void;
+  onUseTheirs: () => Promise<void> | void;
+  onSaveCopy: () => Promise<void> | void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false });
+
+/**
+ * Shown when this tab tries to save a note that another tab saved in the meantime.
+ * Deliberately has no close button: the user has to pick which version wins.
+ */
+export default function ConflictDialog({ title, theirs, onKeepMine, onUseTheirs, onSaveCopy }: ConflictDialogProps) {
+  const [isWorking, setIsWorking] = useState(false);
+
+  const run = (action: () => Promise<void> | void) => async () => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      window.alert('Could not resolve the conflict. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/30 p-4">
+      <div className="w-full max-w-md bg-white rounded-lg shadow-xl">
+        <div className="flex items-center gap-2 px-5 py-3 border-b border-gray-200">
+          <AlertTriangle size={18} className="text-amber-500" />
+          <h2 className="text-lg font-semibold text-gray-900">Edited in another tab</h2>
+        </div>
+
+        <div className="px-5 py-4 space-y-3 text-sm text-gray-700">
+          <p>
+            &ldquo;{title}&rdquo; was saved in another tab at {formatTime(theirs.updatedAt)} while you had unsaved
+            changes here. Which version do you want to keep?
+          </p>
+
+          <div className="flex flex-col gap-2 pt-1">
+            <button
+              onClick={run(onKeepMine)}
+              disabled={isWorking}
+              className="px-3 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              Keep mine (overwrite the other tab&apos;s changes)
+            </button>
+            <button
+              onClick={run(onUseTheirs)}
+              disabled={isWorking}
+              className="px-3 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+            >
+              Use theirs (discard my changes)
+            </button>
+            <button
+              onClick={run(onSaveCopy)}
+              disabled={isWorking}
+              className="px-3 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+            >
+              Save mine as a copy and use theirs
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
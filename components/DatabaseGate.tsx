@@ -0,0 +1,155 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AlertTriangle, RefreshCw, RotateCcw } from 'lucide-react';
+import { getDB } from '@/lib/storage';
+import {
+  subscribeToMigrationProgress,
+  getMigrationBackupInfo,
+  restoreMigrationBackup,
+  MigrationError,
+  MigrationProgress,
+} from '@/lib/migrations';
+
+interface DatabaseGateProps {
+  children: React.ReactNode;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Opens the database before rendering the app, showing upgrade progress
+ * and offering retry or restore when a migration fails
+ */
+export default function DatabaseGate({ children }: DatabaseGateProps) {
+  const [isReady, setIsReady] = useState(false);
+  const [progress, setProgress] = useState<MigrationProgress | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [backup, setBackup] = useState<{ version: number; createdAt: number } | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => subscribeToMigrationProgress(setProgress), []);
+
+  useEffect(() => {
+    let active = true;
+    getDB().then(
+      () => {
+        if (active) setIsReady(true);
+      },
+      async (openError: Error) => {
+        console.error('Failed to open the database:', openError);
+        const backupInfo = await getMigrationBackupInfo();
+        if (!active) return;
+        setError(openError);
+        setBackup(backupInfo);
+      }
+    );
+    return () => {
+      active = false;
+    };
+  }, [attempt]);
+
+  const handleRetry = () => {
+    setError(null);
+    setProgress(null);
+    setAttempt((count) => count + 1);
+  };
+
+  const handleRestore = async () => {
+    if (!backup || !window.confirm(`Restore your notes as they were on ${formatDate(backup.createdAt)}?`)) {
+      return;
+    }
+    setIsRestoring(true);
+    try {
+      await restoreMigrationBackup();
+      handleRetry();
+    } catch (restoreError) {
+      console.error('Failed to restore the backup:', restoreError);
+      window.alert('Could not restore the backup. Close other tabs of this app and try again.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (isReady) {
+    return <>{children}</>;
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="w-full max-w-md bg-white rounded-lg shadow-sm p-6 text-sm text-gray-700">
+          <div className="flex items-center gap-2 text-red-600">
+            <AlertTriangle size={20} />
+            <h1 className="text-lg font-semibold">Your notes could not be opened</h1>
+          </div>
+          <p className="mt-3">
+            {error instanceof MigrationError
+              ? 'Upgrading the local database failed. The upgrade was rolled back, so your notes are unchanged.'
+              : 'The local database is not available. Private browsing or blocked site data can cause this.'}
+          </p>
+          <p className="mt-2 px-3 py-2 rounded bg-gray-50 font-mono text-xs text-gray-600 break-words">
+            {error.message}
+          </p>
+          {backup && (
+            <p className="mt-2 text-gray-500">
+              A copy of your data was saved before the upgrade on {formatDate(backup.createdAt)}.
+            </p>
+          )}
+          <div className="mt-4 flex gap-2">
+            <button
+              onClick={handleRetry}
+              disabled={isRestoring}
+              className="flex items-center gap-2 px-3 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              <RefreshCw size={16} />
+              Try again
+            </button>
+            {backup && (
+              <button
+                onClick={handleRestore}
+                disabled={isRestoring}
+                className="flex items-center gap-2 px-3 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+              >
+                <RotateCcw size={16} />
+                Restore backup
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // A fresh install runs every step too, but there is nothing to report
+  const isUpgrading = progress && progress.phase !== 'done' && progress.fromVersion > 0;
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="text-center w-72">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+        {isUpgrading ? (
+          <>
+            <p className="mt-4 text-gray-700 font-medium">Upgrading your notes…</p>
+            <p className="mt-1 text-sm text-gray-500">
+              {progress.phase === 'backup' && 'Backing up your data'}
+              {progress.phase === 'blocked' && 'Close other tabs of this app to continue'}
+              {progress.phase === 'migrating' && `Step ${progress.step} of ${progress.total}: ${progress.description}`}
+            </p>
+            {progress.total > 0 && (
+              <div className="mt-3 h-1.5 rounded bg-gray-200 overflow-hidden">
+                <div
+                  className="h-full bg-blue-600 transition-all"
+                  style={{ width: `${(progress.step / progress.total) * 100}%` }}
+                />
+              </div>
+            )}
+          </>
+        ) : (
+          <p className="mt-4 text-gray-600">Loading your notes...</p>
+        )}
+      </div>
+    </div>
+  );
+}
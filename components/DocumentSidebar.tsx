@@ -0,0 +1,216 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { FilePlus, FileUp, Pencil, Copy, Trash2, ArchiveRestore, ChevronDown, ChevronRight } from 'lucide-react';
+import type { DocumentSummary } from '@/lib/storage';
+import { listDeletedNotes, DeletedNote, DELETED_NOTE_RETENTION_DAYS } from '@/lib/history';
+
+interface DocumentSidebarProps {
+  documents: DocumentSummary[];
+  activeId: string | null;
+  onSelect: (documentId: string) => void;
+  onCreate: () => void;
+  onImport: (file: File) => void;
+  onRename: (documentId: string, title: string) => void;
+  onDuplicate: (documentId: string) => void;
+  onDelete: (documentId: string) => void;
+  onRestore: (note: DeletedNote) => void;
+}
+
+const formatUpdatedAt = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false })
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+export default function DocumentSidebar({
+  documents,
+  activeId,
+  onSelect,
+  onCreate,
+  onImport,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onRestore,
+}: DocumentSidebarProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [showDeleted, setShowDeleted] = useState(false);
+  const [deletedNotes, setDeletedNotes] = useState<DeletedNote[]>([]);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Reload whenever the notes change, since deleting or restoring one moves it in or out
+  useEffect(() => {
+    if (!showDeleted) return;
+    listDeletedNotes().then(setDeletedNotes);
+  }, [showDeleted, documents]);
+
+  const startRename = (document: DocumentSummary) => {
+    setRenamingId(document.id);
+    setDraftTitle(document.title);
+  };
+
+  const commitRename = () => {
+    if (renamingId) {
+      onRename(renamingId, draftTitle);
+    }
+    setRenamingId(null);
+  };
+
+  const confirmDelete = (document: DocumentSummary) => {
+    if (
+      window.confirm(
+        `Delete "${document.title}"? You can restore it from Recently deleted for ${DELETED_NOTE_RETENTION_DAYS} days.`
+      )
+    ) {
+      onDelete(document.id);
+    }
+  };
+
+  return (
+    <aside className="w-full lg:w-64 shrink-0">
+      <div className="bg-white rounded-lg shadow-sm">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <h2 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">Notes</h2>
+          <div className="flex items-center">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              title="Import Markdown (.md or .zip)"
+              className="p-1.5 rounded text-gray-700 hover:bg-gray-100 transition-colors"
+            >
+              <FileUp size={18} />
+            </button>
+            <button
+              onClick={onCreate}
+              title="New note"
+              className="p-1.5 rounded text-gray-700 hover:bg-gray-100 transition-colors"
+            >
+              <FilePlus size={18} />
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".md,.markdown,.txt,.zip"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+
+        <ul className="max-h-[70vh] overflow-y-auto py-1">
+          {documents.map((document) => (
+            <li key={document.id}>
+              {renamingId === document.id ? (
+                <div className="px-3 py-2">
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                  />
+                </div>
+              ) : (
+                <div
+                  className={`group flex items-center gap-1 px-3 py-2 cursor-pointer transition-colors ${
+                    document.id === activeId ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                  onClick={() => onSelect(document.id)}
+                  onDoubleClick={() => startRename(document)}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p
+                      className={`text-sm truncate ${
+                        document.id === activeId ? 'font-semibold text-blue-700' : 'text-gray-900'
+                      }`}
+                    >
+                      {document.title}
+                    </p>
+                    <p className="text-xs text-gray-500">{formatUpdatedAt(document.updatedAt)}</p>
+                  </div>
+                  <div className="hidden group-hover:flex items-center">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        startRename(document);
+                      }}
+                      title="Rename"
+                      className="p-1 rounded text-gray-500 hover:bg-gray-200"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onDuplicate(document.id);
+                      }}
+                      title="Duplicate"
+                      className="p-1 rounded text-gray-500 hover:bg-gray-200"
+                    >
+                      <Copy size={14} />
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        confirmDelete(document);
+                      }}
+                      title="Delete"
+                      className="p-1 rounded text-gray-500 hover:bg-red-100 hover:text-red-600"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <div className="border-t border-gray-200">
+          <button
+            onClick={() => setShowDeleted(!showDeleted)}
+            className="w-full flex items-center gap-1 px-4 py-2 text-xs font-medium text-gray-500 hover:bg-gray-50"
+          >
+            {showDeleted ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+            Recently deleted
+          </button>
+          {showDeleted &&
+            (deletedNotes.length === 0 ? (
+              <p className="px-4 pb-3 text-xs text-gray-500">
+                Deleted notes stay here for {DELETED_NOTE_RETENTION_DAYS} days with their version history.
+              </p>
+            ) : (
+              <ul className="max-h-60 overflow-y-auto pb-1">
+                {deletedNotes.map((note) => (
+                  <li key={note.snapshotId} className="flex items-center gap-1 px-3 py-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-700 truncate">{note.title}</p>
+                      <p className="text-xs text-gray-500">Deleted {formatUpdatedAt(note.deletedAt)}</p>
+                    </div>
+                    <button
+                      onClick={() => onRestore(note)}
+                      title="Restore"
+                      className="p-1 rounded text-gray-500 hover:bg-gray-200"
+                    >
+                      <ArchiveRestore size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ))}
+        </div>
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,391 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Editor as TiptapEditor, JSONContent } from '@tiptap/react';
+import dynamic from 'next/dynamic';
+import {
+  saveDocument,
+  getDocument,
+  createDocument,
+  DocumentConflictError,
+  DocumentDeletedError,
+  StorageFullError,
+  NoteDocument,
+  CommentThread,
+} from '@/lib/storage';
+import { reportStorageFull } from '@/lib/quota';
+import { subscribeToTabs } from '@/lib/tab-sync';
+import { writeJournal, clearJournal } from '@/lib/journal';
+import { captureAutoSnapshot } from '@/lib/history';
+import { exportMarkdown } from '@/lib/markdown';
+import { listCommentThreads, findCommentAnchors } from '@/lib/comments';
+import { downloadBlob } from '@/lib/download';
+import { getVaultStatus } from '@/lib/vault';
+import { focusNode, FocusTarget } from '@/lib/editor-focus';
+import { isCollaborative, setCollaborative, CollaborationSettings } from '@/lib/collaboration';
+import { History, FileDown, Users, ListTree } from 'lucide-react';
+import HistoryPanel from '@/components/HistoryPanel';
+import ConflictDialog from '@/components/ConflictDialog';
+import CollaborationDialog from '@/components/CollaborationDialog';
+import BacklinksPanel from '@/components/BacklinksPanel';
+import OutlinePanel from '@/components/OutlinePanel';
+import ExportDialog from '@/components/ExportDialog';
+import { useAutosave, AutosaveIndicator } from '@/hooks/useAutosave';
+import { useCollaboration, useCollaborators } from '@/hooks/useCollaboration';
+
+// Dynamically import Editor to avoid SSR issues
+const Editor = dynamic(() => import('@/components/Editor'), { ssr: false });
+
+// Whether the outline sidebar is open; shared by all notes
+const OUTLINE_OPEN_KEY = 'notes-app-outline-open';
+
+interface DocumentWorkspaceProps {
+  documentId: string;
+  title: string;
+  onSaved: () => void;
+  // Where to put the cursor once the note is open
+  focusTarget?: FocusTarget | null;
+  onFocusHandled?: () => void;
+  // The note is about to be deleted: unsaved edits are dropped so closing it doesn't save it back
+  isDeleting?: boolean;
+}
+
+/**
+ * Editing session for a single document.
+ * Mount it with `key={documentId}` so every note gets its own autosave session.
+ */
+export default function DocumentWorkspace({
+  documentId,
+  title,
+  onSaved,
+  focusTarget,
+  onFocusHandled,
+  isDeleting = false,
+}: DocumentWorkspaceProps) {
+  const [content, setContent] = useState<JSONContent | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editor, setEditor] = useState<TiptapEditor | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  // Comment threads of the note being exported; the export dialog is open while set
+  const [exportComments, setExportComments] = useState<CommentThread[] | null>(null);
+  const [showOutline, setShowOutline] = useState(() => localStorage.getItem(OUTLINE_OPEN_KEY) === 'true');
+  // Stored version that a save from this tab collided with
+  const [conflict, setConflict] = useState<NoteDocument | null>(null);
+  // Another tab saved while this one had unsaved edits
+  const [changedElsewhere, setChangedElsewhere] = useState(false);
+  // Revision the editor content is based on; saves from an older base are rejected
+  const revisionRef = useRef(0);
+  // Report a full disk once per run of failing saves, not on every retry
+  const storageFullReportedRef = useRef(false);
+  const [showCollaboration, setShowCollaboration] = useState(false);
+  const [isShared, setIsShared] = useState(() => isCollaborative(documentId));
+  // The shared CRDT state is stored unencrypted, so collaboration is off in vault mode
+  const canCollaborate = !getVaultStatus().enabled;
+  const { session, isOpening, failed: collaborationFailed } = useCollaboration(
+    documentId,
+    isShared && canCollaborate
+  );
+  const { status: connectionStatus, collaborators } = useCollaborators(session);
+
+  // Load document on mount
+  useEffect(() => {
+    const loadDoc = async () => {
+      try {
+        const savedDocument = await getDocument(documentId);
+        if (savedDocument) {
+          revisionRef.current = savedDocument.revision ?? 0;
+          // Image node views resolve their own URLs from imageIds
+          setContent(savedDocument.content);
+        }
+      } catch (error) {
+        console.error('Failed to load document:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadDoc();
+  }, [documentId]);
+
+  // Autosave hook
+  const { status, triggerAutosave, save, hasPendingChanges, discardChanges } = useAutosave({
+    delay: 5000, // 5 seconds
+    onSave: async () => {
+      if (editor) {
+        const startedAt = Date.now();
+        const json = editor.getJSON();
+        try {
+          // While collaborating the CRDT has already merged everyone's edits, so there is nothing to conflict with
+          revisionRef.current = await saveDocument(documentId, json, session ? undefined : revisionRef.current);
+        } catch (error) {
+          if (error instanceof DocumentConflictError) {
+            setConflict(error.current);
+          } else if (error instanceof StorageFullError && !storageFullReportedRef.current) {
+            storageFullReportedRef.current = true;
+            reportStorageFull(error);
+          }
+          throw error;
+        }
+        storageFullReportedRef.current = false;
+        clearJournal(documentId, startedAt);
+        setChangedElsewhere(false);
+        onSaved();
+        // History is best effort; it must not turn a successful save into a failed one
+        await captureAutoSnapshot(documentId, json).catch((error) => {
+          console.error('Failed to capture snapshot:', error);
+        });
+      }
+    },
+    onJournal: () => {
+      if (editor) writeJournal(documentId, editor.getJSON(), revisionRef.current);
+    },
+    // Conflicts are resolved in the dialog, not by retrying, and a deleted note stays deleted
+    shouldRetry: (error) => !(error instanceof DocumentConflictError || error instanceof DocumentDeletedError),
+  });
+
+  useEffect(() => {
+    if (isDeleting) discardChanges();
+  }, [isDeleting, discardChanges]);
+
+  // Replace the editor content with the stored version without triggering a save
+  const applyStoredVersion = useCallback(
+    (stored: NoteDocument) => {
+      if (!editor) return;
+      const { from, to } = editor.state.selection;
+      editor.commands.setContent(stored.content || '', { emitUpdate: false });
+      const end = editor.state.doc.content.size;
+      editor.commands.setTextSelection({ from: Math.min(from, end), to: Math.min(to, end) });
+      revisionRef.current = stored.revision ?? 0;
+      discardChanges();
+      clearJournal(documentId);
+      setChangedElsewhere(false);
+    },
+    [editor, documentId, discardChanges]
+  );
+
+  // Follow saves made in other tabs: update live when there's nothing unsaved here, otherwise warn
+  useEffect(() => {
+    return subscribeToTabs(async (message) => {
+      if (message.type !== 'document-saved' || message.documentId !== documentId) return;
+      if (message.revision <= revisionRef.current) return;
+      // Other tabs' edits arrive through the shared document
+      if (session) return;
+
+      if (hasPendingChanges()) {
+        setChangedElsewhere(true);
+        return;
+      }
+      const stored = await getDocument(documentId);
+      if (stored && !hasPendingChanges()) {
+        applyStoredVersion(stored);
+      }
+    });
+  }, [documentId, session, hasPendingChanges, applyStoredVersion]);
+
+  useEffect(() => {
+    if (!editor || focusTarget?.documentId !== documentId) return;
+    focusNode(editor, focusTarget);
+    onFocusHandled?.();
+  }, [editor, documentId, focusTarget, onFocusHandled]);
+
+  const handleReviewConflict = async () => {
+    const stored = await getDocument(documentId);
+    if (stored) setConflict(stored);
+  };
+
+  const handleKeepMine = async () => {
+    if (!conflict) return;
+    revisionRef.current = conflict.revision ?? 0;
+    setConflict(null);
+    await save();
+  };
+
+  const handleUseTheirs = async () => {
+    if (!conflict) return;
+    // The other tab may have saved again since the conflict was detected
+    applyStoredVersion((await getDocument(documentId)) || conflict);
+    setConflict(null);
+  };
+
+  const handleSaveCopy = async () => {
+    if (!conflict || !editor) return;
+    await createDocument(`${title} (conflicted copy)`, editor.getJSON());
+    onSaved();
+    await handleUseTheirs();
+  };
+
+  // The editor is recreated for the new mode, starting from what's on screen now
+  const handleToggleCollaboration = async (enabled: boolean) => {
+    if (editor) {
+      if (hasPendingChanges()) await save();
+      setContent(editor.getJSON());
+    }
+    setIsShared(enabled);
+    await setCollaborative(documentId, enabled);
+  };
+
+  const handleCollaborationSettingsSaved = (settings: CollaborationSettings) => {
+    if (session && editor) {
+      editor.commands.updateUser({ name: settings.userName, color: settings.userColor });
+    }
+  };
+
+  const handleShowOutline = (open: boolean) => {
+    setShowOutline(open);
+    localStorage.setItem(OUTLINE_OPEN_KEY, String(open));
+  };
+
+  const handleExportMarkdown = async (comments: CommentThread[] = []) => {
+    if (!editor) return;
+    try {
+      const { blob, filename } = await exportMarkdown(editor.getJSON(), title, { comments });
+      downloadBlob(blob, filename);
+    } catch (error) {
+      console.error('Failed to export Markdown:', error);
+      window.alert('Could not export this note as Markdown.');
+    }
+  };
+
+  // Notes with comments ask first whether to include them
+  const handleExportClick = async () => {
+    if (!editor) return;
+    const anchored = new Set(findCommentAnchors(editor.state.doc).map((anchor) => anchor.threadId));
+    const threads = (await listCommentThreads(documentId)).filter((thread) => anchored.has(thread.id));
+    if (threads.length > 0) {
+      setExportComments(threads);
+    } else {
+      await handleExportMarkdown();
+    }
+  };
+
+  // Handle editor updates
+  const handleEditorUpdate = (updatedEditor: TiptapEditor) => {
+    setEditor(updatedEditor);
+    triggerAutosave();
+  };
+
+  if (isLoading || isOpening) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm flex items-center justify-center py-24">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading note...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm">
+      <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900 truncate">{title}</h2>
+        <div className="flex items-center gap-3">
+          <AutosaveIndicator status={status} onSaveNow={save} />
+          <button
+            onClick={() => setShowCollaboration(true)}
+            title={session ? `Collaborating (${collaborators.length} here)` : 'Collaborate'}
+            className={`flex items-center gap-1 p-1.5 rounded hover:bg-gray-100 ${
+              session ? 'text-blue-600' : 'text-gray-700'
+            }`}
+          >
+            <Users size={18} />
+            {session && (
+              <span
+                className={`w-2 h-2 rounded-full ${
+                  connectionStatus === 'connected' ? 'bg-green-500' : 'bg-gray-400'
+                }`}
+              />
+            )}
+          </button>
+          <button
+            onClick={handleExportClick}
+            disabled={!editor}
+            title="Export as Markdown"
+            className="p-1.5 rounded text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+          >
+            <FileDown size={18} />
+          </button>
+          <button
+            onClick={() => handleShowOutline(!showOutline)}
+            disabled={!editor}
+            title={showOutline ? 'Hide outline' : 'Show outline'}
+            className={`p-1.5 rounded hover:bg-gray-100 disabled:opacity-50 ${
+              showOutline ? 'text-blue-600' : 'text-gray-700'
+            }`}
+          >
+            <ListTree size={18} />
+          </button>
+          <button
+            onClick={() => setShowHistory(true)}
+            disabled={!editor}
+            title="Version history"
+            className="p-1.5 rounded text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+          >
+            <History size={18} />
+          </button>
+        </div>
+      </div>
+      {changedElsewhere && !conflict && (
+        <div className="flex items-center justify-between gap-3 px-4 py-2 bg-amber-50 border-b border-amber-200 text-sm text-amber-800">
+          <span>This note was changed in another tab.</span>
+          <button onClick={handleReviewConflict} className="font-medium underline hover:text-amber-900">
+            Resolve now
+          </button>
+        </div>
+      )}
+      {collaborationFailed && (
+        <div className="px-4 py-2 bg-amber-50 border-b border-amber-200 text-sm text-amber-800">
+          Could not open the shared version of this note. You are editing your local copy.
+        </div>
+      )}
+      <div className="flex">
+        <div className="flex-1 min-w-0">
+          <Editor
+            key={session ? 'shared' : 'local'}
+            content={content}
+            collaboration={session}
+            documentId={documentId}
+            onUpdate={handleEditorUpdate}
+            onCreate={setEditor}
+          />
+        </div>
+        {showOutline && editor && (
+          <aside className="hidden lg:block w-64 shrink-0 border-l border-gray-200">
+            <OutlinePanel editor={editor} onClose={() => handleShowOutline(false)} />
+          </aside>
+        )}
+      </div>
+      <BacklinksPanel documentId={documentId} />
+      {conflict && (
+        <ConflictDialog
+          title={title}
+          theirs={conflict}
+          onKeepMine={handleKeepMine}
+          onUseTheirs={handleUseTheirs}
+          onSaveCopy={handleSaveCopy}
+        />
+      )}
+      {exportComments && (
+        <ExportDialog
+          commentCount={exportComments.length}
+          onExport={(includeComments) => handleExportMarkdown(includeComments ? exportComments : [])}
+          onClose={() => setExportComments(null)}
+        />
+      )}
+      {showCollaboration && (
+        <CollaborationDialog
+          enabled={isShared}
+          isAvailable={canCollaborate}
+          status={session ? connectionStatus : null}
+          collaborators={collaborators}
+          onToggle={handleToggleCollaboration}
+          onSettingsSaved={handleCollaborationSettingsSaved}
+          onClose={() => setShowCollaboration(false)}
+        />
+      )}
+      {showHistory && editor && (
+        <HistoryPanel documentId={documentId} editor={editor} onClose={() => setShowHistory(false)} />
+      )}
+    </div>
+  );
+}
@@ -1,86 +1,78 @@
 'use client';
 
 import { useEditor, EditorContent, Editor as TiptapEditor } from '@tiptap/react';
-import StarterKit from '@tiptap/starter-kit';
-import Underline from '@tiptap/extension-underline';
-import TextAlign from '@tiptap/extension-text-align';
-import { TextStyle } from '@tiptap/extension-text-style';
-import { Color } from '@tiptap/extension-color';
-import Highlight from '@tiptap/extension-highlight';
-import { CustomImage, handleImagePaste, handleImageDrop } from '@/lib/custom-image';
-import { useEffect, useCallback, useRef } from 'react';
+import { handleImagePaste, handleImageDrop } from '@/lib/custom-image';
+import { getEditorExtensions } from '@/lib/editor-extensions';
+import { SlashCommands } from '@/lib/slash-commands';
+import { CollapsibleSections } from '@/lib/outline';
+import { SearchAndReplace } from '@/lib/search';
+import { CollaborationSession, seedSession } from '@/lib/collaboration';
+import Collaboration from '@tiptap/extension-collaboration';
+import CollaborationCaret from '@tiptap/extension-collaboration-caret';
+import { useEffect, useCallback, useRef, useState } from 'react';
 import Toolbar from './Toolbar';
+import CommentsPanel from './CommentsPanel';
+import FindReplacePanel from './FindReplacePanel';
 
 interface EditorProps {
   content: any;
   onUpdate: (editor: TiptapEditor) => void;
+  onCreate?: (editor: TiptapEditor) => void;
+  // Edit a shared CRDT document instead of `content`, which only seeds it when it's empty
+  collaboration?: CollaborationSession | null;
+  // Note being edited, for its comment threads
+  documentId?: string;
 }
 
-// Add fontSize support to TextStyle
-const FontSize = TextStyle.extend({
-  addAttributes() {
-    return {
-      ...this.parent?.(),
-      fontSize: {
-        default: null,
-        parseHTML: (element: HTMLElement) => element.style.fontSize || null,
-        renderHTML: (attributes: any) => {
-          if (!attributes.fontSize) {
-            return {};
-          }
-          return {
-            style: `font-size: ${attributes.fontSize}`,
-          };
+// Shown in a brand-new note
+const WELCOME_CONTENT = {
+  type: 'doc',
+  content: [
+    {
+      type: 'heading',
+      attrs: { level: 1 },
+      content: [{ type: 'text', text: 'Welcome to Notes' }],
+    },
+    {
+      type: 'paragraph',
+      content: [
+        {
+          type: 'text',
+          text: 'Start typing to create your document. All changes are automatically saved.',
         },
-      },
-    };
-  },
-});
+      ],
+    },
+  ],
+};
 
-export default function Editor({ content, onUpdate }: EditorProps) {
+export default function Editor({ content, onUpdate, onCreate, collaboration, documentId }: EditorProps) {
   const editorRef = useRef<HTMLDivElement>(null);
+  // Toolbar, find bar and editor; find shortcuts only apply while focus is in here
+  const rootRef = useRef<HTMLDivElement>(null);
+  // Find bar: closed, or open with or without the replace row
+  const [find, setFind] = useState<{ showReplace: boolean; focusRequest: number } | null>(null);
+
+  const openFind = useCallback((showReplace: boolean) => {
+    setFind((open) => ({
+      showReplace: showReplace || (open?.showReplace ?? false),
+      focusRequest: (open?.focusRequest ?? 0) + 1,
+    }));
+  }, []);
 
   const editor = useEditor({
     immediatelyRender: false,
-    extensions: [
-      StarterKit.configure({
-        heading: {
-          levels: [1, 2, 3],
-        },
-      }),
-      Underline,
-      TextAlign.configure({
-        types: ['heading', 'paragraph'],
-      }),
-      FontSize,
-      Color,
-      Highlight.configure({
-        multicolor: true,
-      }),
-      CustomImage.configure({
-        inline: false,
-        allowBase64: true,
-      }),
-    ],
-    content: content || {
-      type: 'doc',
-      content: [
-        {
-          type: 'heading',
-          attrs: { level: 1 },
-          content: [{ type: 'text', text: 'Welcome to Notes' }],
-        },
-        {
-          type: 'paragraph',
-          content: [
-            {
-              type: 'text',
-              text: 'Start typing to create your document. All changes are automatically saved.',
-            },
-          ],
-        },
-      ],
-    },
+    extensions: collaboration
+      ? [
+          ...getEditorExtensions({ undoRedo: false }),
+          SlashCommands,
+          CollapsibleSections,
+          SearchAndReplace,
+          Collaboration.configure({ document: collaboration.doc }),
+          CollaborationCaret.configure({ provider: collaboration.provider, user: collaboration.user }),
+        ]
+      : [...getEditorExtensions(), SlashCommands, CollapsibleSections, SearchAndReplace],
+    // The shared document is the content when collaborating
+    content: collaboration ? undefined : content || WELCOME_CONTENT,
     editorProps: {
       attributes: {
         class:
@@ -91,7 +83,6 @@ export default function Editor({ content, onUpdate }: EditorProps) {
         handleImagePaste(event).then((imageData) => {
           if (imageData && editor) {
             editor.chain().focus().setImage({
-              src: imageData.src,
               imageId: imageData.imageId,
             } as any).run();
           }
@@ -112,13 +103,11 @@ export default function Editor({ content, onUpdate }: EditorProps) {
                 editor.chain().focus().insertContentAt(coordinates.pos, {
                   type: 'image',
                   attrs: {
-                    src: imageData.src,
                     imageId: imageData.imageId,
                   },
                 }).run();
               } else {
                 editor.chain().focus().setImage({
-                  src: imageData.src,
                   imageId: imageData.imageId,
                 } as any).run();
               }
@@ -129,6 +118,12 @@ export default function Editor({ content, onUpdate }: EditorProps) {
         return false;
       },
     },
+    onCreate: ({ editor }) => {
+      if (collaboration) {
+        seedSession(collaboration, editor.schema, content || WELCOME_CONTENT);
+      }
+      onCreate?.(editor);
+    },
     onUpdate: ({ editor }) => {
       onUpdate(editor);
     },
@@ -154,6 +149,13 @@ export default function Editor({ content, onUpdate }: EditorProps) {
             e.preventDefault();
             editor?.chain().focus().toggleUnderline().run();
             break;
+          case 'f':
+          case 'h':
+            // Elsewhere they stay the browser's find and history; Shift+F searches all notes
+            if (e.shiftKey || !rootRef.current?.contains(e.target as Node)) break;
+            e.preventDefault();
+            openFind(e.key.toLowerCase() === 'h');
+            break;
           case 'z':
             if (e.shiftKey) {
               e.preventDefault();
@@ -171,20 +173,34 @@ export default function Editor({ content, onUpdate }: EditorProps) {
     return () => {
       document.removeEventListener('keydown', handleKeyDown);
     };
-  }, [editor]);
+  }, [editor, openFind]);
 
   return (
-    <div className="border border-gray-200 rounded-lg shadow-sm bg-white">
-      <Toolbar editor={editor} />
-      <div
-        ref={editorRef}
-        className="editor-container"
-        onDragOver={(e) => {
-          e.preventDefault();
-          e.stopPropagation();
-        }}
-      >
-        <EditorContent editor={editor} />
+    <div ref={rootRef} className="border border-gray-200 rounded-lg shadow-sm bg-white">
+      <div className="sticky top-0 z-10">
+        <Toolbar editor={editor} onFind={() => openFind(false)} />
+        {editor && find && (
+          <FindReplacePanel
+            editor={editor}
+            showReplace={find.showReplace}
+            onShowReplace={(showReplace) => setFind({ ...find, showReplace })}
+            focusRequest={find.focusRequest}
+            onClose={() => setFind(null)}
+          />
+        )}
+      </div>
+      <div className="flex">
+        <div
+          ref={editorRef}
+          className="editor-container flex-1 min-w-0"
+          onDragOver={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+          }}
+        >
+          <EditorContent editor={editor} />
+        </div>
+        {editor && documentId && <CommentsPanel editor={editor} documentId={documentId} />}
       </div>
     </div>
   );
@@ -0,0 +1,75 @@
+'use client';
+
+import { useState } from 'react';
+import { FileDown, X } from 'lucide-react';
+
+interface ExportDialogProps {
+  // Comment threads on the note's text
+  commentCount: number;
+  onExport: (includeComments: boolean) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * Markdown export options, shown for notes with comments: they are left out unless asked for
+ */
+export default function ExportDialog({ commentCount, onExport, onClose }: ExportDialogProps) {
+  const [includeComments, setIncludeComments] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport(includeComments);
+      onClose();
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/30 p-4" onClick={onClose}>
+      <div className="w-full max-w-md bg-white rounded-lg shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-3 border-b border-gray-200">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <FileDown size={18} />
+            Export as Markdown
+          </h2>
+          <button onClick={onClose} title="Close" className="p-1.5 rounded text-gray-600 hover:bg-gray-100">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-5 py-4 space-y-4 text-sm text-gray-700">
+          <label className="flex items-start gap-2">
+            <input
+              type="checkbox"
+              checked={includeComments}
+              onChange={(e) => setIncludeComments(e.target.checked)}
+              className="mt-0.5"
+            />
+            <span>
+              Include comments ({commentCount})
+              <span className="block text-gray-500">
+                Commented text gets a numbered reference, and the comments are listed at the end of the file.
+              </span>
+            </span>
+          </label>
+
+          <div className="flex justify-end gap-2">
+            <button onClick={onClose} className="px-3 py-1.5 rounded text-gray-700 hover:bg-gray-100">
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={isExporting}
+              className="px-3 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              Export
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
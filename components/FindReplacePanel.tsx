@@ -0,0 +1,210 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import type { Editor } from '@tiptap/react';
+import { CaseSensitive, WholeWord, Regex, ChevronUp, ChevronDown, ChevronRight, X } from 'lucide-react';
+import { setSearchQuery, getSearchState, findNext, replaceCurrent, replaceAll } from '@/lib/search';
+
+interface FindReplacePanelProps {
+  editor: Editor;
+  // Show the replace row as well
+  showReplace: boolean;
+  onShowReplace: (show: boolean) => void;
+  // Changes each time find is asked for again, to bring focus back to the search box
+  focusRequest: number;
+  onClose: () => void;
+}
+
+const OptionToggle = ({
+  active,
+  onClick,
+  title,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  title: string;
+  children: React.ReactNode;
+}) => (
+  <button
+    onClick={onClick}
+    title={title}
+    aria-pressed={active}
+    className={`p-1 rounded ${active ? 'bg-blue-100 text-blue-700' : 'text-gray-500 hover:bg-gray-100'}`}
+  >
+    {children}
+  </button>
+);
+
+// Single-line selection to search for when the panel opens
+function selectedText(editor: Editor): string {
+  const { from, to, empty } = editor.state.selection;
+  const text = empty ? '' : editor.state.doc.textBetween(from, to);
+  return text.includes('\n') ? '' : text;
+}
+
+/**
+ * Find and replace bar under the toolbar. Matches are highlighted in the note while it is open.
+ * Enter goes to the next match, Shift+Enter to the previous one, Escape closes.
+ */
+export default function FindReplacePanel({
+  editor,
+  showReplace,
+  onShowReplace,
+  focusRequest,
+  onClose,
+}: FindReplacePanelProps) {
+  const [text, setText] = useState(() => selectedText(editor));
+  const [replacement, setReplacement] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [regex, setRegex] = useState(false);
+  const [status, setStatus] = useState({ count: 0, current: -1, error: null as string | null });
+  const findInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    findInputRef.current?.select();
+  }, [focusRequest]);
+
+  useEffect(() => {
+    setSearchQuery(editor, { text, caseSensitive, wholeWord, regex });
+  }, [editor, text, caseSensitive, wholeWord, regex]);
+
+  // Highlighting goes away with the panel
+  useEffect(() => {
+    return () => {
+      if (!editor.isDestroyed) setSearchQuery(editor, null);
+    };
+  }, [editor]);
+
+  useEffect(() => {
+    let current = '';
+    const update = () => {
+      const { matches, current: index, error } = getSearchState(editor.state);
+      const next = { count: matches.length, current: index, error };
+      const key = JSON.stringify(next);
+      if (key === current) return;
+      current = key;
+      setStatus(next);
+    };
+
+    queueMicrotask(update);
+    editor.on('transaction', update);
+    return () => {
+      editor.off('transaction', update);
+    };
+  }, [editor]);
+
+  const handleClose = () => {
+    onClose();
+    editor.commands.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, onEnter: () => void) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      onEnter();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      handleClose();
+    }
+  };
+
+  let summary = '';
+  if (status.error) summary = 'Invalid expression';
+  else if (text && status.count === 0) summary = 'No results';
+  else if (status.count > 0) summary = `${status.current + 1} of ${status.count}`;
+
+  const inputClass = 'flex-1 min-w-0 px-2 py-1 text-sm border rounded focus:outline-none focus:border-blue-500';
+  const buttonClass = 'p-1 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-50';
+  const noMatches = status.count === 0;
+
+  return (
+    <div className="flex items-start gap-1 px-2 py-2 border-b border-gray-200 bg-gray-50 text-sm">
+      <button
+        onClick={() => onShowReplace(!showReplace)}
+        title={showReplace ? 'Hide Replace' : 'Show Replace (Ctrl+H)'}
+        className={buttonClass}
+      >
+        <ChevronRight size={16} className={`transition-transform ${showReplace ? 'rotate-90' : ''}`} />
+      </button>
+
+      <div className="flex-1 max-w-xl space-y-1">
+        <div className="flex items-center gap-1">
+          <input
+            ref={findInputRef}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => handleKeyDown(e, () => findNext(editor, e.shiftKey ? -1 : 1))}
+            autoFocus
+            placeholder="Find"
+            title={status.error ?? undefined}
+            className={`${inputClass} ${status.error ? 'border-red-400' : 'border-gray-300'}`}
+          />
+          <OptionToggle active={caseSensitive} onClick={() => setCaseSensitive(!caseSensitive)} title="Match Case">
+            <CaseSensitive size={16} />
+          </OptionToggle>
+          <OptionToggle active={wholeWord} onClick={() => setWholeWord(!wholeWord)} title="Match Whole Word">
+            <WholeWord size={16} />
+          </OptionToggle>
+          <OptionToggle active={regex} onClick={() => setRegex(!regex)} title="Use Regular Expression">
+            <Regex size={16} />
+          </OptionToggle>
+          <span
+            className={`w-24 shrink-0 text-center text-xs ${status.error ? 'text-red-600' : 'text-gray-500'}`}
+          >
+            {summary}
+          </span>
+          <button
+            onClick={() => findNext(editor, -1)}
+            disabled={noMatches}
+            title="Previous Match (Shift+Enter)"
+            className={buttonClass}
+          >
+            <ChevronUp size={16} />
+          </button>
+          <button
+            onClick={() => findNext(editor, 1)}
+            disabled={noMatches}
+            title="Next Match (Enter)"
+            className={buttonClass}
+          >
+            <ChevronDown size={16} />
+          </button>
+        </div>
+
+        {showReplace && (
+          <div className="flex items-center gap-1">
+            <input
+              value={replacement}
+              onChange={(e) => setReplacement(e.target.value)}
+              onKeyDown={(e) => handleKeyDown(e, () => replaceCurrent(editor, replacement))}
+              placeholder={regex ? 'Replace ($1, $<name> for groups)' : 'Replace'}
+              className={`${inputClass} border-gray-300`}
+            />
+            <button
+              onClick={() => replaceCurrent(editor, replacement)}
+              disabled={noMatches}
+              title="Replace (Enter)"
+              className="px-2 py-1 rounded text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+            >
+              Replace
+            </button>
+            <button
+              onClick={() => replaceAll(editor, replacement)}
+              disabled={noMatches}
+              title="Replace All"
+              className="px-2 py-1 rounded text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+            >
+              Replace all
+            </button>
+          </div>
+        )}
+      </div>
+
+      <button onClick={handleClose} title="Close (Escape)" className={buttonClass}>
+        <X size={16} />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Editor as TiptapEditor, JSONContent } from '@tiptap/react';
+import { X, Save, RotateCcw, CornerDownLeft, Trash2 } from 'lucide-react';
+import type { DocumentSnapshot } from '@/lib/storage';
+import { listSnapshots, createSnapshot, deleteSnapshot } from '@/lib/history';
+import { diffDocuments, getBlockText, BlockChange } from '@/lib/diff';
+
+interface HistoryPanelProps {
+  documentId: string;
+  editor: TiptapEditor;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<DocumentSnapshot['kind'], string> = {
+  auto: 'Auto',
+  manual: 'Saved version',
+  restore: 'Before restore',
+  deleted: 'As deleted',
+};
+
+const formatSnapshotTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+
+export default function HistoryPanel({ documentId, editor, onClose }: HistoryPanelProps) {
+  const [snapshots, setSnapshots] = useState<DocumentSnapshot[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [current, setCurrent] = useState<JSONContent>(() => editor.getJSON());
+
+  const refreshSnapshots = useCallback(async () => {
+    setSnapshots(await listSnapshots(documentId));
+  }, [documentId]);
+
+  useEffect(() => {
+    listSnapshots(documentId).then(setSnapshots);
+  }, [documentId]);
+
+  // Keep the diff live while the document is edited
+  useEffect(() => {
+    const handleUpdate = () => setCurrent(editor.getJSON());
+    editor.on('update', handleUpdate);
+    return () => {
+      editor.off('update', handleUpdate);
+    };
+  }, [editor]);
+
+  const selected = snapshots.find((snapshot) => snapshot.id === selectedId) || null;
+  const changes = useMemo(
+    () => (selected ? diffDocuments(selected.content, current) : []),
+    [selected, current]
+  );
+
+  const handleSaveVersion = async () => {
+    await createSnapshot(documentId, editor.getJSON(), 'manual');
+    await refreshSnapshots();
+  };
+
+  const handleRestore = async (snapshot: DocumentSnapshot) => {
+    if (!window.confirm(`Restore the version from ${formatSnapshotTime(snapshot.createdAt)}?`)) {
+      return;
+    }
+    // Keep the current state so the restore itself can be undone later
+    await createSnapshot(documentId, editor.getJSON(), 'restore');
+    editor.commands.setContent(snapshot.content);
+    await refreshSnapshots();
+  };
+
+  const handleCopyBlock = (block: JSONContent) => {
+    editor.chain().focus().insertContent(block).run();
+  };
+
+  const handleDelete = async (snapshot: DocumentSnapshot) => {
+    await deleteSnapshot(snapshot.id);
+    if (snapshot.id === selectedId) setSelectedId(null);
+    await refreshSnapshots();
+  };
+
+  const renderChange = (change: BlockChange, index: number) => {
+    const styles = {
+      equal: 'text-gray-500',
+      added: 'bg-green-50 border-l-4 border-green-400 text-green-900',
+      removed: 'bg-red-50 border-l-4 border-red-400 text-red-900 line-through',
+      changed: 'bg-yellow-50 border-l-4 border-yellow-400 text-gray-900',
+    };
+    const snapshotBlock = change.before;
+
+    return (
+      <div key={index} className={`group flex items-start gap-2 px-3 py-2 rounded ${styles[change.type]}`}>
+        <div className="flex-1 min-w-0 whitespace-pre-wrap break-words text-sm">
+          {change.type === 'changed'
+            ? change.words?.map((word, wordIndex) => (
+                <span
+                  key={wordIndex}
+                  className={
+                    word.type === 'added'
+                      ? 'bg-green-200'
+                      : word.type === 'removed'
+                        ? 'bg-red-200 line-through'
+                        : ''
+                  }
+                >
+                  {word.text}
+                </span>
+              ))
+            : getBlockText((change.after || change.before) as JSONContent) || ' '}
+        </div>
+        {snapshotBlock && change.type !== 'equal' && (
+          <button
+            onClick={() => handleCopyBlock(snapshotBlock)}
+            title="Copy this block from the snapshot into the note"
+            className="hidden group-hover:block p-1 rounded text-gray-600 hover:bg-white"
+          >
+            <CornerDownLeft size={14} />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex justify-end bg-black/20" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl h-full bg-white shadow-xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Version history</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleSaveVersion}
+              className="flex items-center gap-1 px-3 py-1.5 rounded bg-blue-600 text-white text-sm hover:bg-blue-700"
+            >
+              <Save size={14} /> Save version
+            </button>
+            <button onClick={onClose} title="Close" className="p-1.5 rounded text-gray-600 hover:bg-gray-100">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <ul className="w-56 shrink-0 border-r border-gray-200 overflow-y-auto">
+            {snapshots.length === 0 && (
+              <li className="px-4 py-3 text-sm text-gray-500">No versions yet</li>
+            )}
+            {snapshots.map((snapshot) => (
+              <li
+                key={snapshot.id}
+                onClick={() => setSelectedId(snapshot.id)}
+                className={`group flex items-center justify-between px-4 py-2 cursor-pointer ${
+                  snapshot.id === selectedId ? 'bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <div>
+                  <p className="text-sm text-gray-900">{formatSnapshotTime(snapshot.createdAt)}</p>
+                  <p className="text-xs text-gray-500">{KIND_LABELS[snapshot.kind]}</p>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(snapshot);
+                  }}
+                  title="Delete version"
+                  className="hidden group-hover:block p-1 rounded text-gray-500 hover:bg-red-100 hover:text-red-600"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex-1 min-w-0 flex flex-col">
+            {selected ? (
+              <>
+                <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 text-sm">
+                  <span className="text-gray-600">
+                    Changes from {formatSnapshotTime(selected.createdAt)} to the current note
+                  </span>
+                  <button
+                    onClick={() => handleRestore(selected)}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+                  >
+                    <RotateCcw size={14} /> Restore this version
+                  </button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4 space-y-1">
+                  {changes.every((change) => change.type === 'equal') && (
+                    <p className="text-sm text-gray-500 pb-2">No differences from the current note.</p>
+                  )}
+                  {changes.map(renderChange)}
+                </div>
+              </>
+            ) : (
+              <p className="p-4 text-sm text-gray-500">Select a version to compare it with the current note.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { NodeViewWrapper, NodeViewProps } from '@tiptap/react';
+import { AlignLeft, AlignCenter, AlignRight, PanelLeft, PanelRight } from 'lucide-react';
+import type { ImageAlign } from '@/lib/custom-image';
+import { useImageUrl } from '@/hooks/useImageUrl';
+
+const MIN_WIDTH = 50;
+
+const ALIGN_OPTIONS: { value: ImageAlign; title: string; icon: React.ReactNode }[] = [
+  { value: 'left', title: 'Align left', icon: <AlignLeft size={16} /> },
+  { value: 'center', title: 'Align center', icon: <AlignCenter size={16} /> },
+  { value: 'right', title: 'Align right', icon: <AlignRight size={16} /> },
+  { value: 'wrap-left', title: 'Float left, wrap text', icon: <PanelLeft size={16} /> },
+  { value: 'wrap-right', title: 'Float right, wrap text', icon: <PanelRight size={16} /> },
+];
+
+/**
+ * Image node view with resize handles, alignment, caption and alt text editing
+ */
+export default function ImageNodeView({ node, updateAttributes, selected, editor }: NodeViewProps) {
+  const { src, imageId, alt, title, width, height, align, caption } = node.attrs;
+  const [dragWidth, setDragWidth] = useState<number | null>(null);
+  const [isEditingAlt, setIsEditingAlt] = useState(false);
+  const [isNearViewport, setIsNearViewport] = useState(false);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const figureRef = useRef<HTMLElement>(null);
+  const isEditable = editor.isEditable;
+  // Stored images start out as thumbnails; the full image is acquired once it is near the viewport
+  const storedSrc = useImageUrl(imageId, isNearViewport ? 'full' : 'thumbnail');
+
+  useEffect(() => {
+    const figure = figureRef.current;
+    if (!imageId || isNearViewport || !figure) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (!entries.some((entry) => entry.isIntersecting)) return;
+        observer.disconnect();
+        setIsNearViewport(true);
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(figure);
+
+    return () => observer.disconnect();
+  }, [imageId, isNearViewport]);
+
+  const startResize = (event: React.PointerEvent, direction: 1 | -1) => {
+    const image = imageRef.current;
+    if (!image) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    const startX = event.clientX;
+    const startWidth = image.getBoundingClientRect().width;
+    const ratio = image.naturalWidth ? image.naturalHeight / image.naturalWidth : image.height / startWidth || 1;
+    const maxWidth = image.closest('.ProseMirror')?.clientWidth || Infinity;
+    let nextWidth = startWidth;
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      nextWidth = Math.round(
+        Math.min(maxWidth, Math.max(MIN_WIDTH, startWidth + (moveEvent.clientX - startX) * direction))
+      );
+      setDragWidth(nextWidth);
+    };
+
+    const handleUp = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      setDragWidth(null);
+      updateAttributes({ width: nextWidth, height: Math.round(nextWidth * ratio) });
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  };
+
+  const displayWidth = dragWidth ?? width;
+  const showCaption = caption || (selected && isEditable);
+
+  return (
+    <NodeViewWrapper className={`image-node image-align-${align || 'left'}`} data-align={align}>
+      <figure ref={figureRef} className="relative inline-block max-w-full" style={{ width: displayWidth ? `${displayWidth}px` : undefined }}>
+        {selected && isEditable && (
+          <div
+            className="absolute -top-10 left-0 z-10 flex items-center gap-0.5 rounded border border-gray-200 bg-white p-0.5 shadow-sm"
+            contentEditable={false}
+          >
+            {ALIGN_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                title={option.title}
+                onClick={() => updateAttributes({ align: option.value })}
+                className={`p-1 rounded hover:bg-gray-100 ${
+                  (align || 'left') === option.value ? 'bg-gray-200 text-blue-600' : 'text-gray-700'
+                }`}
+              >
+                {option.icon}
+              </button>
+            ))}
+            <button
+              type="button"
+              title="Edit alt text"
+              onClick={() => setIsEditingAlt((editing) => !editing)}
+              className={`px-1.5 py-0.5 rounded text-xs font-semibold hover:bg-gray-100 ${
+                alt ? 'text-blue-600' : 'text-gray-700'
+              }`}
+            >
+              ALT
+            </button>
+          </div>
+        )}
+
+        <img
+          ref={imageRef}
+          src={(imageId ? storedSrc : src) || undefined}
+          alt={alt || ''}
+          title={title || undefined}
+          width={width || undefined}
+          height={height || undefined}
+          draggable={false}
+          data-drag-handle
+          className={selected ? 'ProseMirror-selectednode' : ''}
+        />
+
+        {selected && isEditable && (
+          <>
+            <span
+              className="image-resize-handle image-resize-handle-left"
+              onPointerDown={(event) => startResize(event, -1)}
+            />
+            <span
+              className="image-resize-handle image-resize-handle-right"
+              onPointerDown={(event) => startResize(event, 1)}
+            />
+          </>
+        )}
+
+        {isEditingAlt && selected && isEditable && (
+          <input
+            autoFocus
+            value={alt || ''}
+            placeholder="Describe the image for screen readers"
+            onChange={(e) => updateAttributes({ alt: e.target.value || null })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === 'Escape') setIsEditingAlt(false);
+            }}
+            className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+        )}
+
+        {showCaption && (
+          <figcaption className="mt-1 text-center text-sm text-gray-500">
+            {isEditable ? (
+              <input
+                value={caption || ''}
+                placeholder="Add a caption"
+                onChange={(e) => updateAttributes({ caption: e.target.value || null })}
+                className="w-full bg-transparent text-center focus:outline-none"
+              />
+            ) : (
+              caption
+            )}
+          </figcaption>
+        )}
+      </figure>
+    </NodeViewWrapper>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useMemo } from 'react';
+import { NodeViewWrapper, NodeViewProps } from '@tiptap/react';
+import { AlertTriangle } from 'lucide-react';
+import { renderMath } from '@/lib/math';
+
+/**
+ * Equation node view: the typeset formula, or the source and KaTeX's error when it isn't valid LaTeX.
+ * While selected, the source is edited in a box under the formula, which updates as you type.
+ * Escape (or Enter, for inline equations) goes back to the text after it.
+ */
+export default function MathView({ node, updateAttributes, selected, editor, getPos }: NodeViewProps) {
+  const latex: string = node.attrs.latex;
+  const isBlock = node.type.name === 'blockMath';
+  const isEditing = selected && editor.isEditable;
+  const { html, error } = useMemo(() => renderMath(latex, isBlock), [latex, isBlock]);
+
+  // Put the cursor back in the text, before or after the equation
+  const leave = (after: boolean) => {
+    const position = getPos();
+    if (position === undefined) return;
+    editor
+      .chain()
+      .focus()
+      .setTextSelection(after ? position + node.nodeSize : position)
+      .run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd, value } = e.currentTarget;
+    const isCollapsed = selectionStart === selectionEnd;
+    if (e.key === 'Escape' || (e.key === 'Enter' && (!isBlock || e.metaKey || e.ctrlKey))) {
+      e.preventDefault();
+      leave(true);
+    } else if (e.key === 'ArrowLeft' && isCollapsed && selectionStart === 0) {
+      e.preventDefault();
+      leave(false);
+    } else if (e.key === 'ArrowRight' && isCollapsed && selectionEnd === value.length) {
+      e.preventDefault();
+      leave(true);
+    }
+  };
+
+  const Tag = isBlock ? 'div' : 'span';
+
+  return (
+    <NodeViewWrapper
+      as={Tag}
+      className={`math-node ${isBlock ? 'math-block' : 'math-inline'} ${selected ? 'math-selected' : ''}`}
+    >
+      {error ? (
+        <Tag className="math-error" title={error}>
+          <AlertTriangle size={14} className="inline -mt-0.5 mr-1" />
+          <code>{latex}</code>
+          {isBlock && <span className="block mt-1 text-xs">{error}</span>}
+        </Tag>
+      ) : latex.trim() ? (
+        <Tag className="math-render" dangerouslySetInnerHTML={{ __html: html }} />
+      ) : (
+        <Tag className="math-placeholder">{isBlock ? 'Empty equation' : 'Equation'}</Tag>
+      )}
+
+      {isEditing && (
+        <Tag contentEditable={false} className="math-editor">
+          <textarea
+            autoFocus
+            value={latex}
+            rows={isBlock ? Math.max(2, latex.split('\n').length) : 1}
+            spellCheck={false}
+            placeholder={isBlock ? 'LaTeX, e.g. E = mc^2' : 'LaTeX, e.g. x^2'}
+            onChange={(e) => updateAttributes({ latex: e.target.value })}
+            onKeyDown={handleKeyDown}
+            className={
+              'w-full px-2 py-1 font-mono text-sm text-gray-900 bg-white border border-gray-300 rounded resize-none ' +
+              'focus:outline-none focus:border-blue-500'
+            }
+          />
+          {error && !isBlock && <span className="block mt-1 text-xs text-red-600">{error}</span>}
+        </Tag>
+      )}
+    </NodeViewWrapper>
+  );
+}
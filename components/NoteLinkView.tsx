@@ -0,0 +1,33 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { NodeViewWrapper, NodeViewProps } from '@tiptap/react';
+import { FileText } from 'lucide-react';
+import { getNoteTitle, subscribeToNoteTitles, openNote } from '@/lib/note-links';
+
+/**
+ * Link to another note, showing its current title; click to open it
+ */
+export default function NoteLinkView({ node, selected }: NodeViewProps) {
+  const { documentId, title } = node.attrs;
+  const [liveTitle, setLiveTitle] = useState(() => getNoteTitle(documentId));
+
+  useEffect(() => subscribeToNoteTitles(() => setLiveTitle(getNoteTitle(documentId))), [documentId]);
+
+  const isMissing = liveTitle === null;
+
+  return (
+    <NodeViewWrapper
+      as="span"
+      data-note-link={documentId}
+      title={isMissing ? 'This note no longer exists' : `Open "${liveTitle}"`}
+      onClick={() => {
+        if (!isMissing) openNote(documentId);
+      }}
+      className={`note-link ${isMissing ? 'note-link-missing' : ''} ${selected ? 'note-link-selected' : ''}`}
+    >
+      <FileText size={14} className="inline -mt-0.5 mr-0.5" />
+      {liveTitle ?? title}
+    </NodeViewWrapper>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Search, X } from 'lucide-react';
+import { searchNotes, SearchResult } from '@/lib/search-index';
+
+interface NoteSearchProps {
+  onOpenResult: (result: SearchResult) => void;
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY = 150;
+
+/**
+ * Search box for the header: finds notes by their title and text as you type.
+ * ↑/↓ choose a result, Enter opens it, Escape clears the search. Ctrl/Cmd+Shift+F focuses the box.
+ */
+export default function NoteSearch({ onOpenResult }: NoteSearchProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [selected, setSelected] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!query.trim()) return;
+    // Results of an older query that finish late are dropped
+    let isCurrent = true;
+    const timeout = setTimeout(() => {
+      searchNotes(query).then((found) => {
+        if (!isCurrent) return;
+        setResults(found);
+        setSelected(0);
+      });
+    }, SEARCH_DELAY);
+    return () => {
+      isCurrent = false;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const isMac = navigator.platform.toUpperCase().indexOf('MAC') >= 0;
+      if ((isMac ? e.metaKey : e.ctrlKey) && e.shiftKey && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        inputRef.current?.focus();
+        inputRef.current?.select();
+      }
+    };
+    // Close the results when clicking elsewhere
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('pointerdown', handlePointerDown);
+    };
+  }, []);
+
+  const handleChange = (value: string) => {
+    setQuery(value);
+    setIsOpen(true);
+    if (!value.trim()) setResults(null);
+  };
+
+  const openResult = (result: SearchResult) => {
+    setIsOpen(false);
+    inputRef.current?.blur();
+    onOpenResult(result);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const count = results?.length ?? 0;
+    if (e.key === 'ArrowDown' && count > 0) {
+      e.preventDefault();
+      setIsOpen(true);
+      setSelected((selected + 1) % count);
+    } else if (e.key === 'ArrowUp' && count > 0) {
+      e.preventDefault();
+      setSelected((selected - 1 + count) % count);
+    } else if (e.key === 'Enter' && isOpen && results?.[selected]) {
+      e.preventDefault();
+      openResult(results[selected]);
+    } else if (e.key === 'Escape') {
+      handleChange('');
+      inputRef.current?.blur();
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative flex-1 max-w-sm">
+      <Search size={16} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" />
+      <input
+        ref={inputRef}
+        type="search"
+        value={query}
+        onChange={(e) => handleChange(e.target.value)}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search notes"
+        title='Search all notes (Ctrl+Shift+F). Use "quotes" for a phrase'
+        className={
+          'w-full pl-8 pr-8 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:border-blue-500 ' +
+          '[&::-webkit-search-cancel-button]:hidden'
+        }
+      />
+      {query && (
+        <button
+          onClick={() => handleChange('')}
+          title="Clear"
+          className="absolute right-1.5 top-1/2 -translate-y-1/2 p-0.5 rounded text-gray-400 hover:text-gray-600"
+        >
+          <X size={14} />
+        </button>
+      )}
+
+      {isOpen && results && (
+        <div
+          className={
+            'absolute left-0 right-0 sm:right-auto sm:w-[28rem] mt-1 max-h-[70vh] overflow-y-auto ' +
+            'bg-white border border-gray-200 rounded-lg shadow-lg'
+          }
+        >
+          {results.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500">No notes match.</p>
+          ) : (
+            <ul className="py-1">
+              {results.map((result, index) => (
+                <li key={result.documentId}>
+                  <button
+                    onClick={() => openResult(result)}
+                    onMouseEnter={() => setSelected(index)}
+                    className={`w-full px-4 py-2 text-left ${index === selected ? 'bg-blue-50' : ''}`}
+                  >
+                    <span className="block text-sm font-medium text-gray-900 truncate">{result.title}</span>
+                    {result.snippet.length > 0 && (
+                      <span className="block mt-0.5 text-xs text-gray-600 line-clamp-2">
+                        {result.snippet.map((part, partIndex) =>
+                          part.highlighted ? (
+                            <mark key={partIndex} className="bg-yellow-200 text-gray-900 rounded-sm">
+                              {part.text}
+                            </mark>
+                          ) : (
+                            <span key={partIndex}>{part.text}</span>
+                          )
+                        )}
+                      </span>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Editor } from '@tiptap/react';
+import { ChevronDown, ChevronRight, ListTree, X } from 'lucide-react';
+import { scrollToHeading, toggleSection, moveSection, OutlineEntry } from '@/lib/outline';
+import { useOutline } from '@/hooks/useOutline';
+
+interface OutlinePanelProps {
+  editor: Editor;
+  onClose: () => void;
+}
+
+// A heading counts as the current section once it scrolls above this point (below the sticky header and toolbar)
+const ACTIVE_OFFSET = 140;
+const INDENT_REM = 0.75;
+
+// Last heading that has scrolled past the top of the window
+function findActiveIndex(editor: Editor, entries: OutlineEntry[]): number {
+  let active = -1;
+  for (const entry of entries) {
+    const element = editor.view.nodeDOM(entry.pos) as HTMLElement | null;
+    // Headings in collapsed sections have no box
+    if (!element?.offsetParent) continue;
+    if (element.getBoundingClientRect().top > ACTIVE_OFFSET) break;
+    active = entry.index;
+  }
+  return active;
+}
+
+/**
+ * Sidebar outline of the note's headings: jump to a section, collapse it, or drag it somewhere else
+ */
+export default function OutlinePanel({ editor, onClose }: OutlinePanelProps) {
+  const entries = useOutline(editor);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  // Entry the dragged section would be dropped in front of; entries.length for the end
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const topLevel = Math.min(...entries.map((entry) => entry.level));
+
+  // Follow scrolling (of the window or anything inside it) and edits
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => setActiveIndex(findActiveIndex(editor, entries)));
+    };
+    update();
+    window.addEventListener('scroll', update, { capture: true, passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', update, { capture: true });
+      window.removeEventListener('resize', update);
+    };
+  }, [editor, entries]);
+
+  const handleDrop = () => {
+    if (dragIndex !== null && dropIndex !== null) moveSection(editor, dragIndex, dropIndex);
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="sticky top-20 max-h-[calc(100vh-6rem)] overflow-y-auto px-3 py-3">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+          <ListTree size={16} />
+          Outline
+        </h3>
+        <button onClick={onClose} title="Hide outline" className="p-1 rounded text-gray-500 hover:bg-gray-100">
+          <X size={14} />
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">Headings in this note will appear here.</p>
+      ) : (
+        <ul
+          className="text-sm"
+          onDragOver={(e) => {
+            if (dragIndex === null) return;
+            e.preventDefault();
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleDrop();
+          }}
+        >
+          {entries.map((entry) => (
+            <li
+              key={entry.index}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDragIndex(entry.index);
+              }}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
+              onDragOver={(e) => {
+                if (dragIndex === null) return;
+                // Drop above this entry, or below it when over its lower half and it's the last one
+                const rect = e.currentTarget.getBoundingClientRect();
+                const isLast = entry.index === entries.length - 1;
+                setDropIndex(isLast && e.clientY > rect.top + rect.height / 2 ? entries.length : entry.index);
+              }}
+              style={{ paddingLeft: `${(entry.level - topLevel) * INDENT_REM}rem` }}
+              className={`flex items-center gap-0.5 border-t-2 ${
+                dropIndex === entry.index ? 'border-blue-500' : 'border-transparent'
+              } ${dropIndex === entries.length && entry.index === entries.length - 1 ? 'border-b-2 border-b-blue-500' : ''} ${
+                dragIndex === entry.index ? 'opacity-50' : ''
+              }`}
+            >
+              {entry.hasContent ? (
+                <button
+                  onClick={() => toggleSection(editor, entry.pos)}
+                  title={entry.collapsed ? 'Expand section' : 'Collapse section'}
+                  className="p-0.5 rounded text-gray-400 hover:bg-gray-100 hover:text-gray-700"
+                >
+                  {entry.collapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                </button>
+              ) : (
+                <span className="w-[18px] shrink-0" />
+              )}
+              <button
+                onClick={() => scrollToHeading(editor, entry)}
+                title="Drag to move this section"
+                className={`flex-1 min-w-0 px-1.5 py-1 rounded text-left truncate hover:bg-gray-100 ${
+                  entry.index === activeIndex ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-700'
+                }`}
+              >
+                {entry.text || <span className="text-gray-400">Untitled heading</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import type { SuggestionProps } from '@tiptap/suggestion';
+import type { LucideIcon } from 'lucide-react';
+
+/**
+ * An entry in the menu, e.g. a block from the "/" menu or a note from the "[[" menu
+ */
+export interface MenuItem {
+  id: string;
+  title: string;
+  description?: string;
+  icon: LucideIcon;
+}
+
+export interface SlashCommandMenuHandle {
+  onKeyDown: (event: KeyboardEvent) => boolean;
+}
+
+type SlashCommandMenuProps = SuggestionProps<MenuItem, MenuItem> & { emptyMessage: string };
+
+/**
+ * List of matching items under the cursor while typing "/…" or "[[…"; arrow keys move, Enter or Tab picks
+ */
+const SlashCommandMenu = forwardRef<SlashCommandMenuHandle, SlashCommandMenuProps>(
+  function SlashCommandMenu({ items, command, query, emptyMessage }, ref) {
+    const [selection, setSelection] = useState({ query, index: 0 });
+    const listRef = useRef<HTMLDivElement>(null);
+    // Back to the first item whenever the query changes
+    const selectedIndex = selection.query === query ? Math.min(selection.index, items.length - 1) : 0;
+
+    useEffect(() => {
+      listRef.current?.querySelector('[aria-selected="true"]')?.scrollIntoView({ block: 'nearest' });
+    }, [selectedIndex]);
+
+    useImperativeHandle(ref, () => ({
+      onKeyDown: (event) => {
+        if (items.length === 0) return false;
+
+        if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+          const step = event.key === 'ArrowDown' ? 1 : -1;
+          setSelection({ query, index: (selectedIndex + step + items.length) % items.length });
+          return true;
+        }
+        if (event.key === 'Enter' || event.key === 'Tab') {
+          command(items[selectedIndex]);
+          return true;
+        }
+        return false;
+      },
+    }));
+
+    return (
+      <div
+        ref={listRef}
+        role="listbox"
+        className="w-64 max-h-72 overflow-y-auto p-1 bg-white border border-gray-200 rounded-lg shadow-lg text-sm"
+      >
+        {items.length === 0 ? (
+          <p className="px-3 py-2 text-gray-500">{emptyMessage}</p>
+        ) : (
+          items.map((item, index) => {
+            const Icon = item.icon;
+            return (
+              <button
+                key={item.id}
+                type="button"
+                role="option"
+                aria-selected={index === selectedIndex}
+                onMouseEnter={() => setSelection({ query, index })}
+                // Keep focus in the editor
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => command(item)}
+                className={`w-full flex items-center gap-3 px-2 py-1.5 rounded text-left ${
+                  index === selectedIndex ? 'bg-blue-50 text-blue-700' : 'text-gray-700'
+                }`}
+              >
+                <span className="flex items-center justify-center w-8 h-8 rounded border border-gray-200 bg-white">
+                  <Icon size={16} />
+                </span>
+                <span className="min-w-0">
+                  <span className="block font-medium">{item.title}</span>
+                  {item.description && <span className="block text-xs text-gray-500 truncate">{item.description}</span>}
+                </span>
+              </button>
+            );
+          })
+        )}
+      </div>
+    );
+  }
+);
+
+export default SlashCommandMenu;
@@ -0,0 +1,111 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, HardDrive, Download, Trash2, AlertTriangle } from 'lucide-react';
+import { collectGarbage } from '@/lib/image-gc';
+import { exportBackup } from '@/lib/backup';
+import { downloadBlob } from '@/lib/download';
+import { formatBytes } from '@/lib/format';
+import { getQuotaStatus, QuotaStatus } from '@/lib/quota';
+
+interface StorageFullDialogProps {
+  onOpenStorage: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Shown when a save or image paste fails because the storage quota is used up
+ */
+export default function StorageFullDialog({ onOpenStorage, onClose }: StorageFullDialogProps) {
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    getQuotaStatus().then(setQuota);
+  }, []);
+
+  const handleCleanUp = async () => {
+    setIsWorking(true);
+    try {
+      const { deleted, bytesFreed } = await collectGarbage();
+      setMessage(
+        deleted > 0
+          ? `Removed ${deleted} unused images and freed ${formatBytes(bytesFreed)}.`
+          : 'There were no unused images to remove.'
+      );
+      setQuota(await getQuotaStatus());
+    } catch (error) {
+      console.error('Image cleanup failed:', error);
+      setMessage('Cleanup failed.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setIsWorking(true);
+    try {
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(await exportBackup(), `notes-backup-${date}.zip`);
+    } catch (error) {
+      console.error('Failed to export backup:', error);
+      setMessage('Could not create a backup.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/30 p-4" onClick={onClose}>
+      <div className="w-full max-w-md bg-white rounded-lg shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-3 border-b border-gray-200">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <AlertTriangle size={18} className="text-red-600" />
+            Storage is full
+          </h2>
+          <button onClick={onClose} title="Close" className="p-1.5 rounded text-gray-600 hover:bg-gray-100">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-5 py-4 space-y-3 text-sm text-gray-700">
+          <p>
+            The browser has no space left for this app{quota ? ` (${formatBytes(quota.usage)} of ${formatBytes(quota.quota)} used)` : ''},
+            so your latest changes could not be saved.
+          </p>
+          <p className="text-gray-500">
+            Nothing is lost yet: unsaved edits stay in this tab and in the recovery journal, and saving resumes
+            automatically once there is room.
+          </p>
+
+          <div className="flex flex-col gap-2 pt-1">
+            <button
+              onClick={handleCleanUp}
+              disabled={isWorking}
+              className="flex items-center gap-2 px-3 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Trash2 size={14} /> Remove unused images
+            </button>
+            <button
+              onClick={onOpenStorage}
+              disabled={isWorking}
+              className="flex items-center gap-2 px-3 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+            >
+              <HardDrive size={14} /> See what uses space
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={isWorking}
+              className="flex items-center gap-2 px-3 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+            >
+              <Download size={14} /> Download a backup before deleting notes
+            </button>
+          </div>
+
+          {message && <p className="text-green-700">{message}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { X, Trash2, RefreshCw, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { analyzeImageUsage, collectGarbage, ImageUsageReport, IMAGE_GRACE_PERIOD } from '@/lib/image-gc';
+import { formatBytes } from '@/lib/format';
+import {
+  getQuotaStatus,
+  getUsageBreakdown,
+  getPersistenceState,
+  requestPersistentStorage,
+  QuotaStatus,
+  UsageBreakdown,
+  PersistenceState,
+} from '@/lib/quota';
+import {
+  getImagePipelineSettings,
+  saveImagePipelineSettings,
+  ImagePipelineSettings,
+} from '@/lib/image-pipeline';
+
+const MAX_DIMENSION_OPTIONS = [1024, 1600, 2048, 3072, 4096];
+
+const LEVEL_COLORS: Record<QuotaStatus['level'], string> = {
+  ok: 'bg-blue-600',
+  warning: 'bg-amber-500',
+  critical: 'bg-red-600',
+};
+
+interface StorageScreenProps {
+  onClose: () => void;
+}
+
+export default function StorageScreen({ onClose }: StorageScreenProps) {
+  const [report, setReport] = useState<ImageUsageReport | null>(null);
+  const [isCleaning, setIsCleaning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [pipeline, setPipeline] = useState<ImagePipelineSettings>(getImagePipelineSettings);
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  const [breakdown, setBreakdown] = useState<UsageBreakdown | null>(null);
+  const [persistence, setPersistence] = useState<PersistenceState | null>(null);
+
+  const updatePipeline = (changes: Partial<ImagePipelineSettings>) => {
+    const next = { ...pipeline, ...changes };
+    setPipeline(next);
+    saveImagePipelineSettings(next);
+  };
+
+  const refreshReport = useCallback(async () => {
+    const [nextReport, nextQuota, nextBreakdown] = await Promise.all([
+      analyzeImageUsage(),
+      getQuotaStatus(),
+      getUsageBreakdown(),
+    ]);
+    setReport(nextReport);
+    setQuota(nextQuota);
+    setBreakdown(nextBreakdown);
+  }, []);
+
+  useEffect(() => {
+    analyzeImageUsage().then(setReport);
+    getQuotaStatus().then(setQuota);
+    getUsageBreakdown().then(setBreakdown);
+    getPersistenceState().then(setPersistence);
+  }, []);
+
+  const handleRequestPersistence = async () => {
+    setPersistence(await requestPersistentStorage());
+  };
+
+  const handleCleanUp = async () => {
+    setIsCleaning(true);
+    try {
+      const { deleted, bytesFreed } = await collectGarbage();
+      setMessage(
+        deleted > 0 ? `Removed ${deleted} unused images and freed ${formatBytes(bytesFreed)}.` : 'Nothing to clean up.'
+      );
+      await refreshReport();
+    } catch (error) {
+      console.error('Image cleanup failed:', error);
+      setMessage('Cleanup failed. Please try again.');
+    } finally {
+      setIsCleaning(false);
+    }
+  };
+
+  const pendingOrphans = report?.orphans.filter((orphan) => !orphan.reclaimable) || [];
+  const reclaimableCount = (report?.orphans.length || 0) - pendingOrphans.length;
+  const graceHours = IMAGE_GRACE_PERIOD / (60 * 60 * 1000);
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/30 p-4" onClick={onClose}>
+      <div className="w-full max-w-lg bg-white rounded-lg shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-3 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Storage</h2>
+          <div className="flex items-center gap-1">
+            <button onClick={refreshReport} title="Refresh" className="p-1.5 rounded text-gray-600 hover:bg-gray-100">
+              <RefreshCw size={16} />
+            </button>
+            <button onClick={onClose} title="Close" className="p-1.5 rounded text-gray-600 hover:bg-gray-100">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="px-5 py-4 space-y-4 text-sm">
+          <section className="space-y-3">
+            <h3 className="font-medium text-gray-900">Usage</h3>
+            {quota && (
+              <div>
+                <div className="flex justify-between text-gray-600">
+                  <span>
+                    {formatBytes(quota.usage)} of {formatBytes(quota.quota)} used
+                  </span>
+                  <span>{Math.round((quota.usage / quota.quota) * 100)}%</span>
+                </div>
+                <div className="mt-1 h-2 rounded bg-gray-200 overflow-hidden">
+                  <div
+                    className={`h-full ${LEVEL_COLORS[quota.level]}`}
+                    style={{ width: `${Math.min(100, (quota.usage / quota.quota) * 100)}%` }}
+                  />
+                </div>
+                {quota.level !== 'ok' && (
+                  <p className={`mt-1 ${quota.level === 'critical' ? 'text-red-600' : 'text-amber-700'}`}>
+                    Storage is almost full. Clean up unused images, delete old notes or export a backup.
+                  </p>
+                )}
+              </div>
+            )}
+            {breakdown && (
+              <dl className="grid grid-cols-3 gap-3">
+                <div className="rounded bg-gray-50 p-3">
+                  <dt className="text-gray-500">Notes</dt>
+                  <dd className="font-semibold text-gray-900">{formatBytes(breakdown.documents)}</dd>
+                </div>
+                <div className="rounded bg-gray-50 p-3">
+                  <dt className="text-gray-500">Images</dt>
+                  <dd className="font-semibold text-gray-900">{formatBytes(breakdown.images)}</dd>
+                </div>
+                <div className="rounded bg-gray-50 p-3">
+                  <dt className="text-gray-500">History</dt>
+                  <dd className="font-semibold text-gray-900">{formatBytes(breakdown.history)}</dd>
+                </div>
+              </dl>
+            )}
+            {persistence && (
+              <div className="flex items-center justify-between gap-3">
+                {persistence === 'granted' ? (
+                  <p className="flex items-center gap-2 text-green-700">
+                    <ShieldCheck size={16} /> Persistent storage granted: the browser won&apos;t clear your notes to free space
+                  </p>
+                ) : (
+                  <p className="flex items-center gap-2 text-amber-700">
+                    <ShieldAlert size={16} />
+                    {persistence === 'unsupported'
+                      ? 'This browser cannot guarantee persistent storage'
+                      : 'Not persistent: the browser may clear your notes when space runs low'}
+                  </p>
+                )}
+                {persistence === 'denied' && (
+                  <button
+                    onClick={handleRequestPersistence}
+                    className="shrink-0 px-2 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+                  >
+                    Request again
+                  </button>
+                )}
+              </div>
+            )}
+          </section>
+
+          <section className="border-t border-gray-200 pt-4 space-y-4">
+            <h3 className="font-medium text-gray-900">Images</h3>
+            {!report ? (
+              <p className="text-gray-500">Analyzing stored images...</p>
+            ) : (
+              <>
+                <dl className="grid grid-cols-2 gap-3">
+                  <div className="rounded bg-gray-50 p-3">
+                    <dt className="text-gray-500">Stored images</dt>
+                    <dd className="text-lg font-semibold text-gray-900">
+                      {report.imageCount} · {formatBytes(report.totalBytes)}
+                    </dd>
+                  </div>
+                  <div className="rounded bg-gray-50 p-3">
+                    <dt className="text-gray-500">In use</dt>
+                    <dd className="text-lg font-semibold text-gray-900">{report.referencedCount}</dd>
+                  </div>
+                  <div className="rounded bg-gray-50 p-3">
+                    <dt className="text-gray-500">Reclaimable</dt>
+                    <dd className="text-lg font-semibold text-gray-900">
+                      {reclaimableCount} · {formatBytes(report.reclaimableBytes)}
+                    </dd>
+                  </div>
+                  <div className="rounded bg-gray-50 p-3">
+                    <dt className="text-gray-500">Unused, in grace period</dt>
+                    <dd className="text-lg font-semibold text-gray-900">{pendingOrphans.length}</dd>
+                  </div>
+                </dl>
+
+                <p className="text-gray-600">
+                  Images that no note or version history references are removed once they are older than{' '}
+                  {graceHours} hours, so recent pastes and undos are never affected.
+                </p>
+
+                <button
+                  onClick={handleCleanUp}
+                  disabled={isCleaning || reclaimableCount === 0}
+                  className="flex items-center gap-2 px-3 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <Trash2 size={14} /> {isCleaning ? 'Cleaning up...' : 'Clean up'}
+                </button>
+              </>
+            )}
+
+            {message && <p className="text-green-700">{message}</p>}
+          </section>
+
+          <section className="border-t border-gray-200 pt-4 space-y-3">
+            <h3 className="font-medium text-gray-900">Image optimization</h3>
+            <label className="flex items-center gap-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={pipeline.enabled}
+                onChange={(e) => updatePipeline({ enabled: e.target.checked })}
+              />
+              Optimize pasted and dropped images (removes location and camera data)
+            </label>
+
+            <div className={`grid grid-cols-2 gap-3 ${pipeline.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+              <label className="text-gray-600">
+                Maximum size
+                <select
+                  value={pipeline.maxDimension}
+                  onChange={(e) => updatePipeline({ maxDimension: Number(e.target.value) })}
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded"
+                >
+                  {MAX_DIMENSION_OPTIONS.map((size) => (
+                    <option key={size} value={size}>
+                      {size}px
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-gray-600">
+                Format
+                <select
+                  value={pipeline.format}
+                  onChange={(e) => updatePipeline({ format: e.target.value as ImagePipelineSettings['format'] })}
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded"
+                >
+                  <option value="image/webp">WebP</option>
+                  <option value="image/jpeg">JPEG</option>
+                </select>
+              </label>
+              <label className="col-span-2 text-gray-600">
+                Quality: {Math.round(pipeline.quality * 100)}%
+                <input
+                  type="range"
+                  min={0.5}
+                  max={1}
+                  step={0.05}
+                  value={pipeline.quality}
+                  onChange={(e) => updatePipeline({ quality: Number(e.target.value) })}
+                  className="mt-1 w-full"
+                />
+              </label>
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
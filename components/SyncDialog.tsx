@@ -0,0 +1,146 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, RefreshCw, AlertTriangle } from 'lucide-react';
+import { getVaultStatus } from '@/lib/vault';
+import {
+  getSyncSettings,
+  saveSyncSettings,
+  getSyncStatus,
+  subscribeToSyncStatus,
+  syncNow,
+  SyncStatus,
+} from '@/lib/sync';
+
+interface SyncDialogProps {
+  onClose: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-1.5 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function describeStatus(status: SyncStatus): string {
+  switch (status.state) {
+    case 'disabled':
+      return 'Sync is off.';
+    case 'paused':
+      return 'Sync is paused while vault mode is on.';
+    case 'syncing':
+      return 'Syncing…';
+    case 'offline':
+      return 'Offline. Changes will be sent when the server can be reached.';
+    case 'error':
+      return `Sync failed: ${status.error}`;
+    case 'idle':
+      return status.lastSyncedAt
+        ? `Last synced ${new Date(status.lastSyncedAt).toLocaleTimeString()}.`
+        : 'Up to date.';
+  }
+}
+
+/**
+ * Connect to a self-hosted sync server and show how syncing is going
+ */
+export default function SyncDialog({ onClose }: SyncDialogProps) {
+  const [settings, setSettings] = useState(getSyncSettings);
+  const [status, setStatus] = useState(getSyncStatus);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => subscribeToSyncStatus(setStatus), []);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveSyncSettings(settings);
+    setMessage(settings.enabled ? 'Settings saved.' : 'Sync turned off.');
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/30 p-4" onClick={onClose}>
+      <div className="w-full max-w-md bg-white rounded-lg shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-3 border-b border-gray-200">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <RefreshCw size={18} />
+            Sync
+          </h2>
+          <button onClick={onClose} title="Close" className="p-1.5 rounded text-gray-600 hover:bg-gray-100">
+            <X size={18} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSave} className="px-5 py-4 space-y-4 text-sm text-gray-700">
+          <p>
+            Keep notes in step across devices through a server you run yourself. Notes stay available offline;
+            changes are sent when the server can be reached.
+          </p>
+          {getVaultStatus().enabled && (
+            <p className="flex gap-2 text-amber-800">
+              <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+              Sync is paused while vault mode is on: the server would store notes and images unencrypted. Changes
+              are sent once vault mode is turned off.
+            </p>
+          )}
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+            />
+            Sync with a server
+          </label>
+
+          <label className="block">
+            <span className="font-medium text-gray-900">Server address</span>
+            <input
+              type="url"
+              value={settings.serverUrl}
+              onChange={(e) => setSettings({ ...settings, serverUrl: e.target.value })}
+              placeholder="Leave empty to use this site"
+              className={`mt-1 ${inputClassName}`}
+            />
+          </label>
+
+          <label className="block">
+            <span className="font-medium text-gray-900">Access token</span>
+            <input
+              type="password"
+              value={settings.token}
+              onChange={(e) => setSettings({ ...settings, token: e.target.value })}
+              placeholder="SYNC_TOKEN set on the server"
+              autoComplete="off"
+              className={`mt-1 ${inputClassName}`}
+            />
+          </label>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={settings.enabled && !settings.token}
+              className="px-3 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => syncNow()}
+              disabled={!getSyncSettings().enabled || getVaultStatus().enabled || status.state === 'syncing'}
+              className="px-3 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+            >
+              Sync now
+            </button>
+          </div>
+
+          <div className="pt-3 border-t border-gray-200">
+            <p className={status.state === 'error' ? 'text-red-600' : undefined}>{describeStatus(status)}</p>
+            {status.pending > 0 && (
+              <p className="mt-1 text-gray-500">
+                {status.pending} {status.pending === 1 ? 'note' : 'notes'} waiting to be sent.
+              </p>
+            )}
+          </div>
+          {message && <p className="text-green-700">{message}</p>}
+        </form>
+      </div>
+    </div>
+  );
+}
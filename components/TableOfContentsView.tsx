@@ -0,0 +1,50 @@
+'use client';
+
+import { NodeViewWrapper, NodeViewProps } from '@tiptap/react';
+import { ListTree } from 'lucide-react';
+import { scrollToHeading } from '@/lib/outline';
+import { useOutline } from '@/hooks/useOutline';
+
+// Headings are indented relative to the highest level in use
+const INDENT_REM = 1.25;
+
+/**
+ * Table of contents block: links to every heading, rebuilt as the note changes
+ */
+export default function TableOfContentsView({ editor, selected }: NodeViewProps) {
+  const entries = useOutline(editor);
+  const topLevel = Math.min(...entries.map((entry) => entry.level));
+
+  return (
+    <NodeViewWrapper
+      as="nav"
+      data-type="table-of-contents"
+      contentEditable={false}
+      className={`table-of-contents px-4 py-3 rounded-lg border bg-gray-50 ${
+        selected ? 'border-blue-400' : 'border-gray-200'
+      }`}
+    >
+      <div className="flex items-center gap-2 mb-1 text-sm font-semibold text-gray-700" data-drag-handle>
+        <ListTree size={16} />
+        Contents
+      </div>
+      {entries.length === 0 ? (
+        <div className="text-sm text-gray-500">Add headings to this note and they will be listed here.</div>
+      ) : (
+        <ul className="text-sm">
+          {entries.map((entry) => (
+            <li key={entry.index} style={{ paddingLeft: `${(entry.level - topLevel) * INDENT_REM}rem` }}>
+              <button
+                type="button"
+                onClick={() => scrollToHeading(editor, entry)}
+                className="py-0.5 text-left text-blue-700 hover:underline"
+              >
+                {entry.text || <span className="text-gray-400">Untitled heading</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </NodeViewWrapper>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, ListChecks, CalendarDays, User, Flag } from 'lucide-react';
+import { listOpenTasks, isOverdue, getToday, TaskEntry } from '@/lib/tasks';
+import { formatDay } from '@/lib/format';
+import { PRIORITY_STYLES } from '@/components/TaskItemView';
+
+interface TaskDashboardProps {
+  onOpenTask: (task: TaskEntry) => void;
+  onClose: () => void;
+}
+
+// Assignee filter values besides names
+const ALL_ASSIGNEES = '*';
+const UNASSIGNED = '';
+
+/**
+ * Open tasks from every note, filterable by overdue and assignee
+ */
+export default function TaskDashboard({ onOpenTask, onClose }: TaskDashboardProps) {
+  const [tasks, setTasks] = useState<TaskEntry[] | null>(null);
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [assignee, setAssignee] = useState(ALL_ASSIGNEES);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listOpenTasks().then(setTasks, (loadError) => {
+      console.error('Failed to load tasks:', loadError);
+      setError('Could not load tasks.');
+    });
+  }, []);
+
+  const today = getToday();
+  const assignees = [...new Set((tasks || []).map((task) => task.assignee).filter(Boolean) as string[])].sort();
+  const visibleTasks = (tasks || []).filter(
+    (task) =>
+      (!overdueOnly || isOverdue(task, today)) &&
+      (assignee === ALL_ASSIGNEES || (task.assignee || UNASSIGNED) === assignee)
+  );
+  const overdueCount = (tasks || []).filter((task) => isOverdue(task, today)).length;
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/30 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-white rounded-lg shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-gray-200">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <ListChecks size={18} />
+            Tasks
+          </h2>
+          <button onClick={onClose} title="Close" className="p-1.5 rounded text-gray-600 hover:bg-gray-100">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 px-5 py-3 border-b border-gray-200 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={overdueOnly} onChange={(e) => setOverdueOnly(e.target.checked)} />
+            Overdue only{overdueCount > 0 && <span className="text-red-600">({overdueCount})</span>}
+          </label>
+          <label className="flex items-center gap-2">
+            Assignee
+            <select
+              value={assignee}
+              onChange={(e) => setAssignee(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded"
+            >
+              <option value={ALL_ASSIGNEES}>Everyone</option>
+              <option value={UNASSIGNED}>Unassigned</option>
+              {assignees.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {error && <p className="px-5 py-6 text-sm text-red-600">{error}</p>}
+          {!tasks && !error && <p className="px-5 py-6 text-sm text-gray-500">Loading tasks…</p>}
+          {tasks && visibleTasks.length === 0 && (
+            <p className="px-5 py-6 text-sm text-gray-500">
+              {tasks.length === 0 ? 'No open tasks. Add a task list to a note to get started.' : 'No tasks match.'}
+            </p>
+          )}
+          <ul className="divide-y divide-gray-100">
+            {visibleTasks.map((task) => (
+              <li key={`${task.documentId}-${task.index}`}>
+                <button
+                  onClick={() => onOpenTask(task)}
+                  className="w-full px-5 py-2.5 text-left hover:bg-gray-50"
+                >
+                  <span className="block text-sm text-gray-900">
+                    {task.text || <span className="text-gray-400">Untitled task</span>}
+                  </span>
+                  <span className="mt-0.5 flex flex-wrap items-center gap-3 text-xs text-gray-500">
+                    <span className="truncate max-w-[14rem]">{task.documentTitle}</span>
+                    {task.dueDate && (
+                      <span
+                        className={`flex items-center gap-1 ${isOverdue(task, today) ? 'text-red-600 font-medium' : ''}`}
+                      >
+                        <CalendarDays size={12} />
+                        {formatDay(task.dueDate)}
+                      </span>
+                    )}
+                    {task.assignee && (
+                      <span className="flex items-center gap-1">
+                        <User size={12} />
+                        {task.assignee}
+                      </span>
+                    )}
+                    {task.priority && (
+                      <span className={`flex items-center gap-1 ${PRIORITY_STYLES[task.priority]}`}>
+                        <Flag size={12} />
+                        {task.priority}
+                      </span>
+                    )}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useState } from 'react';
+import { NodeViewWrapper, NodeViewContent, NodeViewProps } from '@tiptap/react';
+import { CalendarDays, User, Flag, SlidersHorizontal } from 'lucide-react';
+import { isOverdue, TASK_PRIORITIES, TaskPriority } from '@/lib/tasks';
+import { formatDay } from '@/lib/format';
+
+export const PRIORITY_STYLES: Record<TaskPriority, string> = {
+  high: 'text-red-600',
+  medium: 'text-amber-600',
+  low: 'text-gray-500',
+};
+
+/**
+ * Task item node view: checkbox, content, and due date, assignee and priority chips
+ */
+export default function TaskItemView({ node, updateAttributes, editor }: NodeViewProps) {
+  const { checked, dueDate, assignee, priority } = node.attrs;
+  const [isEditingDetails, setIsEditingDetails] = useState(false);
+  const isEditable = editor.isEditable;
+  const hasDetails = dueDate || assignee || priority;
+
+  return (
+    <NodeViewWrapper as="li" data-type="taskItem" data-checked={checked} className="task-item group">
+      <label contentEditable={false} className="task-item-checkbox">
+        <input
+          type="checkbox"
+          checked={checked}
+          disabled={!isEditable}
+          onChange={(e) => updateAttributes({ checked: e.target.checked })}
+        />
+      </label>
+      {isEditable && (
+        <button
+          type="button"
+          contentEditable={false}
+          title="Due date, assignee and priority"
+          onClick={() => setIsEditingDetails((editing) => !editing)}
+          className={`task-item-details-button p-1 rounded hover:bg-gray-100 ${
+            isEditingDetails ? 'text-blue-600' : 'text-gray-500 opacity-0 group-hover:opacity-100 focus:opacity-100'
+          }`}
+        >
+          <SlidersHorizontal size={14} />
+        </button>
+      )}
+      <div className="task-item-body">
+        <NodeViewContent as="div" className={checked ? 'text-gray-400 line-through' : undefined} />
+
+        {hasDetails && (
+          <div contentEditable={false} className="flex flex-wrap items-center gap-2 text-xs text-gray-500 select-none">
+            {dueDate && (
+              <span
+                className={`flex items-center gap-1 ${
+                  isOverdue({ checked, dueDate, assignee, priority }) ? 'text-red-600 font-medium' : ''
+                }`}
+              >
+                <CalendarDays size={12} />
+                {formatDay(dueDate)}
+              </span>
+            )}
+            {assignee && (
+              <span className="flex items-center gap-1">
+                <User size={12} />
+                {assignee}
+              </span>
+            )}
+            {priority && (
+              <span className={`flex items-center gap-1 ${PRIORITY_STYLES[priority as TaskPriority]}`}>
+                <Flag size={12} />
+                {priority}
+              </span>
+            )}
+          </div>
+        )}
+
+        {isEditingDetails && isEditable && (
+          <div contentEditable={false} className="mt-1 flex flex-wrap items-center gap-2 text-sm">
+            <input
+              type="date"
+              value={dueDate || ''}
+              onChange={(e) => updateAttributes({ dueDate: e.target.value || null })}
+              title="Due date"
+              className="px-2 py-0.5 border border-gray-300 rounded"
+            />
+            <input
+              value={assignee || ''}
+              onChange={(e) => updateAttributes({ assignee: e.target.value || null })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === 'Escape') setIsEditingDetails(false);
+              }}
+              placeholder="Assignee"
+              className="w-32 px-2 py-0.5 border border-gray-300 rounded"
+            />
+            <select
+              value={priority || ''}
+              onChange={(e) => updateAttributes({ priority: e.target.value || null })}
+              title="Priority"
+              className="px-2 py-0.5 border border-gray-300 rounded"
+            >
+              <option value="">No priority</option>
+              {TASK_PRIORITIES.map((option) => (
+                <option key={option} value={option}>
+                  {option[0].toUpperCase() + option.slice(1)}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+    </NodeViewWrapper>
+  );
+}
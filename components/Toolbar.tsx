@@ -1,6 +1,8 @@
 'use client';
 
 import { Editor } from '@tiptap/react';
+import { addComment } from '@/lib/comments';
+import { insertMath } from '@/lib/math';
 import {
   Bold,
   Italic,
@@ -11,6 +13,7 @@ import {
   Heading3,
   List,
   ListOrdered,
+  ListChecks,
   Quote,
   Code,
   AlignLeft,
@@ -21,50 +24,148 @@ import {
   Redo,
   Type,
   Highlighter,
+  Table as TableIcon,
+  BetweenHorizontalStart,
+  BetweenHorizontalEnd,
+  BetweenVerticalStart,
+  BetweenVerticalEnd,
+  Rows3,
+  Columns3,
+  PanelTop,
+  TableCellsMerge,
+  TableCellsSplit,
+  PaintBucket,
+  Eraser,
+  Trash2,
+  MessageSquarePlus,
+  Search,
+  Sigma,
+  SquareSigma,
 } from 'lucide-react';
 
 interface ToolbarProps {
   editor: Editor | null;
+  // Open the find and replace bar
+  onFind?: () => void;
 }
 
-export default function Toolbar({ editor }: ToolbarProps) {
-  if (!editor) {
-    return null;
-  }
+const ButtonGroup = ({ children }: { children: React.ReactNode }) => (
+  <div className="flex items-center gap-1 border-r border-gray-200 pr-2 mr-2 last:border-r-0 last:pr-0 last:mr-0">
+    {children}
+  </div>
+);
 
-  const ButtonGroup = ({ children }: { children: React.ReactNode }) => (
-    <div className="flex items-center gap-1 border-r border-gray-200 pr-2 mr-2 last:border-r-0 last:pr-0 last:mr-0">
-      {children}
-    </div>
-  );
+const ToolbarButton = ({
+  onClick,
+  active,
+  disabled,
+  children,
+  title,
+}: {
+  onClick: () => void;
+  active?: boolean;
+  disabled?: boolean;
+  children: React.ReactNode;
+  title: string;
+}) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    title={title}
+    className={`p-2 rounded hover:bg-gray-100 transition-colors ${
+      active ? 'bg-gray-200 text-blue-600' : 'text-gray-700'
+    } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+  >
+    {children}
+  </button>
+);
+
+/**
+ * Row, column, header, merge and color controls, shown while the cursor is in a table
+ */
+const TableControls = ({ editor }: { editor: Editor }) => {
+  const cellColor =
+    editor.getAttributes('tableCell').backgroundColor || editor.getAttributes('tableHeader').backgroundColor;
+
+  return (
+    <>
+      <ButtonGroup>
+        <ToolbarButton onClick={() => editor.chain().focus().addRowBefore().run()} title="Insert Row Above">
+          <BetweenHorizontalStart size={18} />
+        </ToolbarButton>
+        <ToolbarButton onClick={() => editor.chain().focus().addRowAfter().run()} title="Insert Row Below">
+          <BetweenHorizontalEnd size={18} />
+        </ToolbarButton>
+        <ToolbarButton onClick={() => editor.chain().focus().deleteRow().run()} title="Delete Row">
+          <Rows3 size={18} />
+        </ToolbarButton>
+      </ButtonGroup>
 
-  const ToolbarButton = ({
-    onClick,
-    active,
-    disabled,
-    children,
-    title,
-  }: {
-    onClick: () => void;
-    active?: boolean;
-    disabled?: boolean;
-    children: React.ReactNode;
-    title: string;
-  }) => (
-    <button
-      onClick={onClick}
-      disabled={disabled}
-      title={title}
-      className={`p-2 rounded hover:bg-gray-100 transition-colors ${
-        active ? 'bg-gray-200 text-blue-600' : 'text-gray-700'
-      } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
-    >
-      {children}
-    </button>
+      <ButtonGroup>
+        <ToolbarButton onClick={() => editor.chain().focus().addColumnBefore().run()} title="Insert Column Left">
+          <BetweenVerticalStart size={18} />
+        </ToolbarButton>
+        <ToolbarButton onClick={() => editor.chain().focus().addColumnAfter().run()} title="Insert Column Right">
+          <BetweenVerticalEnd size={18} />
+        </ToolbarButton>
+        <ToolbarButton onClick={() => editor.chain().focus().deleteColumn().run()} title="Delete Column">
+          <Columns3 size={18} />
+        </ToolbarButton>
+      </ButtonGroup>
+
+      <ButtonGroup>
+        <ToolbarButton onClick={() => editor.chain().focus().toggleHeaderRow().run()} title="Toggle Header Row">
+          <PanelTop size={18} />
+        </ToolbarButton>
+        <ToolbarButton
+          onClick={() => editor.chain().focus().mergeCells().run()}
+          disabled={!editor.can().mergeCells()}
+          title="Merge Cells"
+        >
+          <TableCellsMerge size={18} />
+        </ToolbarButton>
+        <ToolbarButton
+          onClick={() => editor.chain().focus().splitCell().run()}
+          disabled={!editor.can().splitCell()}
+          title="Split Cell"
+        >
+          <TableCellsSplit size={18} />
+        </ToolbarButton>
+      </ButtonGroup>
+
+      <ButtonGroup>
+        <div className="flex items-center gap-1">
+          <PaintBucket size={18} className="text-gray-600" />
+          <input
+            type="color"
+            onChange={(e) => editor.chain().focus().setCellAttribute('backgroundColor', e.target.value).run()}
+            value={cellColor || '#ffffff'}
+            className="w-8 h-8 cursor-pointer"
+            title="Cell Background"
+          />
+        </div>
+        <ToolbarButton
+          onClick={() => editor.chain().focus().setCellAttribute('backgroundColor', null).run()}
+          disabled={!cellColor}
+          title="Clear Cell Background"
+        >
+          <Eraser size={18} />
+        </ToolbarButton>
+        <ToolbarButton onClick={() => editor.chain().focus().deleteTable().run()} title="Delete Table">
+          <Trash2 size={18} />
+        </ToolbarButton>
+      </ButtonGroup>
+    </>
   );
+};
+
+export default function Toolbar({ editor, onFind }: ToolbarProps) {
+  if (!editor) {
+    return null;
+  }
 
   return (
-    <div className="border-b border-gray-200 bg-white sticky top-0 z-10">
+    <div className="border-b border-gray-200 bg-white">
       <div className="flex items-center gap-2 p-2 overflow-x-auto">
         {/* Undo/Redo */}
         <ButtonGroup>
@@ -157,6 +258,13 @@ export default function Toolbar({ editor }: ToolbarProps) {
           >
             <ListOrdered size={18} />
           </ToolbarButton>
+          <ToolbarButton
+            onClick={() => editor.chain().focus().toggleTaskList().run()}
+            active={editor.isActive('taskList')}
+            title="Task List"
+          >
+            <ListChecks size={18} />
+          </ToolbarButton>
         </ButtonGroup>
 
         {/* Other Blocks */}
@@ -175,8 +283,48 @@ export default function Toolbar({ editor }: ToolbarProps) {
           >
             <Code size={18} />
           </ToolbarButton>
+          <ToolbarButton
+            onClick={() => insertMath(editor, false)}
+            active={editor.isActive('inlineMath')}
+            title="Inline Equation (Ctrl+Shift+M)"
+          >
+            <Sigma size={18} />
+          </ToolbarButton>
+          <ToolbarButton
+            onClick={() => insertMath(editor, true)}
+            active={editor.isActive('blockMath')}
+            title="Equation Block"
+          >
+            <SquareSigma size={18} />
+          </ToolbarButton>
+          <ToolbarButton
+            onClick={() => editor.chain().focus().insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run()}
+            active={editor.isActive('table')}
+            disabled={!editor.can().insertTable()}
+            title="Insert Table"
+          >
+            <TableIcon size={18} />
+          </ToolbarButton>
+        </ButtonGroup>
+
+        {/* Comments */}
+        <ButtonGroup>
+          <ToolbarButton onClick={() => addComment(editor)} title="Comment on Selection (Ctrl+Alt+M)">
+            <MessageSquarePlus size={18} />
+          </ToolbarButton>
         </ButtonGroup>
 
+        {/* Find */}
+        {onFind && (
+          <ButtonGroup>
+            <ToolbarButton onClick={onFind} title="Find and Replace (Ctrl+F)">
+              <Search size={18} />
+            </ToolbarButton>
+          </ButtonGroup>
+        )}
+
+        {editor.isActive('table') && <TableControls editor={editor} />}
+
         {/* Alignment */}
         <ButtonGroup>
           <ToolbarButton
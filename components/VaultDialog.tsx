@@ -0,0 +1,236 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, Lock, ShieldCheck, AlertTriangle } from 'lucide-react';
+import { WrongPassphraseError } from '@/lib/crypto';
+import {
+  enableVault,
+  disableVault,
+  changePassphrase,
+  setAutoLockMinutes,
+  requestVaultLock,
+  getVaultStatus,
+  subscribeToVault,
+  MIN_PASSPHRASE_LENGTH,
+} from '@/lib/vault';
+
+interface VaultDialogProps {
+  onClose: () => void;
+}
+
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 1, label: 'After 1 minute' },
+  { minutes: 5, label: 'After 5 minutes' },
+  { minutes: 10, label: 'After 10 minutes' },
+  { minutes: 30, label: 'After 30 minutes' },
+  { minutes: 60, label: 'After 1 hour' },
+  { minutes: 0, label: 'Never' },
+];
+
+const inputClassName =
+  'w-full px-3 py-1.5 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Turn vault mode on or off, change the passphrase and the auto-lock delay
+ */
+export default function VaultDialog({ onClose }: VaultDialogProps) {
+  const [status, setStatus] = useState(getVaultStatus);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => subscribeToVault(setStatus), []);
+
+  const resetFields = () => {
+    setCurrent('');
+    setNext('');
+    setConfirmation('');
+  };
+
+  // Validate the new passphrase fields; returns an error message or null
+  const checkNewPassphrase = () => {
+    if (next.length < MIN_PASSPHRASE_LENGTH) return `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+    if (next !== confirmation) return 'The passphrases do not match.';
+    return null;
+  };
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setIsWorking(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await action();
+      resetFields();
+      setMessage(success);
+    } catch (actionError) {
+      if (actionError instanceof WrongPassphraseError) {
+        setError('The current passphrase is not correct.');
+      } else {
+        console.error('Vault operation failed:', actionError);
+        setError(actionError instanceof Error ? actionError.message : 'Something went wrong.');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleEnable = () => {
+    const problem = checkNewPassphrase();
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    run(() => enableVault(next), 'Your notes are now encrypted.');
+  };
+
+  const handleChange = () => {
+    const problem = checkNewPassphrase();
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    run(() => changePassphrase(current, next), 'Passphrase changed.');
+  };
+
+  const handleDisable = () => {
+    if (!window.confirm('Decrypt all notes and store them as plain data in this browser?')) return;
+    run(() => disableVault(current), 'Encryption is off.');
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/30 p-4" onClick={onClose}>
+      <div className="w-full max-w-md bg-white rounded-lg shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-3 border-b border-gray-200">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <ShieldCheck size={18} />
+            Encryption
+          </h2>
+          <button onClick={onClose} title="Close" className="p-1.5 rounded text-gray-600 hover:bg-gray-100">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-5 py-4 space-y-5 text-sm text-gray-700">
+          {!status.enabled ? (
+            <section className="space-y-2">
+              <p>
+                Encrypt notes, history and images in this browser with a passphrase. The app asks for it when
+                it opens and locks itself when you are away. Shared notes stop being shared and sync pauses,
+                since neither the shared state nor the server&apos;s copy can be encrypted.
+              </p>
+              <p className="flex gap-2 text-amber-800">
+                <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                The passphrase cannot be reset. If you forget it, your notes are lost.
+              </p>
+              <input
+                type="password"
+                value={next}
+                onChange={(e) => setNext(e.target.value)}
+                placeholder="New passphrase"
+                autoComplete="new-password"
+                className={inputClassName}
+              />
+              <input
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                placeholder="Repeat passphrase"
+                autoComplete="new-password"
+                className={inputClassName}
+              />
+              <button
+                onClick={handleEnable}
+                disabled={isWorking || !next}
+                className="px-3 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isWorking ? 'Encrypting your notes…' : 'Turn on encryption'}
+              </button>
+            </section>
+          ) : (
+            <>
+              <section className="flex items-center justify-between gap-3">
+                <p>Your notes are encrypted.</p>
+                <button
+                  onClick={() => {
+                    onClose();
+                    requestVaultLock();
+                  }}
+                  className="flex items-center gap-2 px-3 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700"
+                >
+                  <Lock size={14} /> Lock now
+                </button>
+              </section>
+
+              <section>
+                <h3 className="font-medium text-gray-900">Lock automatically</h3>
+                <select
+                  value={status.autoLockMinutes}
+                  onChange={(e) => run(() => setAutoLockMinutes(Number(e.target.value)), 'Auto-lock updated.')}
+                  disabled={isWorking}
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded"
+                >
+                  {AUTO_LOCK_OPTIONS.map((option) => (
+                    <option key={option.minutes} value={option.minutes}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </section>
+
+              <section className="space-y-2">
+                <h3 className="font-medium text-gray-900">Passphrase</h3>
+                <input
+                  type="password"
+                  value={current}
+                  onChange={(e) => setCurrent(e.target.value)}
+                  placeholder="Current passphrase"
+                  autoComplete="current-password"
+                  className={inputClassName}
+                />
+                <input
+                  type="password"
+                  value={next}
+                  onChange={(e) => setNext(e.target.value)}
+                  placeholder="New passphrase"
+                  autoComplete="new-password"
+                  className={inputClassName}
+                />
+                <input
+                  type="password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  placeholder="Repeat new passphrase"
+                  autoComplete="new-password"
+                  className={inputClassName}
+                />
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleChange}
+                    disabled={isWorking || !current || !next}
+                    className="px-3 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                  >
+                    Change passphrase
+                  </button>
+                  <button
+                    onClick={handleDisable}
+                    disabled={isWorking || !current}
+                    title="Enter the current passphrase first"
+                    className="px-3 py-1.5 rounded border border-gray-300 text-red-700 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    {isWorking ? 'Working…' : 'Turn off encryption'}
+                  </button>
+                </div>
+              </section>
+            </>
+          )}
+
+          {error && <p className="text-red-600">{error}</p>}
+          {message && <p className="text-green-700">{message}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
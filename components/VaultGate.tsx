@@ -0,0 +1,147 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Lock } from 'lucide-react';
+import { WrongPassphraseError } from '@/lib/crypto';
+import {
+  initVault,
+  unlockVault,
+  lockVault,
+  syncVaultSettings,
+  getVaultStatus,
+  subscribeToVault,
+  subscribeToLockRequests,
+  VaultStatus,
+} from '@/lib/vault';
+import { subscribeToTabs } from '@/lib/tab-sync';
+
+interface VaultGateProps {
+  children: React.ReactNode;
+}
+
+// Input that counts as activity for auto-lock
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+/**
+ * Asks for the passphrase before rendering the app when vault mode is on,
+ * and locks again after a period of inactivity
+ */
+export default function VaultGate({ children }: VaultGateProps) {
+  const [status, setStatus] = useState<VaultStatus | null>(null);
+  // Set first when locking, so the app unmounts and saves the open note before the key is dropped
+  const [isLocking, setIsLocking] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  useEffect(() => {
+    initVault().then(setStatus, (initError) => {
+      console.error('Failed to read vault settings:', initError);
+      setError('Could not read the vault settings.');
+    });
+    return subscribeToVault(setStatus);
+  }, []);
+
+  useEffect(
+    () =>
+      subscribeToLockRequests(() => {
+        if (getVaultStatus().enabled) setIsLocking(true);
+      }),
+    []
+  );
+
+  // Other tabs turned vault mode on or off, or changed the auto-lock time
+  useEffect(() => {
+    return subscribeToTabs(async (message) => {
+      if (message.type === 'vault-changed' && (await syncVaultSettings())) {
+        window.location.reload();
+      }
+    });
+  }, []);
+
+  // By now the app's unmount effects have run, and their saves hold the key they need
+  useEffect(() => {
+    if (isLocking) lockVault();
+  }, [isLocking]);
+
+  const isUnlocked = status !== null && !status.locked && !isLocking;
+  const autoLockMinutes = status?.enabled ? status.autoLockMinutes : 0;
+
+  useEffect(() => {
+    if (!isUnlocked || autoLockMinutes === 0) return;
+
+    let timer = setTimeout(() => setIsLocking(true), autoLockMinutes * 60 * 1000);
+    const handleActivity = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => setIsLocking(true), autoLockMinutes * 60 * 1000);
+    };
+
+    ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, handleActivity, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, handleActivity));
+    };
+  }, [isUnlocked, autoLockMinutes]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlockVault(passphrase);
+      setPassphrase('');
+      setIsLocking(false);
+    } catch (unlockError) {
+      if (!(unlockError instanceof WrongPassphraseError)) {
+        console.error('Failed to unlock the vault:', unlockError);
+      }
+      setError(unlockError instanceof WrongPassphraseError ? 'Wrong passphrase.' : 'Could not unlock your notes.');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  if (isUnlocked) {
+    return <>{children}</>;
+  }
+
+  if (!status && !error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <form onSubmit={handleUnlock} className="w-full max-w-sm bg-white rounded-lg shadow-sm p-6 text-sm text-gray-700">
+        <div className="flex items-center gap-2 text-gray-900">
+          <Lock size={20} />
+          <h1 className="text-lg font-semibold">Your notes are locked</h1>
+        </div>
+        <p className="mt-2 text-gray-600">Enter your passphrase to decrypt them.</p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoFocus
+          autoComplete="current-password"
+          placeholder="Passphrase"
+          className="mt-3 w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {error && <p className="mt-2 text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking || !status}
+          className="mt-3 w-full px-3 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isUnlocking ? 'Unlocking…' : 'Unlock'}
+        </button>
+        <p className="mt-3 text-xs text-gray-500">
+          The passphrase is never stored. If it is lost, the notes cannot be recovered.
+        </p>
+      </form>
+    </div>
+  );
+}
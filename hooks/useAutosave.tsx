@@ -1,30 +1,58 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 
 export interface AutosaveStatus {
-  status: 'idle' | 'typing' | 'saving' | 'saved';
+  status: 'idle' | 'typing' | 'saving' | 'saved' | 'error';
   lastSaved: Date | null;
+  // Seconds until the next save, or the next retry after an error
   countdown: number;
+  error: string | null;
 }
 
 interface UseAutosaveOptions {
   delay?: number; // Debounce delay in milliseconds (default: 5000)
   onSave: () => Promise<void> | void;
+  // Synchronously record unsaved content (see lib/journal.ts); called shortly after edits and on page hide
+  onJournal?: () => void;
+  // Return false for errors that retrying can't fix (default: retry everything)
+  shouldRetry?: (error: unknown) => boolean;
 }
 
-export function useAutosave({ delay = 5000, onSave }: UseAutosaveOptions) {
+// Backoff between retries of a failed save; the last delay repeats
+const RETRY_DELAYS = [2000, 5000, 15000, 30000, 60000];
+const JOURNAL_DELAY = 1000;
+
+export function useAutosave({ delay = 5000, onSave, onJournal, shouldRetry }: UseAutosaveOptions) {
   const [status, setStatus] = useState<AutosaveStatus>({
     status: 'idle',
     lastSaved: null,
     countdown: 0,
+    error: null,
   });
 
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
   const countdownIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const journalTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const pendingChangesRef = useRef(false);
+  const retryCountRef = useRef(0);
+  // Saves never overlap; a save requested while one runs is queued behind it
+  const isSavingRef = useRef(false);
+  const saveQueuedRef = useRef(false);
+  // Set on unmount so a failing final save doesn't keep retrying
+  const sessionClosedRef = useRef(false);
+  // Always call the latest callbacks without resetting timers on every render
+  const onSaveRef = useRef(onSave);
+  const onJournalRef = useRef(onJournal);
+  const shouldRetryRef = useRef(shouldRetry);
+
+  useEffect(() => {
+    onSaveRef.current = onSave;
+    onJournalRef.current = onJournal;
+    shouldRetryRef.current = shouldRetry;
+  }, [onSave, onJournal, shouldRetry]);
 
-  const clearTimers = () => {
+  const clearTimers = useCallback(() => {
     if (timeoutRef.current) {
       clearTimeout(timeoutRef.current);
       timeoutRef.current = null;
@@ -33,24 +61,80 @@ export function useAutosave({ delay = 5000, onSave }: UseAutosaveOptions) {
       clearInterval(countdownIntervalRef.current);
       countdownIntervalRef.current = null;
     }
+  }, []);
+
+  const writeJournal = useCallback(() => {
+    if (journalTimeoutRef.current) {
+      clearTimeout(journalTimeoutRef.current);
+      journalTimeoutRef.current = null;
+    }
+    if (pendingChangesRef.current) {
+      onJournalRef.current?.();
+    }
+  }, []);
+
+  // Count down `seconds` in the status, then run `action`
+  const schedule = (seconds: number, action: () => void) => {
+    let remainingSeconds = seconds;
+    countdownIntervalRef.current = setInterval(() => {
+      remainingSeconds -= 1;
+      setStatus((prev) => ({
+        ...prev,
+        countdown: remainingSeconds,
+      }));
+
+      if (remainingSeconds <= 0 && countdownIntervalRef.current) {
+        clearInterval(countdownIntervalRef.current);
+        countdownIntervalRef.current = null;
+      }
+    }, 1000);
+
+    timeoutRef.current = setTimeout(action, seconds * 1000);
   };
 
   const save = async () => {
     clearTimers();
+    if (isSavingRef.current) {
+      saveQueuedRef.current = true;
+      return;
+    }
+
+    isSavingRef.current = true;
+    // Edits made while saving set this again and schedule their own save
+    pendingChangesRef.current = false;
     setStatus((prev) => ({ ...prev, status: 'saving', countdown: 0 }));
-    
+
     try {
-      await onSave();
-      const now = new Date();
-      setStatus({
-        status: 'saved',
-        lastSaved: now,
-        countdown: 0,
-      });
-      pendingChangesRef.current = false;
+      await onSaveRef.current();
+      retryCountRef.current = 0;
+      setStatus((prev) => ({
+        status: pendingChangesRef.current ? prev.status : 'saved',
+        lastSaved: new Date(),
+        countdown: prev.countdown,
+        error: null,
+      }));
     } catch (error) {
       console.error('Autosave failed:', error);
-      setStatus((prev) => ({ ...prev, status: 'idle', countdown: 0 }));
+      pendingChangesRef.current = true;
+      writeJournal();
+
+      const message = error instanceof Error ? error.message : String(error);
+      const retry = shouldRetryRef.current?.(error) ?? true;
+      const retryDelay = RETRY_DELAYS[Math.min(retryCountRef.current, RETRY_DELAYS.length - 1)] / 1000;
+      setStatus((prev) => ({ ...prev, status: 'error', countdown: retry ? retryDelay : 0, error: message }));
+      if (retry && !sessionClosedRef.current) {
+        retryCountRef.current++;
+        schedule(retryDelay, save);
+      }
+    } finally {
+      isSavingRef.current = false;
+    }
+
+    if (saveQueuedRef.current) {
+      saveQueuedRef.current = false;
+      if (pendingChangesRef.current && !timeoutRef.current) {
+        save();
+      }
     }
   };
 
@@ -58,58 +142,75 @@ export function useAutosave({ delay = 5000, onSave }: UseAutosaveOptions) {
     clearTimers();
     pendingChangesRef.current = true;
 
-    // Update status to typing with countdown
+    if (!journalTimeoutRef.current) {
+      journalTimeoutRef.current = setTimeout(writeJournal, JOURNAL_DELAY);
+    }
+
+    // Update status to typing with countdown; a failed save keeps showing its error
     setStatus((prev) => ({
       ...prev,
-      status: 'typing',
+      status: prev.status === 'error' ? 'error' : 'typing',
       countdown: Math.ceil(delay / 1000),
     }));
 
-    // Start countdown interval
-    let remainingSeconds = Math.ceil(delay / 1000);
-    countdownIntervalRef.current = setInterval(() => {
-      remainingSeconds -= 1;
-      setStatus((prev) => ({
-        ...prev,
-        countdown: remainingSeconds,
-      }));
-
-      if (remainingSeconds <= 0 && countdownIntervalRef.current) {
-        clearInterval(countdownIntervalRef.current);
-        countdownIntervalRef.current = null;
-      }
-    }, 1000);
-
     // Schedule the actual save
-    timeoutRef.current = setTimeout(() => {
-      save();
-    }, delay);
+    schedule(Math.ceil(delay / 1000), save);
   };
 
-  // Save on page unload
+  // The latest save, for the page hide and unmount handlers registered once below
+  const saveRef = useRef(save);
   useEffect(() => {
-    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+    saveRef.current = save;
+  });
+
+  // Whether there are edits that haven't been saved yet
+  const hasPendingChanges = useCallback(() => pendingChangesRef.current, []);
+
+  // Forget unsaved edits, e.g. after replacing the content with another tab's version
+  const discardChanges = useCallback(() => {
+    clearTimers();
+    pendingChangesRef.current = false;
+    retryCountRef.current = 0;
+    setStatus((prev) => ({ ...prev, status: 'idle', countdown: 0, error: null }));
+  }, [clearTimers]);
+
+  // Journal unsaved edits when the page goes away; the browser won't wait for an
+  // IndexedDB save, so the journal is what survives. Flush pending changes when
+  // the session ends (e.g. when switching to another document).
+  useEffect(() => {
+    const handleBeforeUnload = () => writeJournal();
+    const handlePageHide = () => {
+      writeJournal();
       if (pendingChangesRef.current) {
-        // Synchronous save attempt
-        onSave();
+        // Best effort; completes if the page stays alive (e.g. bfcache)
+        saveRef.current();
       }
     };
 
     window.addEventListener('beforeunload', handleBeforeUnload);
+    window.addEventListener('pagehide', handlePageHide);
     return () => {
       window.removeEventListener('beforeunload', handleBeforeUnload);
+      window.removeEventListener('pagehide', handlePageHide);
+      sessionClosedRef.current = true;
       clearTimers();
+      writeJournal();
+      if (pendingChangesRef.current) {
+        saveRef.current();
+      }
     };
-  }, [onSave]);
+  }, [clearTimers, writeJournal]);
 
-  return { status, triggerAutosave, save };
+  return { status, triggerAutosave, save, hasPendingChanges, discardChanges };
 }
 
 interface AutosaveIndicatorProps {
   status: AutosaveStatus;
+  // Shown as a "Save now" action while there are unsaved changes
+  onSaveNow?: () => void;
 }
 
-export function AutosaveIndicator({ status }: AutosaveIndicatorProps) {
+export function AutosaveIndicator({ status, onSaveNow }: AutosaveIndicatorProps) {
   const formatTime = (date: Date | null) => {
     if (!date) return '';
     return date.toLocaleTimeString('en-US', {
@@ -130,6 +231,8 @@ export function AutosaveIndicator({ status }: AutosaveIndicatorProps) {
         return status.lastSaved
           ? `Saved at ${formatTime(status.lastSaved)}`
           : 'All changes saved';
+      case 'error':
+        return status.countdown > 0 ? `Not saved, retrying in ${status.countdown}s` : 'Not saved';
       default:
         return 'All changes saved';
     }
@@ -143,6 +246,8 @@ export function AutosaveIndicator({ status }: AutosaveIndicatorProps) {
         return 'text-blue-600';
       case 'saved':
         return 'text-green-600';
+      case 'error':
+        return 'text-red-600';
       default:
         return 'text-gray-600';
     }
@@ -156,15 +261,25 @@ export function AutosaveIndicator({ status }: AutosaveIndicatorProps) {
         return '💾';
       case 'saved':
         return '✓';
+      case 'error':
+        return '⚠';
       default:
         return '✓';
     }
   };
 
   return (
-    <div className={`flex items-center gap-2 text-sm ${getStatusColor()} transition-colors`}>
+    <div
+      className={`flex items-center gap-2 text-sm ${getStatusColor()} transition-colors`}
+      title={status.error || undefined}
+    >
       <span>{getStatusIcon()}</span>
       <span>{getStatusText()}</span>
+      {onSaveNow && (status.status === 'typing' || status.status === 'error') && (
+        <button onClick={onSaveNow} className="font-medium underline hover:opacity-80">
+          Save now
+        </button>
+      )}
     </div>
   );
 }
@@ -0,0 +1,81 @@
+import { useState, useEffect } from 'react';
+import {
+  openCollaborationSession,
+  getCollaborators,
+  CollaborationSession,
+  Collaborator,
+} from '@/lib/collaboration';
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected';
+
+/**
+ * Collaboration session for a note, open while the component is mounted and collaboration is on
+ * @returns The session once its content is loaded, and whether it failed to open
+ */
+export function useCollaboration(documentId: string, enabled: boolean) {
+  const [session, setSession] = useState<CollaborationSession | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let active = true;
+    let close: (() => void) | null = null;
+    openCollaborationSession(documentId).then(
+      (opened) => {
+        if (!active) {
+          opened.close();
+          return;
+        }
+        close = opened.close;
+        setSession(opened.session);
+      },
+      (error) => {
+        console.error('Failed to open collaboration session:', error);
+        if (active) setFailed(true);
+      }
+    );
+
+    return () => {
+      active = false;
+      close?.();
+      setSession(null);
+      setFailed(false);
+    };
+  }, [documentId, enabled]);
+
+  return {
+    session: enabled ? session : null,
+    isOpening: enabled && !session && !failed,
+    failed: enabled && failed,
+  };
+}
+
+/**
+ * Connection state and the people in a session, kept up to date
+ */
+export function useCollaborators(session: CollaborationSession | null) {
+  const [status, setStatus] = useState<ConnectionStatus>('connecting');
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+
+  useEffect(() => {
+    if (!session) return;
+
+    const { provider } = session;
+    const handleStatus = ({ status: next }: { status: ConnectionStatus }) => setStatus(next);
+    const handleChange = () => setCollaborators(getCollaborators(session));
+
+    provider.on('status', handleStatus);
+    provider.awareness.on('change', handleChange);
+    queueMicrotask(() => {
+      setStatus(provider.wsconnected ? 'connected' : 'connecting');
+      handleChange();
+    });
+    return () => {
+      provider.off('status', handleStatus);
+      provider.awareness.off('change', handleChange);
+    };
+  }, [session]);
+
+  return { status, collaborators };
+}
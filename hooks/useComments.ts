@@ -0,0 +1,64 @@
+import { useState, useEffect } from 'react';
+import type { Editor } from '@tiptap/react';
+import type { Transaction } from '@tiptap/pm/state';
+import type { CommentThread } from '@/lib/storage';
+import {
+  listCommentThreads,
+  subscribeToComments,
+  setCommentThreads,
+  getCommentState,
+  findCommentAnchors,
+  CommentAnchor,
+} from '@/lib/comments';
+
+export interface CommentsView {
+  threads: CommentThread[];
+  // Ranges in the document, in document order
+  anchors: CommentAnchor[];
+  activeId: string | null;
+  draftId: string | null;
+}
+
+/**
+ * Comment threads of a note together with where they are in the editor.
+ * Keeps the editor's highlighting in step with the stored threads.
+ */
+export function useComments(editor: Editor | null, documentId: string): CommentsView {
+  const [threads, setThreads] = useState<CommentThread[]>([]);
+  const [view, setView] = useState<Omit<CommentsView, 'threads'>>({ anchors: [], activeId: null, draftId: null });
+
+  useEffect(() => {
+    const load = () => listCommentThreads(documentId).then(setThreads);
+    load();
+    return subscribeToComments(documentId, load);
+  }, [documentId]);
+
+  useEffect(() => {
+    if (editor && !editor.isDestroyed) setCommentThreads(editor, threads);
+  }, [editor, threads]);
+
+  useEffect(() => {
+    if (!editor) return;
+
+    let anchors: CommentAnchor[] = [];
+    let current = '';
+    const update = ({ transaction }: { transaction?: Transaction } = {}) => {
+      // Ranges only move when the document changes
+      if (!transaction || transaction.docChanged) anchors = findCommentAnchors(editor.state.doc);
+      const { activeId, draftId } = getCommentState(editor.state);
+      const next = { anchors, activeId, draftId };
+      const key = JSON.stringify(next);
+      if (key === current) return;
+      current = key;
+      setView(next);
+    };
+
+    queueMicrotask(update);
+    editor.on('transaction', update);
+    return () => {
+      editor.off('transaction', update);
+    };
+  }, [editor]);
+
+  return { threads, ...(editor ? view : { anchors: [], activeId: null, draftId: null }) };
+}
@@ -0,0 +1,30 @@
+import { useState, useEffect } from 'react';
+import { acquireImageUrl, releaseImageUrl } from '@/lib/image-urls';
+import type { ImageVariant } from '@/lib/storage';
+
+/**
+ * Object URL for a stored image, held for as long as the component is mounted.
+ * The reference is released on unmount or when the image or variant changes.
+ * @param imageId - Stored image, or null for images that aren't in IndexedDB
+ * @param variant - Which version of the image to display
+ */
+export function useImageUrl(imageId: string | null, variant: ImageVariant = 'full'): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!imageId) return;
+
+    let active = true;
+    acquireImageUrl(imageId, variant).then((nextUrl) => {
+      // Keep showing the previous variant if this one is missing
+      if (active && nextUrl) setUrl(nextUrl);
+    });
+
+    return () => {
+      active = false;
+      releaseImageUrl(imageId, variant);
+    };
+  }, [imageId, variant]);
+
+  return imageId ? url : null;
+}
@@ -0,0 +1,33 @@
+import { useState, useEffect } from 'react';
+import type { Editor } from '@tiptap/react';
+import { getOutline, OutlineEntry } from '@/lib/outline';
+
+/**
+ * The editor's headings, kept current as the document changes and sections collapse or expand
+ * @param editor - Editor to follow, or null while it's being created
+ */
+export function useOutline(editor: Editor | null): OutlineEntry[] {
+  const [entries, setEntries] = useState<OutlineEntry[]>(() => (editor ? getOutline(editor.state) : []));
+
+  useEffect(() => {
+    if (!editor) return;
+
+    let current = '';
+    const update = () => {
+      const next = getOutline(editor.state);
+      // Most transactions only move the cursor; skip those
+      const key = JSON.stringify(next);
+      if (key === current) return;
+      current = key;
+      setEntries(next);
+    };
+
+    queueMicrotask(update);
+    editor.on('transaction', update);
+    return () => {
+      editor.off('transaction', update);
+    };
+  }, [editor]);
+
+  return editor ? entries : [];
+}
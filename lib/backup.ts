@@ -0,0 +1,546 @@
+import { zipSync, unzipSync, strToU8, strFromU8, Unzipped } from 'fflate';
+import type { JSONContent } from '@tiptap/react';
+import {
+  getDB,
+  generateId,
+  sealDocument,
+  openDocument,
+  sealSnapshot,
+  openSnapshot,
+  sealImage,
+  openImage,
+  sealCommentThread,
+  openCommentThread,
+  NoteDocument,
+  DocumentSnapshot,
+  StoredImage,
+  CommentThread,
+  toNoteLinks,
+  toSearchEntry,
+  sealSearchEntry,
+} from './storage';
+import { encryptArchive, decryptArchive, isEncryptedArchive } from './crypto';
+import { notifyTabs } from './tab-sync';
+
+const BACKUP_FORMAT = 'notes-app-backup';
+const BACKUP_VERSION = 1;
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  documents: { id: string; title: string; createdAt: number; updatedAt: number; file: string }[];
+  images: {
+    id: string;
+    type: string;
+    createdAt: number;
+    file: string;
+    thumbnail?: { type: string; file: string };
+    width?: number | null;
+    height?: number | null;
+  }[];
+  snapshots: { id: string; documentId: string; kind: DocumentSnapshot['kind']; createdAt: number; file: string }[];
+  // Only in backups exported with their comments
+  comments?: { id: string; documentId: string; file: string }[];
+}
+
+export interface ParsedBackup {
+  manifest: BackupManifest;
+  documents: NoteDocument[];
+  images: StoredImage[];
+  snapshots: DocumentSnapshot[];
+  comments: CommentThread[];
+}
+
+export interface BackupConflict {
+  id: string;
+  localTitle: string;
+  localUpdatedAt: number;
+  importedTitle: string;
+  importedUpdatedAt: number;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * How to handle a document whose ID already exists when merging:
+ * - 'keep-newer': keep whichever version was updated last
+ * - 'keep-local': keep the local document, skip the imported one
+ * - 'keep-imported': overwrite the local document
+ * - 'keep-both': import the document as a copy with a new ID
+ */
+export type ConflictStrategy = 'keep-newer' | 'keep-local' | 'keep-imported' | 'keep-both';
+
+export interface RestoreResult {
+  documentsAdded: number;
+  documentsUpdated: number;
+  documentsSkipped: number;
+  imagesAdded: number;
+}
+
+/**
+ * Thrown when an archive is not a valid backup; nothing has been written
+ */
+export class BackupValidationError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid backup archive: ${problems[0]}${problems.length > 1 ? ` (and ${problems.length - 1} more)` : ''}`);
+    this.name = 'BackupValidationError';
+  }
+}
+
+/**
+ * Thrown by readBackup when the archive is encrypted and no passphrase was given
+ */
+export class EncryptedBackupError extends Error {
+  constructor() {
+    super('The backup is encrypted; enter its passphrase to read it');
+    this.name = 'EncryptedBackupError';
+  }
+}
+
+/**
+ * Export every document, image and snapshot into a single zip archive.
+ * Notes are always exported decrypted; pass a passphrase to encrypt the whole archive.
+ * @param options.passphrase - Encrypt the archive (see encryptArchive in lib/crypto.ts)
+ * @param options.includeComments - Add the comment threads; left out by default
+ * @returns Archive blob
+ */
+export async function exportBackup(options: { passphrase?: string; includeComments?: boolean } = {}): Promise<Blob> {
+  const db = await getDB();
+  const [documentRecords, imageRecords, snapshotRecords, commentRecords] = await Promise.all([
+    db.getAll('documents'),
+    db.getAll('images'),
+    db.getAll('snapshots'),
+    options.includeComments ? db.getAll('comments') : [],
+  ]);
+  const [documents, images, snapshots, comments] = await Promise.all([
+    Promise.all(documentRecords.map(openDocument)),
+    Promise.all(imageRecords.map(openImage)),
+    // Deleted notes' history stays behind: there is no note to restore it into
+    Promise.all(
+      snapshotRecords
+        .filter((record) => documentRecords.some((document) => document.id === record.documentId))
+        .map(openSnapshot)
+    ),
+    Promise.all(commentRecords.map(openCommentThread)),
+  ]);
+
+  const files: Record<string, Uint8Array> = {};
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    documents: [],
+    images: [],
+    snapshots: [],
+    ...(options.includeComments && { comments: [] }),
+  };
+
+  for (const document of documents) {
+    const file = `documents/${document.id}.json`;
+    files[file] = strToU8(JSON.stringify(document.content));
+    manifest.documents.push({
+      id: document.id,
+      title: document.title,
+      createdAt: document.createdAt,
+      updatedAt: document.updatedAt,
+      file,
+    });
+  }
+
+  for (const image of images) {
+    const file = `images/${image.id}`;
+    files[file] = new Uint8Array(await image.blob.arrayBuffer());
+
+    let thumbnail: BackupManifest['images'][number]['thumbnail'];
+    if (image.thumbnail) {
+      thumbnail = { type: image.thumbnail.type, file: `thumbnails/${image.id}` };
+      files[thumbnail.file] = new Uint8Array(await image.thumbnail.arrayBuffer());
+    }
+
+    manifest.images.push({
+      id: image.id,
+      type: image.blob.type,
+      createdAt: image.createdAt,
+      file,
+      thumbnail,
+      width: image.width,
+      height: image.height,
+    });
+  }
+
+  for (const snapshot of snapshots) {
+    const file = `snapshots/${snapshot.id}.json`;
+    files[file] = strToU8(JSON.stringify(snapshot.content));
+    manifest.snapshots.push({
+      id: snapshot.id,
+      documentId: snapshot.documentId,
+      kind: snapshot.kind,
+      createdAt: snapshot.createdAt,
+      file,
+    });
+  }
+
+  for (const thread of comments) {
+    const file = `comments/${thread.id}.json`;
+    files[file] = strToU8(JSON.stringify(thread));
+    manifest.comments?.push({ id: thread.id, documentId: thread.documentId, file });
+  }
+
+  files['manifest.json'] = strToU8(JSON.stringify(manifest, null, 2));
+  const archive = zipSync(files) as Uint8Array<ArrayBuffer>;
+  if (options.passphrase) {
+    return new Blob([await encryptArchive(archive, options.passphrase)], { type: 'application/octet-stream' });
+  }
+  return new Blob([archive], { type: 'application/zip' });
+}
+
+function parseJSONEntry(entries: Unzipped, file: string, problems: string[]): unknown {
+  if (!entries[file]) {
+    problems.push(`Missing file ${file}`);
+    return null;
+  }
+  try {
+    return JSON.parse(strFromU8(entries[file]));
+  } catch {
+    problems.push(`${file} is not valid JSON`);
+    return null;
+  }
+}
+
+function isDocumentContent(value: unknown): value is JSONContent {
+  return typeof value === 'object' && value !== null && (value as JSONContent).type === 'doc';
+}
+
+/**
+ * Read and validate a backup archive without writing anything
+ * @param file - Archive chosen by the user
+ * @param passphrase - Needed for encrypted archives
+ * @throws EncryptedBackupError if the archive is encrypted and there is no passphrase
+ * @throws WrongPassphraseError if the passphrase doesn't decrypt it
+ * @throws BackupValidationError listing every problem found
+ */
+export async function readBackup(file: Blob, passphrase?: string): Promise<ParsedBackup> {
+  let bytes = new Uint8Array(await file.arrayBuffer());
+  if (isEncryptedArchive(bytes)) {
+    if (!passphrase) {
+      throw new EncryptedBackupError();
+    }
+    bytes = await decryptArchive(bytes, passphrase);
+  }
+
+  let entries: Unzipped;
+  try {
+    entries = unzipSync(bytes);
+  } catch {
+    throw new BackupValidationError(['The file is not a zip archive']);
+  }
+
+  const problems: string[] = [];
+  const manifest = parseJSONEntry(entries, 'manifest.json', problems) as BackupManifest | null;
+  if (!manifest || manifest.format !== BACKUP_FORMAT) {
+    throw new BackupValidationError(problems.length ? problems : ['The archive is not a notes backup']);
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new BackupValidationError([`Backup version ${manifest.version} is newer than this app supports`]);
+  }
+  if (
+    ![manifest.documents, manifest.images, manifest.snapshots].every(Array.isArray) ||
+    (manifest.comments !== undefined && !Array.isArray(manifest.comments))
+  ) {
+    throw new BackupValidationError(['The manifest is incomplete']);
+  }
+
+  const documents: NoteDocument[] = [];
+  for (const entry of manifest.documents) {
+    if (typeof entry.id !== 'string' || typeof entry.title !== 'string' || typeof entry.updatedAt !== 'number') {
+      problems.push(`Document entry ${JSON.stringify(entry.id)} has invalid metadata`);
+      continue;
+    }
+    const content = parseJSONEntry(entries, entry.file, problems);
+    if (content !== null && !isDocumentContent(content)) {
+      problems.push(`${entry.file} is not a document`);
+      continue;
+    }
+    documents.push({
+      id: entry.id,
+      title: entry.title,
+      content: content as JSONContent | null,
+      createdAt: entry.createdAt ?? entry.updatedAt,
+      updatedAt: entry.updatedAt,
+    });
+  }
+
+  const images = manifest.images.flatMap((entry) => {
+    if (typeof entry.id !== 'string' || !entries[entry.file]) {
+      problems.push(`Missing image ${entry.id}`);
+      return [];
+    }
+    const thumbnail = entry.thumbnail && entries[entry.thumbnail.file];
+    return [
+      {
+        id: entry.id,
+        blob: new Blob([entries[entry.file] as BlobPart], { type: entry.type }),
+        createdAt: entry.createdAt ?? manifest.exportedAt,
+        thumbnail: thumbnail ? new Blob([thumbnail as BlobPart], { type: entry.thumbnail?.type }) : null,
+        width: entry.width ?? null,
+        height: entry.height ?? null,
+      },
+    ];
+  });
+
+  const documentIds = new Set(documents.map((document) => document.id));
+  const snapshots: DocumentSnapshot[] = [];
+  for (const entry of manifest.snapshots) {
+    if (!documentIds.has(entry.documentId)) {
+      problems.push(`Snapshot ${entry.id} belongs to an unknown document`);
+      continue;
+    }
+    const content = parseJSONEntry(entries, entry.file, problems);
+    if (isDocumentContent(content)) {
+      snapshots.push({
+        id: entry.id,
+        documentId: entry.documentId,
+        content,
+        createdAt: entry.createdAt,
+        kind: entry.kind,
+      });
+    }
+  }
+
+  const comments: CommentThread[] = [];
+  for (const entry of manifest.comments || []) {
+    if (!documentIds.has(entry.documentId)) {
+      problems.push(`Comment ${entry.id} belongs to an unknown document`);
+      continue;
+    }
+    const thread = parseJSONEntry(entries, entry.file, problems) as CommentThread | null;
+    if (thread && !Array.isArray(thread.messages)) {
+      problems.push(`${entry.file} is not a comment thread`);
+      continue;
+    }
+    if (thread) {
+      comments.push({ ...thread, id: entry.id, documentId: entry.documentId });
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new BackupValidationError(problems);
+  }
+
+  return { manifest, documents, images, snapshots, comments };
+}
+
+/**
+ * List imported documents whose IDs already exist locally
+ */
+export async function findBackupConflicts(backup: ParsedBackup): Promise<BackupConflict[]> {
+  const db = await getDB();
+  const conflicts: BackupConflict[] = [];
+
+  for (const document of backup.documents) {
+    const record = await db.get('documents', document.id);
+    const local = record && (await openDocument(record));
+    if (local) {
+      conflicts.push({
+        id: document.id,
+        localTitle: local.title,
+        localUpdatedAt: local.updatedAt,
+        importedTitle: document.title,
+        importedUpdatedAt: document.updatedAt,
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+// Point image nodes at new imageIds after an ID collision
+function remapImageIds(content: JSONContent, imageIds: Map<string, string>): JSONContent {
+  const imageId = content.attrs?.imageId;
+  const attrs = imageId && imageIds.has(imageId) ? { ...content.attrs, imageId: imageIds.get(imageId) } : content.attrs;
+  return {
+    ...content,
+    ...(attrs && { attrs }),
+    ...(content.content && { content: content.content.map((child) => remapImageIds(child, imageIds)) }),
+  };
+}
+
+// Point comment marks at new thread IDs, for a document imported as a copy
+function remapCommentIds(content: JSONContent, threadIds: Map<string, string>): JSONContent {
+  const marks = content.marks?.map((mark) =>
+    mark.type === 'comment' && threadIds.has(mark.attrs?.threadId)
+      ? { ...mark, attrs: { ...mark.attrs, threadId: threadIds.get(mark.attrs?.threadId) } }
+      : mark
+  );
+  return {
+    ...content,
+    ...(marks && { marks }),
+    ...(content.content && { content: content.content.map((child) => remapCommentIds(child, threadIds)) }),
+  };
+}
+
+/**
+ * Restore a validated backup in a single transaction.
+ * In 'replace' mode every local document, image, snapshot and comment is removed first.
+ * @param backup - Result of readBackup
+ * @param mode - Merge into or replace the local library
+ * @param strategy - How to resolve document ID collisions when merging
+ */
+export async function restoreBackup(
+  backup: ParsedBackup,
+  mode: RestoreMode,
+  strategy: ConflictStrategy = 'keep-newer'
+): Promise<RestoreResult> {
+  const db = await getDB();
+  const result: RestoreResult = { documentsAdded: 0, documentsUpdated: 0, documentsSkipped: 0, imagesAdded: 0 };
+
+  // Compare image collisions up front; blobs can't be read inside the transaction
+  const imageIds = new Map<string, string>();
+  const images: ParsedBackup['images'] = [];
+  for (const image of backup.images) {
+    const record = mode === 'merge' ? await db.get('images', image.id) : undefined;
+    const local = record && (await openImage(record));
+    if (!local) {
+      images.push(image);
+    } else if (local.blob.size !== image.blob.size || local.blob.type !== image.blob.type) {
+      const id = generateId('img');
+      imageIds.set(image.id, id);
+      images.push({ ...image, id });
+    }
+  }
+  const remap = (content: JSONContent) => (imageIds.size > 0 ? remapImageIds(content, imageIds) : content);
+
+  // Encrypt everything up front in vault mode; the transaction can't wait on WebCrypto
+  const sealedImages = await Promise.all(images.map(sealImage));
+  const sealedDocuments = await Promise.all(
+    backup.documents.map(async (document) => {
+      const restored = { ...document, content: document.content && remap(document.content) };
+      const keepsBoth = mode === 'merge' && strategy === 'keep-both';
+      // A copy gets its own comment threads, so the two notes' discussions stay apart
+      const threadIds = new Map(
+        keepsBoth
+          ? backup.comments
+              .filter((thread) => thread.documentId === document.id)
+              .map((thread) => [thread.id, generateId('thread')])
+          : []
+      );
+      const copyContent = restored.content && remapCommentIds(restored.content, threadIds);
+      return {
+        record: await sealDocument(restored),
+        // Stored under whichever ID the document ends up with; the ID isn't encrypted
+        searchEntry: await sealSearchEntry(toSearchEntry(document.id, restored.content)),
+        copy: keepsBoth
+          ? await sealDocument({ ...restored, content: copyContent, title: `${document.title} (imported)` })
+          : null,
+        threadIds,
+      };
+    })
+  );
+  const sealedSnapshots = await Promise.all(
+    backup.snapshots.map((snapshot) => sealSnapshot({ ...snapshot, content: remap(snapshot.content) }))
+  );
+  const sealedComments = await Promise.all(backup.comments.map(sealCommentThread));
+
+  const tx = db.transaction(
+    ['documents', 'images', 'snapshots', 'outbox', 'links', 'comments', 'searchIndex'],
+    'readwrite'
+  );
+  const documentStore = tx.objectStore('documents');
+  const linkStore = tx.objectStore('links');
+  const commentStore = tx.objectStore('comments');
+  const snapshotStore = tx.objectStore('snapshots');
+  const outboxStore = tx.objectStore('outbox');
+  const now = Date.now();
+
+  // Server revisions of the documents being replaced, so sync pushes the restore as an update
+  const replacedRevisions = new Map<string, number | undefined>();
+  if (mode === 'replace') {
+    for (const document of await documentStore.getAll()) {
+      replacedRevisions.set(document.id, document.syncedRevision);
+      // Queued as deleted; documents that come back with the backup overwrite this entry below
+      await outboxStore.put({
+        documentId: document.id,
+        queuedAt: now,
+        deleted: true,
+        syncedRevision: document.syncedRevision,
+      });
+    }
+    await Promise.all([
+      documentStore.clear(),
+      tx.objectStore('images').clear(),
+      snapshotStore.clear(),
+      linkStore.clear(),
+      commentStore.clear(),
+      tx.objectStore('searchIndex').clear(),
+    ]);
+  }
+
+  // Imported document ID -> ID it is stored under (or null when skipped)
+  const documentIds = new Map<string, string | null>();
+  // Imported document ID -> new IDs of its comment threads, for documents stored as a copy
+  const copiedThreadIds = new Map<string, Map<string, string>>();
+  for (const [index, document] of backup.documents.entries()) {
+    const local = mode === 'merge' ? await documentStore.get(document.id) : undefined;
+    let id: string | null = document.id;
+    let record = sealedDocuments[index].record;
+
+    if (local) {
+      if (strategy === 'keep-local' || (strategy === 'keep-newer' && local.updatedAt >= document.updatedAt)) {
+        id = null;
+      } else if (strategy === 'keep-both') {
+        id = generateId('doc');
+        record = sealedDocuments[index].copy || record;
+        copiedThreadIds.set(document.id, sealedDocuments[index].threadIds);
+      }
+    }
+
+    documentIds.set(document.id, id);
+    if (!id) {
+      result.documentsSkipped++;
+      continue;
+    }
+
+    await documentStore.put({
+      ...record,
+      id,
+      // Tabs editing the local copy will see a conflict instead of overwriting it
+      revision: id === local?.id ? (local.revision ?? 0) + 1 : 0,
+      syncedRevision: id === local?.id ? local.syncedRevision : replacedRevisions.get(id),
+    });
+    await outboxStore.put({ documentId: id, queuedAt: now, deleted: false });
+    await linkStore.put(toNoteLinks(id, document.content));
+    await tx.objectStore('searchIndex').put({ ...sealedDocuments[index].searchEntry, documentId: id });
+    if (local && id === document.id) {
+      result.documentsUpdated++;
+    } else {
+      result.documentsAdded++;
+    }
+  }
+
+  for (const image of sealedImages) {
+    await tx.objectStore('images').put(image);
+    result.imagesAdded++;
+  }
+
+  for (const snapshot of sealedSnapshots) {
+    const documentId = documentIds.get(snapshot.documentId);
+    if (!documentId) continue;
+    await snapshotStore.put({
+      ...snapshot,
+      id: documentId === snapshot.documentId ? snapshot.id : generateId('snap'),
+      documentId,
+    });
+  }
+
+  for (const thread of sealedComments) {
+    const documentId = documentIds.get(thread.documentId);
+    if (!documentId) continue;
+    const id = copiedThreadIds.get(thread.documentId)?.get(thread.id) ?? thread.id;
+    await commentStore.put({ ...thread, id, documentId });
+  }
+
+  await tx.done;
+  notifyTabs({ type: 'library-changed' });
+  return result;
+}
@@ -0,0 +1,81 @@
+import { CodeBlockLowlight } from '@tiptap/extension-code-block-lowlight';
+import { ReactNodeViewRenderer } from '@tiptap/react';
+import { createLowlight, common } from 'lowlight';
+import CodeBlockView from '@/components/CodeBlockView';
+
+// Highlighting runs in the browser with the grammars bundled into the app, so it works offline
+export const lowlight = createLowlight(common);
+
+/**
+ * Languages offered in a code block's picker. Blocks may carry others (e.g. "js" from an
+ * imported file); lowlight knows many of those by alias.
+ */
+export const CODE_LANGUAGES: { id: string; label: string }[] = [
+  { id: 'plaintext', label: 'Plain text' },
+  { id: 'bash', label: 'Bash' },
+  { id: 'c', label: 'C' },
+  { id: 'cpp', label: 'C++' },
+  { id: 'csharp', label: 'C#' },
+  { id: 'css', label: 'CSS' },
+  { id: 'diff', label: 'Diff' },
+  { id: 'go', label: 'Go' },
+  { id: 'graphql', label: 'GraphQL' },
+  { id: 'xml', label: 'HTML / XML' },
+  { id: 'ini', label: 'INI / TOML' },
+  { id: 'java', label: 'Java' },
+  { id: 'javascript', label: 'JavaScript' },
+  { id: 'json', label: 'JSON' },
+  { id: 'kotlin', label: 'Kotlin' },
+  { id: 'less', label: 'Less' },
+  { id: 'lua', label: 'Lua' },
+  { id: 'makefile', label: 'Makefile' },
+  { id: 'markdown', label: 'Markdown' },
+  { id: 'objectivec', label: 'Objective-C' },
+  { id: 'perl', label: 'Perl' },
+  { id: 'php', label: 'PHP' },
+  { id: 'python', label: 'Python' },
+  { id: 'r', label: 'R' },
+  { id: 'ruby', label: 'Ruby' },
+  { id: 'rust', label: 'Rust' },
+  { id: 'scss', label: 'SCSS' },
+  { id: 'shell', label: 'Shell session' },
+  { id: 'sql', label: 'SQL' },
+  { id: 'swift', label: 'Swift' },
+  { id: 'typescript', label: 'TypeScript' },
+  { id: 'yaml', label: 'YAML' },
+];
+
+/**
+ * Code block with syntax highlighting, a language picker, a copy button and optional line numbers.
+ * Replaces StarterKit's code block; the language is the node's `language` attribute, so it is
+ * saved with the note and written to Markdown fences. Without one the language is guessed.
+ * Tab and Shift-Tab indent and outdent the selected lines.
+ */
+export const CodeBlock = CodeBlockLowlight.extend({
+  addOptions() {
+    return {
+      ...this.parent!(),
+      lowlight,
+      enableTabIndentation: true,
+      tabSize: 2,
+    };
+  },
+
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      lineNumbers: {
+        default: false,
+        // On the <pre>, or on the <code> as written by Markdown import
+        parseHTML: (element) =>
+          element.hasAttribute('data-line-numbers') ||
+          Boolean(element.firstElementChild?.hasAttribute('data-line-numbers')),
+        renderHTML: (attributes) => (attributes.lineNumbers ? { 'data-line-numbers': 'true' } : {}),
+      },
+    };
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(CodeBlockView);
+  },
+});
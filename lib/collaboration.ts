@@ -0,0 +1,213 @@
+import * as Y from 'yjs';
+import { WebsocketProvider } from 'y-websocket';
+import { IndexeddbPersistence, clearDocument } from 'y-indexeddb';
+import { prosemirrorJSONToYXmlFragment } from '@tiptap/y-tiptap';
+import type { Schema } from '@tiptap/pm/model';
+import type { JSONContent } from '@tiptap/react';
+
+/**
+ * Real-time collaboration on a note, opt-in per note.
+ *
+ * A collaborative note is edited as a Yjs CRDT document instead of plain TipTap JSON.
+ * The CRDT state is kept in its own IndexedDB database per note (y-indexeddb), so edits made
+ * offline survive reloads and merge with everyone else's when the WebSocket connection to the
+ * collaboration server (scripts/collab-server.mjs) comes back. The room is the note's ID, so
+ * collaborators need the same note, e.g. through sync or a backup.
+ *
+ * The editor still autosaves the merged content to the documents store, so the library,
+ * history, exports and sync keep working as for any other note.
+ */
+
+export interface CollaborationSettings {
+  serverUrl: string;
+  userName: string;
+  userColor: string;
+}
+
+export interface Collaborator {
+  clientId: number;
+  name: string;
+  color: string;
+}
+
+export interface CollaborationSession {
+  doc: Y.Doc;
+  provider: WebsocketProvider;
+  user: { name: string; color: string };
+}
+
+export const DEFAULT_COLLABORATION_SERVER = 'ws://localhost:1234';
+
+// Colors for cursors and selections; a random one is picked the first time
+export const COLLABORATOR_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#9333ea', '#db2777', '#0891b2'];
+
+const SETTINGS_KEY = 'notes-app-collaboration-settings';
+const NOTES_KEY = 'notes-app-collaborative-notes';
+// Prefix of the y-indexeddb database holding a note's CRDT state
+const DATABASE_PREFIX = 'notes-app-collab-';
+// How long a new session waits for the server before starting from the local note
+const SERVER_SYNC_TIMEOUT = 3000;
+
+/**
+ * Read the collaboration settings saved in localStorage
+ */
+export function getCollaborationSettings(): CollaborationSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (saved) {
+      return JSON.parse(saved);
+    }
+  } catch {
+    // Fall through to fresh defaults
+  }
+  const settings = {
+    serverUrl: DEFAULT_COLLABORATION_SERVER,
+    userName: 'Anonymous',
+    userColor: COLLABORATOR_COLORS[Math.floor(Math.random() * COLLABORATOR_COLORS.length)],
+  };
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  return settings;
+}
+
+/**
+ * Persist collaboration settings to localStorage. Open sessions pick them up when reopened.
+ */
+export function saveCollaborationSettings(settings: CollaborationSettings): void {
+  localStorage.setItem(
+    SETTINGS_KEY,
+    JSON.stringify({ ...settings, serverUrl: settings.serverUrl.trim() || DEFAULT_COLLABORATION_SERVER })
+  );
+}
+
+function getCollaborativeNotes(): string[] {
+  try {
+    return JSON.parse(localStorage.getItem(NOTES_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Whether a note is edited collaboratively in this browser
+ */
+export function isCollaborative(documentId: string): boolean {
+  return getCollaborativeNotes().includes(documentId);
+}
+
+/**
+ * Turn collaboration on or off for a note.
+ * Turning it off drops the local CRDT state; the note itself keeps its last saved content.
+ */
+export async function setCollaborative(documentId: string, enabled: boolean): Promise<void> {
+  const notes = getCollaborativeNotes().filter((id) => id !== documentId);
+  localStorage.setItem(NOTES_KEY, JSON.stringify(enabled ? [...notes, documentId] : notes));
+  if (!enabled) {
+    await clearDocument(`${DATABASE_PREFIX}${documentId}`);
+  }
+}
+
+/**
+ * Drop collaboration state for a deleted note
+ */
+export async function forgetCollaboration(documentId: string): Promise<void> {
+  if (isCollaborative(documentId)) {
+    await setCollaborative(documentId, false);
+  }
+}
+
+/**
+ * Turn collaboration off for every note, dropping all local CRDT state, which is stored unencrypted
+ */
+export async function forgetAllCollaboration(): Promise<void> {
+  const notes = getCollaborativeNotes();
+  localStorage.setItem(NOTES_KEY, JSON.stringify([]));
+  await Promise.all(notes.map((documentId) => clearDocument(`${DATABASE_PREFIX}${documentId}`)));
+}
+
+/**
+ * Whether the session's document has no content yet, so the editor should start it from the saved note
+ */
+export function isSessionEmpty(session: CollaborationSession): boolean {
+  // Collaboration stores the editor content in the 'default' fragment
+  return session.doc.getXmlFragment('default').length === 0;
+}
+
+// Client ID for seeding a note's content: FNV-1a hash of it, so every client seeding the same
+// content writes the same CRDT items
+function seedClientId(content: JSONContent): number {
+  const text = JSON.stringify(content);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Start an empty session's document from the saved note.
+ * The server doesn't keep rooms once everyone leaves, so clients may seed the same note apart, e.g.
+ * offline or one after the other. Seeds of the same content are identical CRDT edits and merge into
+ * one copy instead of showing the note twice.
+ * @param schema - The editor's schema, to convert the content with
+ */
+export function seedSession(session: CollaborationSession, schema: Schema, content: JSONContent): void {
+  if (!isSessionEmpty(session)) return;
+  const seed = new Y.Doc();
+  seed.clientID = seedClientId(content);
+  prosemirrorJSONToYXmlFragment(schema, content, seed.getXmlFragment('default'));
+  Y.applyUpdate(session.doc, Y.encodeStateAsUpdate(seed));
+  seed.destroy();
+}
+
+/**
+ * People currently in the session, including this tab
+ */
+export function getCollaborators(session: CollaborationSession): Collaborator[] {
+  const collaborators: Collaborator[] = [];
+  session.provider.awareness.getStates().forEach((state, clientId) => {
+    if (state.user) {
+      collaborators.push({ clientId, name: state.user.name, color: state.user.color });
+    }
+  });
+  return collaborators;
+}
+
+/**
+ * Open a note's CRDT document: load the local state, then connect to the server.
+ * Resolves once the content is known, so the editor never starts from a half-loaded document.
+ * @returns The session and a function that closes it
+ */
+export async function openCollaborationSession(
+  documentId: string
+): Promise<{ session: CollaborationSession; close: () => void }> {
+  const { serverUrl, userName, userColor } = getCollaborationSettings();
+  const doc = new Y.Doc();
+  const persistence = new IndexeddbPersistence(`${DATABASE_PREFIX}${documentId}`, doc);
+  const provider = new WebsocketProvider(serverUrl, documentId, doc);
+  const close = () => {
+    provider.destroy();
+    persistence.destroy();
+    doc.destroy();
+  };
+
+  try {
+    await persistence.whenSynced;
+    // Nothing stored locally: take the shared version if there is one, rather than seeding a copy
+    if (doc.getXmlFragment('default').length === 0 && !provider.synced) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(done, SERVER_SYNC_TIMEOUT);
+        function done() {
+          clearTimeout(timer);
+          provider.off('sync', done);
+          resolve();
+        }
+        provider.on('sync', done);
+      });
+    }
+  } catch (error) {
+    close();
+    throw error;
+  }
+
+  return { session: { doc, provider, user: { name: userName, color: userColor } }, close };
+}
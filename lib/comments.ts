@@ -0,0 +1,347 @@
+import { Mark, mergeAttributes, type Editor } from '@tiptap/react';
+import { Plugin, PluginKey, TextSelection, type EditorState, type Transaction } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { getDB, generateId, sealCommentThread, openCommentThread, CommentThread } from './storage';
+import { notifyTabs, subscribeToTabs } from './tab-sync';
+
+/**
+ * Comments on ranges of a note.
+ *
+ * The commented range is a 'comment' mark carrying the thread ID, so ProseMirror keeps it on the
+ * right text through edits, undo and collaboration. The thread itself (messages, authors, resolved
+ * or not) lives in the 'comments' store. A thread whose text was deleted stays stored but is not
+ * shown, so undoing the deletion brings it back.
+ */
+
+/**
+ * Where a thread's range is in the document
+ */
+export interface CommentAnchor {
+  threadId: string;
+  from: number;
+  to: number;
+  // The commented text
+  text: string;
+}
+
+interface CommentState {
+  // Threads of the open note: whether each one is resolved
+  threads: Record<string, boolean>;
+  // Thread under the cursor
+  activeId: string | null;
+  // Range just marked for a new comment, waiting for its first message
+  draftId: string | null;
+}
+
+const commentKey = new PluginKey<CommentState>('comments');
+
+type CommentListener = (documentId: string) => void;
+const listeners = new Set<CommentListener>();
+
+function notifyCommentsChanged(documentId: string) {
+  listeners.forEach((listener) => listener(documentId));
+  notifyTabs({ type: 'comments-changed', documentId });
+}
+
+/**
+ * List the comment threads of a document, oldest first
+ */
+export async function listCommentThreads(documentId: string): Promise<CommentThread[]> {
+  try {
+    const db = await getDB();
+    const records = await db.getAllFromIndex('comments', 'by-document', documentId);
+    const threads = await Promise.all(records.map(openCommentThread));
+    return threads.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (error) {
+    console.error('Failed to list comments:', error);
+    return [];
+  }
+}
+
+async function putThread(thread: CommentThread): Promise<void> {
+  const record = await sealCommentThread(thread);
+  const db = await getDB();
+  await db.put('comments', record);
+  notifyCommentsChanged(thread.documentId);
+}
+
+async function updateThread(threadId: string, update: (thread: CommentThread) => CommentThread): Promise<void> {
+  const db = await getDB();
+  const record = await db.get('comments', threadId);
+  if (!record) {
+    throw new Error(`Comment thread not found: ${threadId}`);
+  }
+  await putThread({ ...update(await openCommentThread(record)), updatedAt: Date.now() });
+}
+
+/**
+ * Store the first comment of a thread
+ * @param threadId - ID already on the comment mark (see addComment)
+ */
+export async function createCommentThread(
+  documentId: string,
+  threadId: string,
+  author: string,
+  body: string
+): Promise<CommentThread> {
+  try {
+    const now = Date.now();
+    const thread: CommentThread = {
+      id: threadId,
+      documentId,
+      messages: [{ id: generateId('comment'), author, body, createdAt: now }],
+      resolved: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await putThread(thread);
+    return thread;
+  } catch (error) {
+    console.error('Failed to create comment:', error);
+    throw error;
+  }
+}
+
+/**
+ * Add a reply to a thread. Replying to a resolved thread reopens it.
+ */
+export async function replyToCommentThread(threadId: string, author: string, body: string): Promise<void> {
+  try {
+    await updateThread(threadId, (thread) => ({
+      ...thread,
+      messages: [...thread.messages, { id: generateId('comment'), author, body, createdAt: Date.now() }],
+      resolved: false,
+    }));
+  } catch (error) {
+    console.error('Failed to reply to comment:', error);
+    throw error;
+  }
+}
+
+/**
+ * Resolve or reopen a thread. Resolved threads keep their range but are no longer highlighted.
+ */
+export async function setCommentThreadResolved(threadId: string, resolved: boolean): Promise<void> {
+  try {
+    await updateThread(threadId, (thread) => ({ ...thread, resolved }));
+  } catch (error) {
+    console.error('Failed to update comment:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a thread. Remove its mark from the note as well (see removeComment).
+ */
+export async function deleteCommentThread(thread: CommentThread): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.delete('comments', thread.id);
+    notifyCommentsChanged(thread.documentId);
+  } catch (error) {
+    console.error('Failed to delete comment:', error);
+    throw error;
+  }
+}
+
+/**
+ * Listen for comment threads of a document changing, in this tab or another one
+ * @returns Function that removes the listener
+ */
+export function subscribeToComments(documentId: string, listener: () => void): () => void {
+  const handleChange: CommentListener = (changedId) => {
+    if (changedId === documentId) listener();
+  };
+  listeners.add(handleChange);
+  const unsubscribeTabs = subscribeToTabs((message) => {
+    if (message.type === 'comments-changed') handleChange(message.documentId);
+  });
+  return () => {
+    listeners.delete(handleChange);
+    unsubscribeTabs();
+  };
+}
+
+/**
+ * Ranges of every thread in the document, in document order.
+ * A range split up by edits runs from the first to the last piece.
+ */
+export function findCommentAnchors(doc: ProseMirrorNode): CommentAnchor[] {
+  const anchors = new Map<string, CommentAnchor>();
+  doc.descendants((node, pos) => {
+    if (!node.isInline) return;
+    const text = node.text ?? '';
+    for (const mark of node.marks) {
+      if (mark.type.name !== 'comment' || !mark.attrs.threadId) continue;
+      const anchor = anchors.get(mark.attrs.threadId);
+      if (!anchor) {
+        anchors.set(mark.attrs.threadId, { threadId: mark.attrs.threadId, from: pos, to: pos + node.nodeSize, text });
+      } else {
+        anchor.text += (pos > anchor.to ? ' ' : '') + text;
+        anchor.to = pos + node.nodeSize;
+      }
+    }
+  });
+  return [...anchors.values()];
+}
+
+function removeCommentMarks(tr: Transaction, threadId: string) {
+  tr.doc.descendants((node, pos) => {
+    const mark = node.marks.find(
+      (candidate) => candidate.type.name === 'comment' && candidate.attrs.threadId === threadId
+    );
+    if (mark) tr.removeMark(pos, pos + node.nodeSize, mark);
+  });
+}
+
+export function getCommentState(state: EditorState): CommentState {
+  return commentKey.getState(state) ?? { threads: {}, activeId: null, draftId: null };
+}
+
+/**
+ * Mark the selected text for a new comment. The thread is stored once its first message is
+ * written (createCommentThread); until then it is the draft, dropped again by removeComment.
+ * @returns Whether there was a selection to comment on
+ */
+export function addComment(editor: Editor): boolean {
+  const { state, view } = editor;
+  const { from, to, empty } = state.selection;
+  if (empty) return false;
+
+  const threadId = generateId('thread');
+  const tr = state.tr;
+  // Only one comment is written at a time; an earlier empty draft is dropped
+  const { draftId } = getCommentState(state);
+  if (draftId) removeCommentMarks(tr, draftId);
+  tr.addMark(from, to, state.schema.marks.comment.create({ threadId }));
+  view.dispatch(tr.setMeta(commentKey, { draftId: threadId }));
+  return true;
+}
+
+/**
+ * Take a thread's range out of the note, e.g. after deleting the thread or discarding the draft
+ */
+export function removeComment(editor: Editor, threadId: string): void {
+  const { tr } = editor.state;
+  removeCommentMarks(tr, threadId);
+  if (getCommentState(editor.state).draftId === threadId) tr.setMeta(commentKey, { draftId: null });
+  editor.view.dispatch(tr);
+}
+
+/**
+ * Tell the editor which threads exist and which are resolved, for highlighting
+ */
+export function setCommentThreads(editor: Editor, threads: CommentThread[]): void {
+  const known = Object.fromEntries(threads.map((thread) => [thread.id, thread.resolved]));
+  const { draftId } = getCommentState(editor.state);
+  editor.view.dispatch(
+    editor.state.tr
+      .setMeta(commentKey, { threads: known, ...(draftId && draftId in known && { draftId: null }) })
+      .setMeta('addToHistory', false)
+  );
+}
+
+/**
+ * Put the cursor at the start of a thread's range and scroll it into view
+ */
+export function selectComment(editor: Editor, anchor: CommentAnchor): void {
+  const { state, view } = editor;
+  view.dispatch(state.tr.setSelection(TextSelection.create(state.doc, anchor.from)));
+  view.focus();
+  const { node } = view.domAtPos(anchor.from);
+  (node instanceof Element ? node : node.parentElement)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+}
+
+// Comment under the cursor: a thread that exists or is being written
+function findActiveComment(state: EditorState, known: CommentState): string | null {
+  const { $from } = state.selection;
+  const marks = [...$from.marks(), ...($from.nodeAfter?.marks ?? [])];
+  const mark = marks.find(
+    (candidate) =>
+      candidate.type.name === 'comment' &&
+      (candidate.attrs.threadId in known.threads || candidate.attrs.threadId === known.draftId)
+  );
+  return mark?.attrs.threadId ?? null;
+}
+
+/**
+ * Comment mark: ties a range of text to a comment thread.
+ * Only open threads and the one being written are highlighted; the marks of resolved or
+ * unknown threads render as plain text.
+ */
+export const Comment = Mark.create({
+  name: 'comment',
+  // Typing at either end of a commented range doesn't extend it
+  inclusive: false,
+  // Ranges of different threads may overlap
+  excludes: '',
+
+  addAttributes() {
+    return {
+      threadId: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-comment-id'),
+        renderHTML: (attributes) => ({ 'data-comment-id': attributes.threadId }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-comment-id]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['span', mergeAttributes(HTMLAttributes), 0];
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      'Mod-Alt-m': () => addComment(this.editor),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<CommentState>({
+        key: commentKey,
+        state: {
+          init: () => ({ threads: {}, activeId: null, draftId: null }),
+          apply(tr, value, _oldState, newState) {
+            const meta = tr.getMeta(commentKey) as Partial<CommentState> | undefined;
+            const next = { ...value, ...meta };
+            // Undoing the new comment's mark drops the draft with it
+            const { draftId } = next;
+            const anchors = draftId && tr.docChanged ? findCommentAnchors(newState.doc) : null;
+            if (anchors && !anchors.some((anchor) => anchor.threadId === draftId)) {
+              next.draftId = null;
+            }
+            next.activeId = findActiveComment(newState, next);
+            return next;
+          },
+        },
+        props: {
+          decorations(state) {
+            const { threads, activeId, draftId } = getCommentState(state);
+            const decorations: Decoration[] = [];
+            state.doc.descendants((node, pos) => {
+              if (!node.isInline) return;
+              const shown = node.marks
+                .filter((mark) => mark.type.name === 'comment')
+                .map((mark) => mark.attrs.threadId as string)
+                .filter((threadId) => threadId === draftId || threads[threadId] === false);
+              if (shown.length === 0) return;
+              const isActive = activeId !== null && shown.includes(activeId);
+              decorations.push(
+                Decoration.inline(pos, pos + node.nodeSize, {
+                  class: `comment-highlight${isActive ? ' comment-highlight-active' : ''}`,
+                })
+              );
+            });
+            return DecorationSet.create(state.doc, decorations);
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,198 @@
+/**
+ * WebCrypto primitives for vault mode (see lib/vault.ts).
+ * Notes and images are encrypted with a random AES-GCM data key. The data key is stored
+ * wrapped by a key derived from the passphrase, and only kept unwrapped in memory while unlocked.
+ */
+
+export interface EncryptedPayload {
+  // Fresh random nonce per encryption
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+/**
+ * Data key wrapped with a passphrase-derived key, as stored in the vault settings
+ */
+export interface WrappedKey {
+  salt: Uint8Array<ArrayBuffer>;
+  iterations: number;
+  iv: Uint8Array<ArrayBuffer>;
+  wrappedKey: ArrayBuffer;
+}
+
+/**
+ * Thrown when encrypted data is read or written while the vault is locked
+ */
+export class VaultLockedError extends Error {
+  constructor() {
+    super('The vault is locked');
+    this.name = 'VaultLockedError';
+  }
+}
+
+/**
+ * Thrown when a passphrase doesn't unlock a key or an encrypted backup
+ */
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('The passphrase is not correct');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+// OWASP's recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+// Prefix that identifies an encrypted backup archive
+const ARCHIVE_MAGIC = new TextEncoder().encode('NOTESENC1');
+
+let vaultEnabled = false;
+let dataKey: CryptoKey | null = null;
+
+/**
+ * Set whether new writes are encrypted, and the key used for it (null while locked)
+ */
+export function setVaultKey(enabled: boolean, key: CryptoKey | null): void {
+  vaultEnabled = enabled;
+  dataKey = key;
+}
+
+export function isVaultEnabled(): boolean {
+  return vaultEnabled;
+}
+
+export function isVaultUnlocked(): boolean {
+  return dataKey !== null;
+}
+
+/**
+ * The unlocked data key. Read it before the first await of an async operation,
+ * so an operation that started before a lock can still finish.
+ * @throws VaultLockedError while locked
+ */
+export function requireVaultKey(): CryptoKey {
+  if (!dataKey) {
+    throw new VaultLockedError();
+  }
+  return dataKey;
+}
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']
+  );
+}
+
+/**
+ * Create a new random data key. It is extractable only so it can be wrapped.
+ */
+export function generateDataKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Wrap a data key with a key derived from the passphrase, using a new salt
+ */
+export async function wrapDataKey(key: CryptoKey, passphrase: string): Promise<WrappedKey> {
+  const salt = randomBytes(SALT_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const wrappingKey = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const wrappedKey = await crypto.subtle.wrapKey('raw', key, wrappingKey, { name: 'AES-GCM', iv });
+  return { salt, iterations: PBKDF2_ITERATIONS, iv, wrappedKey };
+}
+
+/**
+ * Recover the data key with the passphrase
+ * @param extractable - Only needed to wrap the key again (e.g. to change the passphrase)
+ * @throws WrongPassphraseError if the passphrase doesn't match
+ */
+export async function unwrapDataKey(wrapped: WrappedKey, passphrase: string, extractable = false): Promise<CryptoKey> {
+  const wrappingKey = await deriveKey(passphrase, wrapped.salt, wrapped.iterations);
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      wrapped.wrappedKey,
+      wrappingKey,
+      { name: 'AES-GCM', iv: wrapped.iv },
+      { name: 'AES-GCM', length: 256 },
+      extractable,
+      ['encrypt', 'decrypt']
+    );
+  } catch {
+    // AES-GCM can't tell a wrong key from tampered data; both fail authentication
+    throw new WrongPassphraseError();
+  }
+}
+
+/**
+ * Encrypt bytes with the data key
+ */
+export async function encryptBytes(data: BufferSource, key: CryptoKey = requireVaultKey()): Promise<EncryptedPayload> {
+  const iv = randomBytes(IV_LENGTH);
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data) };
+}
+
+export function decryptBytes(payload: EncryptedPayload, key: CryptoKey = requireVaultKey()): Promise<ArrayBuffer> {
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: payload.iv }, key, payload.data);
+}
+
+export function encryptJSON(value: unknown, key: CryptoKey = requireVaultKey()): Promise<EncryptedPayload> {
+  return encryptBytes(new TextEncoder().encode(JSON.stringify(value)), key);
+}
+
+export async function decryptJSON<T>(payload: EncryptedPayload, key: CryptoKey = requireVaultKey()): Promise<T> {
+  return JSON.parse(new TextDecoder().decode(await decryptBytes(payload, key)));
+}
+
+/**
+ * Whether the bytes are an archive made by encryptArchive
+ */
+export function isEncryptedArchive(bytes: Uint8Array): boolean {
+  return ARCHIVE_MAGIC.every((byte, index) => bytes[index] === byte);
+}
+
+/**
+ * Encrypt a backup archive with its own passphrase, independent of the vault.
+ * Layout: magic, salt, iv, ciphertext.
+ */
+export async function encryptArchive(bytes: Uint8Array<ArrayBuffer>, passphrase: string): Promise<Uint8Array<ArrayBuffer>> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const { iv, data } = await encryptBytes(bytes, key);
+
+  const header = ARCHIVE_MAGIC.length + SALT_LENGTH + IV_LENGTH;
+  const result = new Uint8Array(header + data.byteLength);
+  result.set(ARCHIVE_MAGIC, 0);
+  result.set(salt, ARCHIVE_MAGIC.length);
+  result.set(iv, ARCHIVE_MAGIC.length + SALT_LENGTH);
+  result.set(new Uint8Array(data), header);
+  return result;
+}
+
+/**
+ * Decrypt an archive made by encryptArchive
+ * @throws WrongPassphraseError if the passphrase doesn't match
+ */
+export async function decryptArchive(bytes: Uint8Array<ArrayBuffer>, passphrase: string): Promise<Uint8Array<ArrayBuffer>> {
+  let offset = ARCHIVE_MAGIC.length;
+  const salt = bytes.slice(offset, (offset += SALT_LENGTH));
+  const iv = bytes.slice(offset, (offset += IV_LENGTH));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  try {
+    return new Uint8Array(await decryptBytes({ iv, data: bytes.slice(offset).buffer }, key));
+  } catch {
+    throw new WrongPassphraseError();
+  }
+}
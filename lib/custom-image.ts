@@ -1,5 +1,18 @@
 import Image from '@tiptap/extension-image';
-import { saveImage, loadImage } from './storage';
+import { ReactNodeViewRenderer, JSONContent } from '@tiptap/react';
+import { ImagePlus } from 'lucide-react';
+import { saveImage, StorageFullError } from './storage';
+import { reportStorageFull } from './quota';
+import { processImage } from './image-pipeline';
+import { registerSlashCommands } from './slash-commands';
+import ImageNodeView from '@/components/ImageNodeView';
+
+export type ImageAlign = 'left' | 'center' | 'right' | 'wrap-left' | 'wrap-right';
+
+const parseDimension = (value: string | null) => {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) ? parsed : null;
+};
 
 /**
  * Custom Image extension that stores images in IndexedDB
@@ -22,7 +35,7 @@ export const CustomImage = Image.extend({
           };
         },
       },
-      // Keep src for display and external images
+      // External images only; stored images get their URL from lib/image-urls.ts
       src: {
         default: null,
       },
@@ -32,14 +45,57 @@ export const CustomImage = Image.extend({
       title: {
         default: null,
       },
+      // Size in pixels, set with the resize handles
+      width: {
+        default: null,
+        parseHTML: (element) => parseDimension(element.getAttribute('width')),
+        renderHTML: (attributes) => (attributes.width ? { width: attributes.width } : {}),
+      },
+      height: {
+        default: null,
+        parseHTML: (element) => parseDimension(element.getAttribute('height')),
+        renderHTML: (attributes) => (attributes.height ? { height: attributes.height } : {}),
+      },
+      align: {
+        default: 'left',
+        parseHTML: (element) => element.getAttribute('data-align') || 'left',
+        renderHTML: (attributes) =>
+          attributes.align && attributes.align !== 'left' ? { 'data-align': attributes.align } : {},
+      },
+      caption: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-caption'),
+        renderHTML: (attributes) => (attributes.caption ? { 'data-caption': attributes.caption } : {}),
+      },
     };
   },
 
+  parseHTML() {
+    return [
+      // Stored images are copied without a src; the node view resolves it from the imageId
+      { tag: 'img[data-image-id]' },
+      ...(this.parent?.() ?? []),
+    ];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(ImageNodeView);
+  },
+
   addCommands() {
     return {
       ...this.parent?.(),
       setImage:
-        (options: { src?: string; alt?: string; title?: string; imageId?: string }) =>
+        (options: {
+          src?: string;
+          alt?: string;
+          title?: string;
+          imageId?: string;
+          width?: number;
+          height?: number;
+          align?: ImageAlign;
+          caption?: string;
+        }) =>
         ({ commands }) => {
           return commands.insertContent({
             type: this.name,
@@ -50,10 +106,18 @@ export const CustomImage = Image.extend({
   },
 });
 
+/**
+ * Run an incoming image through the processing pipeline and store it with its thumbnail
+ */
+async function storeProcessedImage(blob: Blob): Promise<string> {
+  const { blob: processed, thumbnail, width, height } = await processImage(blob);
+  return saveImage(processed, { thumbnail, width, height });
+}
+
 /**
  * Handle image paste from clipboard
  */
-export async function handleImagePaste(event: ClipboardEvent): Promise<{ imageId: string; src: string } | null> {
+export async function handleImagePaste(event: ClipboardEvent): Promise<{ imageId: string } | null> {
   const items = event.clipboardData?.items;
   if (!items) return null;
 
@@ -63,13 +127,11 @@ export async function handleImagePaste(event: ClipboardEvent): Promise<{ imageId
       const blob = item.getAsFile();
       if (blob) {
         try {
-          const imageId = await saveImage(blob);
-          const src = await loadImage(imageId);
-          if (src) {
-            return { imageId, src };
-          }
+          const imageId = await storeProcessedImage(blob);
+          return { imageId };
         } catch (error) {
           console.error('Failed to handle pasted image:', error);
+          if (error instanceof StorageFullError) reportStorageFull(error);
         }
       }
     }
@@ -80,7 +142,7 @@ export async function handleImagePaste(event: ClipboardEvent): Promise<{ imageId
 /**
  * Handle image drop from drag and drop
  */
-export async function handleImageDrop(event: DragEvent): Promise<{ imageId: string; src: string } | null> {
+export async function handleImageDrop(event: DragEvent): Promise<{ imageId: string } | null> {
   const files = event.dataTransfer?.files;
   if (!files || files.length === 0) return null;
 
@@ -88,15 +150,68 @@ export async function handleImageDrop(event: DragEvent): Promise<{ imageId: stri
     const file = files[i];
     if (file.type.indexOf('image') !== -1) {
       try {
-        const imageId = await saveImage(file);
-        const src = await loadImage(imageId);
-        if (src) {
-          return { imageId, src };
-        }
+        const imageId = await storeProcessedImage(file);
+        return { imageId };
       } catch (error) {
         console.error('Failed to handle dropped image:', error);
+        if (error instanceof StorageFullError) reportStorageFull(error);
       }
     }
   }
   return null;
 }
+
+/**
+ * Let the user pick an image file and store it
+ * @returns null when the dialog is cancelled or the image can't be stored
+ */
+export function chooseImage(): Promise<{ imageId: string } | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'image/*';
+    input.addEventListener('cancel', () => resolve(null));
+    input.addEventListener('change', async () => {
+      const file = input.files?.[0];
+      if (!file) return resolve(null);
+      try {
+        resolve({ imageId: await storeProcessedImage(file) });
+      } catch (error) {
+        console.error('Failed to handle uploaded image:', error);
+        if (error instanceof StorageFullError) reportStorageFull(error);
+        resolve(null);
+      }
+    });
+    input.click();
+  });
+}
+
+registerSlashCommands({
+  id: 'image',
+  title: 'Image',
+  description: 'Upload an image from your device',
+  keywords: ['picture', 'photo', 'upload'],
+  icon: ImagePlus,
+  run: (editor, range) => {
+    editor.chain().focus().deleteRange(range).run();
+    chooseImage().then((imageData) => {
+      if (imageData && !editor.isDestroyed) {
+        editor.chain().focus().insertContent({ type: 'image', attrs: { imageId: imageData.imageId } }).run();
+      }
+    });
+  },
+});
+
+/**
+ * Collect the imageIds referenced anywhere in the content
+ */
+export function collectImageIds(content: JSONContent | null | undefined, imageIds = new Set<string>()): Set<string> {
+  if (!content) return imageIds;
+
+  if (content.type === 'image' && content.attrs?.imageId) {
+    imageIds.add(content.attrs.imageId);
+  }
+  content.content?.forEach((child) => collectImageIds(child, imageIds));
+
+  return imageIds;
+}
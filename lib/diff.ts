@@ -0,0 +1,132 @@
+import type { JSONContent } from '@tiptap/react';
+
+export interface WordChange {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface BlockChange {
+  type: 'equal' | 'added' | 'removed' | 'changed';
+  // Block as it appears in the older version (missing for added blocks)
+  before?: JSONContent;
+  // Block as it appears in the newer version (missing for removed blocks)
+  after?: JSONContent;
+  // Word-level changes for 'changed' blocks
+  words?: WordChange[];
+}
+
+/**
+ * Extract the plain text of a node, one line per nested block
+ */
+export function getBlockText(node: JSONContent): string {
+  if (node.type === 'text') return node.text || '';
+  if (node.type === 'image') return `[Image${node.attrs?.alt ? `: ${node.attrs.alt}` : ''}]`;
+  if (node.type === 'hardBreak') return '\n';
+  if (node.type === 'noteLink') return `[[${node.attrs?.title || ''}]]`;
+  if (node.type === 'inlineMath') return `$${node.attrs?.latex || ''}$`;
+  if (node.type === 'blockMath') return `$$${node.attrs?.latex || ''}$$`;
+  if (!node.content) return '';
+
+  const isInline = node.content.every(
+    (child) =>
+      child.type === 'text' || child.type === 'hardBreak' || child.type === 'noteLink' || child.type === 'inlineMath'
+  );
+  return node.content.map(getBlockText).join(isInline ? '' : '\n');
+}
+
+/**
+ * Longest common subsequence over two lists, returned as edit operations
+ */
+function diffSequences<T>(
+  before: T[],
+  after: T[],
+  key: (item: T) => string
+): { type: 'equal' | 'added' | 'removed'; item: T }[] {
+  const beforeKeys = before.map(key);
+  const afterKeys = after.map(key);
+  const lengths: number[][] = Array.from({ length: before.length + 1 }, () =>
+    new Array(after.length + 1).fill(0)
+  );
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        beforeKeys[i] === afterKeys[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const operations: { type: 'equal' | 'added' | 'removed'; item: T }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (beforeKeys[i] === afterKeys[j]) {
+      operations.push({ type: 'equal', item: after[j] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      operations.push({ type: 'removed', item: before[i++] });
+    } else {
+      operations.push({ type: 'added', item: after[j++] });
+    }
+  }
+  while (i < before.length) operations.push({ type: 'removed', item: before[i++] });
+  while (j < after.length) operations.push({ type: 'added', item: after[j++] });
+
+  return operations;
+}
+
+/**
+ * Diff two strings word by word (whitespace is kept with the preceding word)
+ */
+export function diffWords(before: string, after: string): WordChange[] {
+  const tokenize = (text: string) => text.match(/\S+\s*|\s+/g) || [];
+  const changes: WordChange[] = [];
+
+  for (const { type, item } of diffSequences(tokenize(before), tokenize(after), (word) => word)) {
+    const last = changes[changes.length - 1];
+    if (last && last.type === type) {
+      last.text += item;
+    } else {
+      changes.push({ type, text: item });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Diff the top-level blocks of two TipTap documents.
+ * A removed block directly followed by an added block of the same type
+ * is reported as a single 'changed' block with word-level changes.
+ */
+export function diffDocuments(before: JSONContent, after: JSONContent): BlockChange[] {
+  // Object URLs in image src change on every load, so compare without them
+  const blockKey = (block: JSONContent) =>
+    JSON.stringify(block, (key, value) => (key === 'src' ? undefined : value));
+  const operations = diffSequences(before.content || [], after.content || [], blockKey);
+  const changes: BlockChange[] = [];
+
+  for (let index = 0; index < operations.length; index++) {
+    const { type, item } = operations[index];
+    const next = operations[index + 1];
+
+    if (type === 'removed' && next?.type === 'added' && next.item.type === item.type) {
+      changes.push({
+        type: 'changed',
+        before: item,
+        after: next.item,
+        words: diffWords(getBlockText(item), getBlockText(next.item)),
+      });
+      index++;
+    } else if (type === 'removed') {
+      changes.push({ type, before: item });
+    } else if (type === 'added') {
+      changes.push({ type, after: item });
+    } else {
+      changes.push({ type, before: item, after: item });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,28 @@
+/**
+ * Trigger a browser download for a Blob
+ * @param blob - File contents
+ * @param filename - Suggested file name
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Turn a title into a safe file name (without extension)
+ */
+export function toFileName(title: string, fallback = 'note'): string {
+  const name = title
+    .trim()
+    .replace(/[\\/:*?"<>|]+/g, '')
+    .replace(/\s+/g, '-')
+    .slice(0, 80);
+  return name || fallback;
+}
@@ -0,0 +1,128 @@
+import StarterKit from '@tiptap/starter-kit';
+import Underline from '@tiptap/extension-underline';
+import TextAlign from '@tiptap/extension-text-align';
+import { TextStyle } from '@tiptap/extension-text-style';
+import { Color } from '@tiptap/extension-color';
+import Highlight from '@tiptap/extension-highlight';
+import { Table, TableRow, TableHeader, TableCell } from '@tiptap/extension-table';
+import { TaskList } from '@tiptap/extension-list';
+import type { Extensions } from '@tiptap/react';
+import { Table as TableIcon } from 'lucide-react';
+import { CustomImage } from './custom-image';
+import { DetailedTaskItem } from './tasks';
+import { NoteLink } from './note-links';
+import { TableOfContents } from './outline';
+import { Comment } from './comments';
+import { CodeBlock } from './code-block';
+import { InlineMath, BlockMath } from './math';
+import { registerSlashCommands } from './slash-commands';
+
+// Add fontSize support to TextStyle
+const FontSize = TextStyle.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      fontSize: {
+        default: null,
+        parseHTML: (element: HTMLElement) => element.style.fontSize || null,
+        renderHTML: (attributes: any) => {
+          if (!attributes.fontSize) {
+            return {};
+          }
+          return {
+            style: `font-size: ${attributes.fontSize}`,
+          };
+        },
+      },
+    };
+  },
+});
+
+// Cell background color, set from the table controls in the toolbar
+const cellBackground = {
+  backgroundColor: {
+    default: null,
+    parseHTML: (element: HTMLElement) =>
+      element.getAttribute('data-background-color') || element.style.backgroundColor || null,
+    renderHTML: (attributes: Record<string, string | null>) => {
+      if (!attributes.backgroundColor) {
+        return {};
+      }
+      return {
+        'data-background-color': attributes.backgroundColor,
+        style: `background-color: ${attributes.backgroundColor}`,
+      };
+    },
+  },
+};
+
+const ColoredTableCell = TableCell.extend({
+  addAttributes() {
+    return { ...this.parent?.(), ...cellBackground };
+  },
+});
+
+const ColoredTableHeader = TableHeader.extend({
+  addAttributes() {
+    return { ...this.parent?.(), ...cellBackground };
+  },
+});
+
+registerSlashCommands({
+  id: 'table',
+  title: 'Table',
+  description: '3 × 3 table with a header row',
+  keywords: ['grid', 'spreadsheet'],
+  icon: TableIcon,
+  run: (editor, range) =>
+    editor.chain().focus().deleteRange(range).insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run(),
+});
+
+/**
+ * Extensions that make up the editor schema.
+ * Shared by the editor and by anything that parses content outside of it
+ * (e.g. Markdown import), so both agree on nodes, marks and attributes.
+ * @param options.undoRedo - Include the built-in undo history; collaborative editing brings its own
+ */
+export function getEditorExtensions({ undoRedo = true }: { undoRedo?: boolean } = {}): Extensions {
+  return [
+    StarterKit.configure({
+      heading: {
+        levels: [1, 2, 3],
+      },
+      ...(!undoRedo && { undoRedo: false }),
+      // Replaced by the highlighted code block below
+      codeBlock: false,
+    }),
+    Underline,
+    TextAlign.configure({
+      types: ['heading', 'paragraph'],
+    }),
+    FontSize,
+    Color,
+    Highlight.configure({
+      multicolor: true,
+    }),
+    CustomImage.configure({
+      inline: false,
+      allowBase64: true,
+    }),
+    // Column widths are dragged with the handles and stored as colwidth on the cells
+    Table.configure({
+      resizable: true,
+    }),
+    TableRow,
+    ColoredTableHeader,
+    ColoredTableCell,
+    TaskList,
+    DetailedTaskItem.configure({
+      nested: true,
+    }),
+    NoteLink,
+    TableOfContents,
+    Comment,
+    CodeBlock,
+    InlineMath,
+    BlockMath,
+  ];
+}
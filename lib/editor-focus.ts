@@ -0,0 +1,36 @@
+import type { Editor } from '@tiptap/react';
+import { TextSelection } from '@tiptap/pm/state';
+
+/**
+ * A place in a note to jump to, e.g. from the task dashboard.
+ * Nodes are addressed by type and order rather than by position, so a target
+ * found in the stored JSON still points at the right node in the editor.
+ */
+export interface FocusTarget {
+  documentId: string;
+  nodeType: string;
+  // Position among the note's nodes of this type, in document order
+  index: number;
+}
+
+/**
+ * Put the cursor in the target node and scroll it into view
+ * @returns Whether the node was found
+ */
+export function focusNode(editor: Editor, target: Pick<FocusTarget, 'nodeType' | 'index'>): boolean {
+  let position: number | null = null;
+  let count = 0;
+  editor.state.doc.descendants((node, pos) => {
+    if (position !== null) return false;
+    if (node.type.name === target.nodeType && count++ === target.index) {
+      position = pos;
+      return false;
+    }
+  });
+  if (position === null) return false;
+
+  // The nearest place for the cursor inside the node, i.e. the start of its first text block
+  const { from } = TextSelection.near(editor.state.doc.resolve(position + 1));
+  editor.chain().focus().setTextSelection(from).scrollIntoView().run();
+  return true;
+}
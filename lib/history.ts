@@ -0,0 +1,247 @@
+import type { JSONContent } from '@tiptap/react';
+import {
+  getDB,
+  generateId,
+  stripImageUrls,
+  sealSnapshot,
+  openSnapshot,
+  createDocument,
+  DocumentSnapshot,
+  DocumentSummary,
+  DEFAULT_DOCUMENT_TITLE,
+} from './storage';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Minimum time between two automatic snapshots of the same document
+export const SNAPSHOT_INTERVAL = 10 * MINUTE;
+
+// How long a deleted note and its history can still be restored
+export const DELETED_NOTE_RETENTION_DAYS = 30;
+
+/**
+ * A deleted note that can still be restored, from the snapshot taken as it was deleted
+ */
+export interface DeletedNote {
+  documentId: string;
+  title: string;
+  deletedAt: number;
+  snapshotId: string;
+}
+
+/**
+ * Retention rules for automatic snapshots, checked newest to oldest.
+ * Within each window only the newest snapshot per bucket is kept.
+ */
+const RETENTION_RULES = [
+  { maxAge: HOUR, bucket: 0 }, // keep everything from the last hour
+  { maxAge: DAY, bucket: HOUR }, // hourly for a day
+  { maxAge: 30 * DAY, bucket: DAY }, // daily for a month
+];
+
+/**
+ * List snapshots of a document, newest first
+ * @param documentId - Document whose history to list
+ */
+export async function listSnapshots(documentId: string): Promise<DocumentSnapshot[]> {
+  try {
+    const db = await getDB();
+    const records = await db.getAllFromIndex('snapshots', 'by-document', documentId);
+    const snapshots = await Promise.all(records.map(openSnapshot));
+    return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error) {
+    console.error('Failed to list snapshots:', error);
+    return [];
+  }
+}
+
+/**
+ * Store a snapshot of the given content
+ * @param documentId - Document the snapshot belongs to
+ * @param content - TipTap JSON content
+ * @param kind - Why the snapshot was taken
+ */
+export async function createSnapshot(
+  documentId: string,
+  content: JSONContent,
+  kind: DocumentSnapshot['kind'] = 'manual'
+): Promise<DocumentSnapshot> {
+  try {
+    const snapshot: DocumentSnapshot = {
+      id: generateId('snap'),
+      documentId,
+      content: stripImageUrls(content),
+      createdAt: Date.now(),
+      kind,
+    };
+    const record = await sealSnapshot(snapshot);
+
+    const db = await getDB();
+    await db.put('snapshots', record);
+    return snapshot;
+  } catch (error) {
+    console.error('Failed to create snapshot:', error);
+    throw error;
+  }
+}
+
+/**
+ * Take an automatic snapshot if the last one is older than SNAPSHOT_INTERVAL
+ * and the content has changed, then apply the retention rules.
+ * Called after every successful autosave.
+ */
+export async function captureAutoSnapshot(documentId: string, content: JSONContent): Promise<void> {
+  const snapshots = await listSnapshots(documentId);
+  const latest = snapshots[0];
+
+  if (latest) {
+    if (Date.now() - latest.createdAt < SNAPSHOT_INTERVAL) return;
+    if (JSON.stringify(latest.content) === JSON.stringify(content)) return;
+  }
+
+  const snapshot = await createSnapshot(documentId, content, 'auto');
+  await pruneSnapshots([snapshot, ...snapshots]);
+}
+
+/**
+ * Delete a single snapshot
+ * @param snapshotId - Snapshot to delete
+ */
+export async function deleteSnapshot(snapshotId: string): Promise<void> {
+  try {
+    const db = await getDB();
+    await db.delete('snapshots', snapshotId);
+  } catch (error) {
+    console.error('Failed to delete snapshot:', error);
+    throw error;
+  }
+}
+
+/**
+ * Decide which automatic snapshots fall outside the retention rules.
+ * Manual and restore-point snapshots are never pruned.
+ * @param snapshots - Snapshots of one document
+ * @param now - Reference time
+ * @returns Snapshots that should be deleted
+ */
+export function selectSnapshotsToPrune(
+  snapshots: DocumentSnapshot[],
+  now: number = Date.now()
+): DocumentSnapshot[] {
+  const keptBuckets = new Set<string>();
+  const autoSnapshots = snapshots
+    .filter((snapshot) => snapshot.kind === 'auto')
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  return autoSnapshots.filter((snapshot) => {
+    const age = now - snapshot.createdAt;
+    const ruleIndex = RETENTION_RULES.findIndex((rule) => age < rule.maxAge);
+    if (ruleIndex === -1) return true;
+
+    const { bucket } = RETENTION_RULES[ruleIndex];
+    if (bucket === 0) return false;
+
+    // Newest snapshot wins its bucket since the list is sorted newest first
+    const bucketKey = `${ruleIndex}:${Math.floor(snapshot.createdAt / bucket)}`;
+    if (keptBuckets.has(bucketKey)) return true;
+    keptBuckets.add(bucketKey);
+    return false;
+  });
+}
+
+async function pruneSnapshots(snapshots: DocumentSnapshot[]): Promise<void> {
+  const expired = selectSnapshotsToPrune(snapshots);
+  if (expired.length === 0) return;
+
+  try {
+    const db = await getDB();
+    const tx = db.transaction('snapshots', 'readwrite');
+    await Promise.all(expired.map((snapshot) => tx.store.delete(snapshot.id)));
+    await tx.done;
+  } catch (error) {
+    console.error('Failed to prune snapshots:', error);
+  }
+}
+
+/**
+ * Notes deleted within the last DELETED_NOTE_RETENTION_DAYS, newest first
+ */
+export async function listDeletedNotes(): Promise<DeletedNote[]> {
+  try {
+    const db = await getDB();
+    const [records, documentIds] = await Promise.all([db.getAll('snapshots'), db.getAllKeys('documents')]);
+    const existing = new Set(documentIds);
+    const snapshots = await Promise.all(
+      records
+        .filter((record) => record.kind === 'deleted' && !existing.has(record.documentId))
+        .map(openSnapshot)
+    );
+    return snapshots
+      .map((snapshot) => ({
+        documentId: snapshot.documentId,
+        title: snapshot.title || DEFAULT_DOCUMENT_TITLE,
+        deletedAt: snapshot.createdAt,
+        snapshotId: snapshot.id,
+      }))
+      .sort((a, b) => b.deletedAt - a.deletedAt);
+  } catch (error) {
+    console.error('Failed to list deleted notes:', error);
+    return [];
+  }
+}
+
+/**
+ * Bring a deleted note back as a new note with its content as deleted. Its version history moves
+ * to the new note; comments were deleted with it and don't come back.
+ * @returns The restored note
+ */
+export async function restoreDeletedNote(note: DeletedNote): Promise<DocumentSummary> {
+  try {
+    const db = await getDB();
+    const record = await db.get('snapshots', note.snapshotId);
+    if (!record) {
+      throw new Error('The deleted note is no longer available');
+    }
+    const snapshot = await openSnapshot(record);
+    const restored = await createDocument(note.title, snapshot.content);
+
+    const tx = db.transaction('snapshots', 'readwrite');
+    const history = await tx.store.index('by-document').getAll(note.documentId);
+    await Promise.all(
+      history.map((entry) =>
+        // The note now holds what the 'deleted' snapshot did
+        entry.id === note.snapshotId ? tx.store.delete(entry.id) : tx.store.put({ ...entry, documentId: restored.id })
+      )
+    );
+    await tx.done;
+    return restored;
+  } catch (error) {
+    console.error('Failed to restore deleted note:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete the history of notes deleted more than DELETED_NOTE_RETENTION_DAYS ago, so it can't be
+ * restored anymore and its images can be cleaned up
+ * @param now - Reference time
+ */
+export async function purgeDeletedNotes(now: number = Date.now()): Promise<void> {
+  try {
+    const db = await getDB();
+    const deleted = await listDeletedNotes();
+    const expired = deleted.filter((note) => now - note.deletedAt >= DELETED_NOTE_RETENTION_DAYS * DAY);
+    if (expired.length === 0) return;
+
+    const tx = db.transaction('snapshots', 'readwrite');
+    for (const note of expired) {
+      const snapshotIds = await tx.store.index('by-document').getAllKeys(note.documentId);
+      await Promise.all(snapshotIds.map((snapshotId) => tx.store.delete(snapshotId)));
+    }
+    await tx.done;
+  } catch (error) {
+    console.error('Failed to purge deleted notes:', error);
+  }
+}
@@ -0,0 +1,105 @@
+import { getDB, getAllImages, deleteImage, openDocument, openSnapshot } from './storage';
+import { collectImageIds } from './custom-image';
+import { evictImageUrls } from './image-urls';
+import { readJournalContents } from './journal';
+
+// Unreferenced images younger than this are kept, so an undo
+// (or a paste that hasn't been autosaved yet) can still find its blob
+export const IMAGE_GRACE_PERIOD = 24 * 60 * 60 * 1000;
+
+export interface OrphanedImage {
+  id: string;
+  size: number;
+  createdAt: number;
+  // False while the image is still inside the grace period
+  reclaimable: boolean;
+}
+
+export interface ImageUsageReport {
+  imageCount: number;
+  totalBytes: number;
+  referencedCount: number;
+  orphans: OrphanedImage[];
+  reclaimableBytes: number;
+}
+
+/**
+ * Collect every imageId referenced by a saved document, any snapshot in its history, or unsaved
+ * edits in the journal. An image removed from a note stays referenced until its snapshots expire.
+ */
+export async function collectReferencedImageIds(): Promise<Set<string>> {
+  const db = await getDB();
+  const referenced = new Set<string>();
+
+  const documents = await Promise.all((await db.getAll('documents')).map(openDocument));
+  documents.forEach((document) => collectImageIds(document.content, referenced));
+
+  const snapshots = await Promise.all((await db.getAll('snapshots')).map(openSnapshot));
+  snapshots.forEach((snapshot) => collectImageIds(snapshot.content, referenced));
+
+  // Edits not written back yet, by a crashed tab or one that is still open
+  (await readJournalContents()).forEach((content) => collectImageIds(content, referenced));
+
+  return referenced;
+}
+
+/**
+ * Reference-count stored images against documents and history
+ * @param now - Reference time for the grace period
+ */
+export async function analyzeImageUsage(now: number = Date.now()): Promise<ImageUsageReport> {
+  const db = await getDB();
+  const referenced = await collectReferencedImageIds();
+  const report: ImageUsageReport = {
+    imageCount: 0,
+    totalBytes: 0,
+    referencedCount: 0,
+    orphans: [],
+    reclaimableBytes: 0,
+  };
+
+  for (const imageId of await getAllImages()) {
+    const image = await db.get('images', imageId);
+    if (!image) continue;
+
+    const size = image.blob.size + (image.thumbnail?.size || 0);
+    report.imageCount++;
+    report.totalBytes += size;
+
+    if (referenced.has(imageId)) {
+      report.referencedCount++;
+      continue;
+    }
+
+    const reclaimable = now - image.createdAt >= IMAGE_GRACE_PERIOD;
+    report.orphans.push({ id: imageId, size, createdAt: image.createdAt, reclaimable });
+    if (reclaimable) {
+      report.reclaimableBytes += size;
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Delete images that no document or snapshot references and that are past the grace period
+ * @returns Number of images deleted and bytes freed
+ */
+export async function collectGarbage(): Promise<{ deleted: number; bytesFreed: number }> {
+  const report = await analyzeImageUsage();
+  const result = { deleted: 0, bytesFreed: 0 };
+
+  for (const orphan of report.orphans) {
+    if (!orphan.reclaimable) continue;
+    try {
+      await deleteImage(orphan.id);
+      evictImageUrls(orphan.id);
+      result.deleted++;
+      result.bytesFreed += orphan.size;
+    } catch (error) {
+      console.error(`Failed to collect image ${orphan.id}:`, error);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,133 @@
+export interface ImagePipelineSettings {
+  enabled: boolean;
+  // Longest side in pixels; larger images are downscaled
+  maxDimension: number;
+  format: 'image/webp' | 'image/jpeg';
+  // Encoder quality between 0 and 1
+  quality: number;
+  // Longest side of the thumbnail shown until the full image is needed
+  thumbnailSize: number;
+}
+
+export interface ProcessedImage {
+  blob: Blob;
+  thumbnail: Blob | null;
+  width: number | null;
+  height: number | null;
+}
+
+export const DEFAULT_IMAGE_PIPELINE_SETTINGS: ImagePipelineSettings = {
+  enabled: true,
+  maxDimension: 2048,
+  format: 'image/webp',
+  quality: 0.85,
+  thumbnailSize: 320,
+};
+
+const SETTINGS_KEY = 'notes-app-image-pipeline';
+const THUMBNAIL_QUALITY = 0.7;
+
+/**
+ * Read the pipeline settings saved in localStorage
+ */
+export function getImagePipelineSettings(): ImagePipelineSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_IMAGE_PIPELINE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_IMAGE_PIPELINE_SETTINGS;
+  } catch {
+    return DEFAULT_IMAGE_PIPELINE_SETTINGS;
+  }
+}
+
+/**
+ * Persist pipeline settings to localStorage
+ */
+export function saveImagePipelineSettings(settings: ImagePipelineSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Draw the bitmap scaled to fit maxDimension and encode it.
+ * Re-encoding through a canvas drops all metadata, including EXIF and GPS.
+ */
+async function encode(
+  bitmap: ImageBitmap,
+  maxDimension: number,
+  format: ImagePipelineSettings['format'],
+  quality: number
+): Promise<{ blob: Blob; width: number; height: number }> {
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  // JPEG has no alpha channel; paint transparent areas white instead of black
+  if (format === 'image/jpeg') {
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, width, height);
+
+  const toBlob = (type: string) =>
+    new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+
+  let blob = await toBlob(format);
+  // Browsers without a WebP encoder silently return PNG
+  if (!blob || blob.type !== format) {
+    blob = await toBlob('image/jpeg');
+  }
+  if (!blob) {
+    throw new Error('Failed to encode image');
+  }
+
+  return { blob, width, height };
+}
+
+/**
+ * Prepare a pasted or dropped image for storage: cap its size, re-encode it
+ * (which strips EXIF/GPS metadata) and create a thumbnail.
+ * SVGs are stored as-is; GIFs keep their animation but still get a thumbnail.
+ * If anything fails the original blob is stored unchanged.
+ * @param blob - Image from the clipboard or a dropped file
+ * @param settings - Pipeline settings (defaults to the saved settings)
+ */
+export async function processImage(
+  blob: Blob,
+  settings: ImagePipelineSettings = getImagePipelineSettings()
+): Promise<ProcessedImage> {
+  const unchanged: ProcessedImage = { blob, thumbnail: null, width: null, height: null };
+  if (!settings.enabled || blob.type === 'image/svg+xml' || typeof createImageBitmap === 'undefined') {
+    return unchanged;
+  }
+
+  let bitmap: ImageBitmap | null = null;
+  try {
+    // Apply the EXIF orientation before the metadata is dropped
+    bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+
+    const isAnimated = blob.type === 'image/gif';
+    const full = isAnimated
+      ? { blob, width: bitmap.width, height: bitmap.height }
+      : await encode(bitmap, settings.maxDimension, settings.format, settings.quality);
+
+    const needsThumbnail = Math.max(full.width, full.height) > settings.thumbnailSize;
+    const thumbnail = needsThumbnail
+      ? (await encode(bitmap, settings.thumbnailSize, settings.format, THUMBNAIL_QUALITY)).blob
+      : null;
+
+    return { blob: full.blob, thumbnail, width: full.width, height: full.height };
+  } catch (error) {
+    console.error('Image processing failed, storing the original:', error);
+    return unchanged;
+  } finally {
+    bitmap?.close();
+  }
+}
@@ -0,0 +1,75 @@
+import { loadImageBlob, ImageVariant } from './storage';
+
+interface CachedUrl {
+  url: Promise<string | null>;
+  refs: number;
+  revokeTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// Keep released URLs around briefly so undo, re-renders and node moves can reuse them
+const REVOKE_DELAY = 5000;
+
+const cache = new Map<string, CachedUrl>();
+
+const cacheKey = (imageId: string, variant: ImageVariant) => `${imageId}:${variant}`;
+
+/**
+ * Get an object URL for a stored image and take a reference to it.
+ * Every call must be paired with releaseImageUrl once the URL is no longer displayed.
+ * @param imageId - Unique identifier for the image
+ * @param variant - 'thumbnail' falls back to the full image when there is none
+ * @returns Object URL, or null if the image is not stored
+ */
+export function acquireImageUrl(imageId: string, variant: ImageVariant = 'full'): Promise<string | null> {
+  const key = cacheKey(imageId, variant);
+  let entry = cache.get(key);
+
+  if (!entry) {
+    entry = {
+      url: loadImageBlob(imageId, variant).then((blob) => (blob ? URL.createObjectURL(blob) : null)),
+      refs: 0,
+      revokeTimer: null,
+    };
+    cache.set(key, entry);
+  }
+
+  if (entry.revokeTimer) {
+    clearTimeout(entry.revokeTimer);
+    entry.revokeTimer = null;
+  }
+  entry.refs++;
+  return entry.url;
+}
+
+/**
+ * Drop a reference taken with acquireImageUrl.
+ * The URL is revoked once nothing has referenced it for REVOKE_DELAY.
+ */
+export function releaseImageUrl(imageId: string, variant: ImageVariant = 'full'): void {
+  const key = cacheKey(imageId, variant);
+  const entry = cache.get(key);
+  if (!entry) return;
+
+  entry.refs = Math.max(0, entry.refs - 1);
+  if (entry.refs > 0 || entry.revokeTimer) return;
+
+  entry.revokeTimer = setTimeout(() => {
+    cache.delete(key);
+    entry.url.then((url) => url && URL.revokeObjectURL(url));
+  }, REVOKE_DELAY);
+}
+
+/**
+ * Revoke every cached URL for an image right away, e.g. after it has been deleted
+ */
+export function evictImageUrls(imageId: string): void {
+  (['full', 'thumbnail'] as const).forEach((variant) => {
+    const key = cacheKey(imageId, variant);
+    const entry = cache.get(key);
+    if (!entry) return;
+
+    if (entry.revokeTimer) clearTimeout(entry.revokeTimer);
+    cache.delete(key);
+    entry.url.then((url) => url && URL.revokeObjectURL(url));
+  });
+}
@@ -0,0 +1,224 @@
+import type { JSONContent } from '@tiptap/react';
+import {
+  saveDocument,
+  getDocument,
+  createDocument,
+  generateId,
+  wasDocumentDeleted,
+  DocumentConflictError,
+} from './storage';
+import { isVaultEnabled, encryptJSON, decryptJSON, EncryptedPayload } from './crypto';
+
+/**
+ * Write-ahead journal for unsaved edits.
+ * localStorage writes are synchronous, so the latest content survives a closed tab or a crash
+ * even when the IndexedDB save never finished. Entries are replayed on the next load.
+ */
+export interface JournalEntry {
+  documentId: string;
+  content: JSONContent | null;
+  // Vault mode stores the content encrypted, base64-encoded for localStorage
+  sealedContent?: { iv: string; data: string };
+  // Revision the edits were based on, so replaying can detect conflicts
+  baseRevision: number;
+  writtenAt: number;
+  tabId: string;
+}
+
+export interface JournalReplayResult {
+  // Entries saved back into their document
+  restored: number;
+  // Entries saved as a separate note because the document changed or went missing meanwhile
+  copies: number;
+}
+
+const JOURNAL_PREFIX = 'notes-app-journal:';
+const TAB_LOCK_PREFIX = 'notes-app-tab:';
+
+let tabId: string | null = null;
+// Encrypted entries are written in call order, even though encryption is asynchronous
+let sealedWrites: Promise<void> = Promise.resolve();
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+/**
+ * ID of this tab. While the tab is open it holds a Web Lock with this name,
+ * which tells other tabs that its journal entries are still live.
+ */
+function getTabId(): string {
+  if (!tabId) {
+    tabId = generateId('tab');
+    navigator.locks?.request(TAB_LOCK_PREFIX + tabId, () => new Promise<void>(() => {}));
+  }
+  return tabId;
+}
+
+function storeEntry(entry: JournalEntry): boolean {
+  try {
+    localStorage.setItem(JOURNAL_PREFIX + entry.documentId, JSON.stringify(entry));
+    return true;
+  } catch (error) {
+    console.error('Failed to write journal entry:', error);
+    return false;
+  }
+}
+
+/**
+ * Record the latest content of a document. Synchronous, so it is safe in pagehide/beforeunload.
+ * In vault mode the entry is encrypted first, which is asynchronous: an entry written
+ * as the tab closes may not make it to storage.
+ * @returns Whether the entry was written (or queued, in vault mode)
+ */
+export function writeJournal(documentId: string, content: JSONContent, baseRevision: number): boolean {
+  const entry: JournalEntry = { documentId, content, baseRevision, writtenAt: Date.now(), tabId: getTabId() };
+  if (!isVaultEnabled()) {
+    return storeEntry(entry);
+  }
+
+  // Started right away so it uses the key even if the vault locks meanwhile
+  const sealing = encryptJSON(content);
+  sealedWrites = sealedWrites
+    .then(() => sealing)
+    .then(({ iv, data }) => {
+      storeEntry({ ...entry, content: null, sealedContent: { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) } });
+    })
+    .catch((error) => {
+      console.error('Failed to encrypt journal entry:', error);
+    });
+  return true;
+}
+
+// Content of an entry, decrypting it if it was written in vault mode
+async function readEntryContent(entry: JournalEntry): Promise<JSONContent> {
+  if (!entry.sealedContent) return entry.content || { type: 'doc' };
+  const payload: EncryptedPayload = {
+    iv: fromBase64(entry.sealedContent.iv),
+    data: fromBase64(entry.sealedContent.data).buffer,
+  };
+  return decryptJSON<JSONContent>(payload);
+}
+
+/**
+ * Read the journal entry of a document
+ */
+export function readJournal(documentId: string): JournalEntry | null {
+  try {
+    const saved = localStorage.getItem(JOURNAL_PREFIX + documentId);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove a document's journal entry once its content is safely in IndexedDB
+ * @param writtenBefore - Only clear an entry written before this time (i.e. covered by the save)
+ */
+export function clearJournal(documentId: string, writtenBefore = Infinity): void {
+  const entry = readJournal(documentId);
+  if (entry && entry.writtenAt < writtenBefore) {
+    localStorage.removeItem(JOURNAL_PREFIX + documentId);
+  }
+}
+
+/**
+ * Rewrite the entries written in vault mode in plain text, e.g. when vault mode is turned off.
+ * Call it while the key is still set, or they can't be decrypted.
+ */
+export async function unsealJournal(): Promise<void> {
+  // Entries still being encrypted land first
+  await sealedWrites;
+  const keys = Object.keys(localStorage).filter((key) => key.startsWith(JOURNAL_PREFIX));
+  for (const key of keys) {
+    const entry = readJournal(key.slice(JOURNAL_PREFIX.length));
+    if (!entry?.sealedContent) continue;
+    try {
+      const content = await readEntryContent(entry);
+      // A newer entry replaced it while it was decrypted
+      if (readJournal(entry.documentId)?.writtenAt !== entry.writtenAt) continue;
+      storeEntry({ ...entry, content, sealedContent: undefined });
+    } catch (error) {
+      console.error(`Failed to decrypt journal for ${entry.documentId}:`, error);
+    }
+  }
+}
+
+/**
+ * Content of every journal entry, including the unsaved edits of tabs that are still open
+ */
+export async function readJournalContents(): Promise<JSONContent[]> {
+  const contents: JSONContent[] = [];
+  const keys = Object.keys(localStorage).filter((key) => key.startsWith(JOURNAL_PREFIX));
+  for (const key of keys) {
+    const entry = readJournal(key.slice(JOURNAL_PREFIX.length));
+    if (!entry) continue;
+    try {
+      contents.push(await readEntryContent(entry));
+    } catch (error) {
+      console.error(`Failed to read journal for ${entry.documentId}:`, error);
+    }
+  }
+  return contents;
+}
+
+// Tabs that are still open; their entries belong to a running autosave session
+async function getLiveTabIds(): Promise<Set<string>> {
+  const live = new Set<string>([getTabId()]);
+  try {
+    const { held = [] } = (await navigator.locks?.query()) || {};
+    held.forEach((lock) => {
+      if (lock.name?.startsWith(TAB_LOCK_PREFIX)) live.add(lock.name.slice(TAB_LOCK_PREFIX.length));
+    });
+  } catch (error) {
+    console.error('Failed to query open tabs:', error);
+  }
+  return live;
+}
+
+/**
+ * Save journal entries left behind by tabs whose last save never finished.
+ * Entries newer than the stored document are written back; if the document changed
+ * in the meantime or went missing, the journaled content is kept as a separate note.
+ * Entries of notes the user deleted are dropped.
+ */
+export async function replayJournal(): Promise<JournalReplayResult> {
+  const result: JournalReplayResult = { restored: 0, copies: 0 };
+  const liveTabIds = await getLiveTabIds();
+
+  const keys = Object.keys(localStorage).filter((key) => key.startsWith(JOURNAL_PREFIX));
+  for (const key of keys) {
+    const entry = readJournal(key.slice(JOURNAL_PREFIX.length));
+    if (!entry) {
+      localStorage.removeItem(key);
+      continue;
+    }
+    if (liveTabIds.has(entry.tabId)) continue;
+
+    try {
+      const content = await readEntryContent(entry);
+      const stored = await getDocument(entry.documentId);
+      if (!stored) {
+        if (!(await wasDocumentDeleted(entry.documentId))) {
+          await createDocument('Recovered note', content);
+          result.copies++;
+        }
+      } else if (stored.updatedAt < entry.writtenAt) {
+        try {
+          await saveDocument(entry.documentId, content, entry.baseRevision);
+          result.restored++;
+        } catch (error) {
+          if (!(error instanceof DocumentConflictError)) throw error;
+          await createDocument(`${stored.title} (recovered)`, content);
+          result.copies++;
+        }
+      }
+      localStorage.removeItem(key);
+    } catch (error) {
+      // Keep the entry so the next load can try again
+      console.error(`Failed to replay journal for ${entry.documentId}:`, error);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,678 @@
+import MarkdownIt, { type StateCore, type StateBlock, type StateInline, type Token } from 'markdown-it';
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import { generateJSON, generateHTML, JSONContent } from '@tiptap/react';
+import { getEditorExtensions } from './editor-extensions';
+import { collectImageIds } from './custom-image';
+import { saveImage, loadImageBlob, stripComments, CommentThread } from './storage';
+import { toFileName } from './download';
+import { getNoteTitle } from './note-links';
+
+type Mark = NonNullable<JSONContent['marks']>[number];
+
+interface MarkdownOptions {
+  // Path written for images stored in IndexedDB, keyed by imageId
+  imagePaths?: Map<string, string>;
+  // Comment threads to include; without them comments are left out
+  comments?: CommentThread[];
+  // Filled in while serializing: number and text of each comment referenced so far
+  commentReferences?: Map<string, { number: number; text: string }>;
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/svg+xml': 'svg',
+};
+
+// Types of images imported from an archive, by file extension
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+};
+
+// Task details ride along as an HTML comment at the end of the item's first line
+const TASK_DETAILS_PATTERN = /^<!-- task (\{.*\}) -->$/;
+const TASK_MARKER_PATTERN = /^\[([ xX])\](?: |$)/;
+
+// Written after a fence's language for code blocks that show line numbers
+const LINE_NUMBERS_FLAG = 'showLineNumbers';
+
+// $…$ with no space just inside the dollar signs and no digit after, so prices like "$5 or $10" stay text
+const INLINE_MATH_PATTERN = /^\$((?:\\.|[^\s$\\])(?:(?:\\.|[^$\\])*?(?:\\.|[^\s$\\]))?)\$(?!\d)/;
+
+const markdownParser = new MarkdownIt({ html: true });
+markdownParser.core.ruler.after('inline', 'task_lists', taskListRule);
+markdownParser.core.ruler.push('code_line_numbers', codeLineNumbersRule);
+markdownParser.block.ruler.before('fence', 'math_block', mathBlockRule, {
+  alt: ['paragraph', 'reference', 'blockquote', 'list'],
+});
+markdownParser.inline.ruler.after('escape', 'math_inline', mathInlineRule);
+// Marked up the way the equation nodes parse them
+markdownParser.renderer.rules.math_block = (tokens, index) =>
+  `<div data-type="block-math">${markdownParser.utils.escapeHtml(tokens[index].content)}</div>\n`;
+markdownParser.renderer.rules.math_inline = (tokens, index) =>
+  `<span data-type="inline-math">${markdownParser.utils.escapeHtml(tokens[index].content)}</span>`;
+
+/* ------------------------------------------------------------------ */
+/* Export                                                              */
+/* ------------------------------------------------------------------ */
+
+function escapeText(text: string): string {
+  return text
+    .replace(/[\\`*_[\]<>~$]/g, '\\$&')
+    .replace(/&(?=#?[a-zA-Z0-9]+;)/g, '\\&');
+}
+
+/**
+ * Escape characters at the start of a line that would otherwise
+ * turn a paragraph into a heading, quote, list or thematic break
+ */
+function escapeLineStarts(text: string): string {
+  return text.replace(
+    /^(\s*)([#>+=-]|\d+[.)])(?=\s|$|[=-])/gm,
+    (_, indent: string, marker: string) => `${indent}${marker.slice(0, -1)}\\${marker.slice(-1)}`
+  );
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+function codeSpan(text: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map((run) => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+/**
+ * Markdown (or inline HTML when Markdown has no syntax for it) around a mark
+ */
+function markDelimiters(mark: Mark): [string, string] | null {
+  const attrs = mark.attrs || {};
+
+  switch (mark.type) {
+    case 'bold':
+      return ['**', '**'];
+    case 'italic':
+      return ['*', '*'];
+    case 'strike':
+      return ['~~', '~~'];
+    case 'underline':
+      return ['<u>', '</u>'];
+    case 'highlight':
+      return attrs.color
+        ? [`<mark data-color="${escapeAttribute(attrs.color)}" style="background-color: ${escapeAttribute(attrs.color)}">`, '</mark>']
+        : ['<mark>', '</mark>'];
+    case 'textStyle': {
+      const styles = [
+        attrs.color && `color: ${attrs.color}`,
+        attrs.fontSize && `font-size: ${attrs.fontSize}`,
+      ].filter(Boolean);
+      return styles.length > 0 ? [`<span style="${escapeAttribute(styles.join('; '))}">`, '</span>'] : null;
+    }
+    case 'link':
+      return ['[', `](${attrs.href || ''}${attrs.title ? ` "${escapeAttribute(attrs.title)}"` : ''})`];
+    default:
+      return null;
+  }
+}
+
+function isSameMark(a: Mark, b: Mark): boolean {
+  return a.type === b.type && JSON.stringify(a.attrs || {}) === JSON.stringify(b.attrs || {});
+}
+
+function serializeImage(node: JSONContent, options: MarkdownOptions): string {
+  const { imageId, src, alt, title } = node.attrs || {};
+  const path = (imageId && options.imagePaths?.get(imageId)) || src;
+  if (!path || path.startsWith('blob:')) return '';
+
+  // Size, alignment and caption have no Markdown syntax, so write those images as HTML
+  const { width, height, align, caption } = node.attrs || {};
+  if (width || height || (align && align !== 'left') || caption) {
+    const attributes = Object.entries({
+      src: path,
+      alt,
+      title,
+      width,
+      height,
+      'data-align': align !== 'left' ? align : null,
+      'data-caption': caption,
+    })
+      .filter(([, value]) => value !== null && value !== undefined && value !== '')
+      .map(([name, value]) => `${name}="${escapeAttribute(String(value))}"`);
+    return `<img ${attributes.join(' ')}>`;
+  }
+
+  const destination = /[\s()]/.test(path) ? `<${path}>` : path;
+  return `![${escapeText(alt || '')}](${destination}${title ? ` "${escapeAttribute(title)}"` : ''})`;
+}
+
+/**
+ * Reference to a comment at the end of its text, numbered in the order comments appear
+ */
+function commentReference(node: JSONContent, next: JSONContent | undefined, options: MarkdownOptions): string {
+  const { comments, commentReferences } = options;
+  if (!comments || !commentReferences) return '';
+
+  let references = '';
+  for (const mark of node.marks || []) {
+    const threadId = mark.attrs?.threadId;
+    if (mark.type !== 'comment' || !comments.some((thread) => thread.id === threadId)) continue;
+
+    const reference = commentReferences.get(threadId) || { number: commentReferences.size + 1, text: '' };
+    reference.text += node.text || '';
+    commentReferences.set(threadId, reference);
+    // The comment's text goes on in the next node
+    if (next?.marks?.some((nextMark) => nextMark.type === 'comment' && nextMark.attrs?.threadId === threadId)) continue;
+    references += `<sup>[${reference.number}]</sup>`;
+  }
+  return references;
+}
+
+function serializeInline(nodes: JSONContent[] = [], options: MarkdownOptions): string {
+  let output = '';
+  const open: Mark[] = [];
+
+  // Close marks down to the given depth, keeping trailing whitespace outside
+  const closeTo = (depth: number) => {
+    while (open.length > depth) {
+      const mark = open.pop() as Mark;
+      const trailing = output.match(/\s+$/)?.[0] || '';
+      output = output.slice(0, output.length - trailing.length) + markDelimiters(mark)?.[1] + trailing;
+    }
+  };
+
+  for (const [index, node] of nodes.entries()) {
+    const marks = (node.marks || []).filter((mark) => markDelimiters(mark));
+    const isCode = node.marks?.some((mark) => mark.type === 'code');
+
+    let keep = 0;
+    while (keep < open.length && marks.some((mark) => isSameMark(mark, open[keep]))) keep++;
+    closeTo(keep);
+
+    let text = '';
+    if (node.type === 'text') {
+      text = isCode ? codeSpan(node.text || '') : escapeText(node.text || '');
+    } else if (node.type === 'hardBreak') {
+      text = '\\\n';
+    } else if (node.type === 'image') {
+      text = serializeImage(node, options);
+    } else if (node.type === 'noteLink') {
+      // Links point at note IDs, which only mean something in this library or a backup of it
+      text = `<a data-note-link="${escapeAttribute(node.attrs?.documentId || '')}">${escapeText(
+        getNoteTitle(node.attrs?.documentId) ?? node.attrs?.title ?? ''
+      )}</a>`;
+    } else if (node.type === 'inlineMath') {
+      text = `$${node.attrs?.latex || ''}$`;
+    }
+
+    const toOpen = marks.filter((mark) => !open.some((openMark) => isSameMark(openMark, mark)));
+    if (toOpen.length > 0 && text.trim()) {
+      // Leading whitespace stays outside the delimiters, or Markdown won't parse them
+      const leading = text.match(/^\s+/)?.[0] || '';
+      output += leading;
+      text = text.slice(leading.length);
+      for (const mark of toOpen) {
+        output += markDelimiters(mark)?.[0];
+        open.push(mark);
+      }
+    }
+    // References go right after the commented text, before any trailing space
+    const trailing = text.match(/\s+$/)?.[0] || '';
+    output += text.slice(0, text.length - trailing.length) + commentReference(node, nodes[index + 1], options) + trailing;
+  }
+
+  closeTo(0);
+  return output;
+}
+
+function prefixLines(text: string, firstPrefix: string, restPrefix = firstPrefix): string {
+  return text
+    .split('\n')
+    .map((line, index) => {
+      const prefix = index === 0 ? firstPrefix : restPrefix;
+      return line ? prefix + line : prefix.trimEnd();
+    })
+    .join('\n');
+}
+
+function serializeListItem(item: JSONContent, marker: string, options: MarkdownOptions, firstLineEnd = ''): string {
+  const children = item.content || [];
+  const body = children
+    .map((child, index) => {
+      // An ordered list may only interrupt a paragraph when it starts at 1
+      const isTightList =
+        child.type === 'bulletList' ||
+        child.type === 'taskList' ||
+        (child.type === 'orderedList' && (child.attrs?.start ?? 1) === 1);
+      const separator = index === 0 ? '' : isTightList ? '\n' : '\n\n';
+      return separator + serializeBlock(child, options) + (index === 0 ? firstLineEnd : '');
+    })
+    .join('');
+
+  return prefixLines(body, marker, ' '.repeat(marker.length));
+}
+
+/**
+ * A GFM task list item; due date, assignee and priority have no Markdown syntax
+ * and are kept in an HTML comment that the importer reads back
+ */
+function serializeTaskItem(item: JSONContent, options: MarkdownOptions): string {
+  const attrs = item.attrs || {};
+  const details = Object.fromEntries(
+    ['dueDate', 'assignee', 'priority'].filter((key) => attrs[key]).map((key) => [key, attrs[key]])
+  );
+  // A comment ends at the first "-->"
+  const comment = Object.keys(details).length
+    ? ` <!-- task ${JSON.stringify(details).replace(/--|>/g, (match) => (match === '>' ? '\\u003e' : '-\\u002d'))} -->`
+    : '';
+  return serializeListItem(item, attrs.checked ? '- [x] ' : '- [ ] ', options, comment);
+}
+
+/**
+ * Whether a table fits GFM pipe syntax: one header row on top, no merged, resized or colored
+ * cells, and at most one paragraph per cell
+ */
+function isPipeTable(table: JSONContent): boolean {
+  const rows = table.content || [];
+  const width = rows[0]?.content?.length ?? 0;
+  return rows.every(
+    (row, index) =>
+      row.content?.length === width &&
+      row.content.every((cell) => {
+        const attrs = cell.attrs || {};
+        const blocks = cell.content || [];
+        return (
+          (cell.type === 'tableHeader') === (index === 0) &&
+          (attrs.colspan ?? 1) === 1 &&
+          (attrs.rowspan ?? 1) === 1 &&
+          !attrs.colwidth &&
+          !attrs.backgroundColor &&
+          blocks.length <= 1 &&
+          blocks.every((block) => block.type === 'paragraph')
+        );
+      })
+  );
+}
+
+function serializePipeTable(table: JSONContent, options: MarkdownOptions): string {
+  const lines = (table.content || []).map((row) => {
+    const cells = (row.content || []).map((cell) =>
+      serializeInline(cell.content?.[0]?.content, options)
+        .replace(/\\\n/g, '<br>')
+        .replace(/\|/g, '\\|')
+    );
+    return `| ${cells.join(' | ')} |`;
+  });
+  const separator = `| ${(table.content?.[0]?.content || []).map(() => '---').join(' | ')} |`;
+  return [lines[0], separator, ...lines.slice(1)].join('\n');
+}
+
+// Point stored images at their exported files, and drop the ones that weren't exported
+function withImagePaths(node: JSONContent, options: MarkdownOptions): JSONContent | null {
+  if (node.type === 'image' && node.attrs?.imageId) {
+    const path = options.imagePaths?.get(node.attrs.imageId);
+    return path ? { ...node, attrs: { ...node.attrs, imageId: null, src: path } } : null;
+  }
+  if (!node.content) return node;
+  return {
+    ...node,
+    content: node.content
+      .map((child) => withImagePaths(child, options))
+      .filter((child): child is JSONContent => child !== null),
+  };
+}
+
+/**
+ * Tables Markdown can't express are written as HTML on a single line,
+ * so the whole table stays one HTML block and imports back as it was
+ */
+function serializeHtmlTable(table: JSONContent, options: MarkdownOptions): string {
+  // Comments in HTML tables are left out; they would import as comments without threads
+  const doc = { type: 'doc', content: [stripComments(withImagePaths(table, options) || table)] };
+  return generateHTML(doc, getEditorExtensions()).replace(/\n/g, ' ');
+}
+
+function serializeBlock(node: JSONContent, options: MarkdownOptions): string {
+  const attrs = node.attrs || {};
+
+  switch (node.type) {
+    case 'paragraph':
+      // Markdown has no empty paragraph, so keep it as HTML
+      if (!node.content?.length) return '<p></p>';
+      return escapeLineStarts(serializeInline(node.content, options));
+    case 'heading':
+      return `${'#'.repeat(attrs.level || 1)} ${serializeInline(node.content, options).replace(/\\\n/g, ' ')}`;
+    case 'blockquote':
+      return prefixLines(serializeBlocks(node.content, options), '> ');
+    case 'bulletList':
+      return (node.content || []).map((item) => serializeListItem(item, '- ', options)).join('\n');
+    case 'taskList':
+      return (node.content || []).map((item) => serializeTaskItem(item, options)).join('\n');
+    case 'orderedList': {
+      const start = attrs.start ?? 1;
+      return (node.content || [])
+        .map((item, index) => serializeListItem(item, `${start + index}. `, options))
+        .join('\n');
+    }
+    case 'codeBlock': {
+      const code = (node.content || []).map((child) => child.text || '').join('');
+      const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map((run) => run.length));
+      const fence = '`'.repeat(Math.max(3, longestRun + 1));
+      const info = [attrs.language, attrs.lineNumbers && LINE_NUMBERS_FLAG].filter(Boolean).join(' ');
+      return `${fence}${info}\n${code}\n${fence}`;
+    }
+    case 'blockMath':
+      return `$$\n${attrs.latex || ''}\n$$`;
+    case 'horizontalRule':
+      return '---';
+    case 'image':
+      return serializeImage(node, options);
+    case 'table':
+      return isPipeTable(node) ? serializePipeTable(node, options) : serializeHtmlTable(node, options);
+    case 'tableOfContents':
+      // Only a placeholder; the entries are rebuilt from the headings on import
+      return '<nav data-type="table-of-contents"></nav>';
+    default:
+      return node.content ? serializeBlocks(node.content, options) : '';
+  }
+}
+
+function serializeBlocks(nodes: JSONContent[] = [], options: MarkdownOptions): string {
+  return nodes
+    .map((node) => serializeBlock(node, options))
+    .filter((block) => block !== '')
+    .join('\n\n');
+}
+
+const formatCommentTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Numbered list of the referenced comment threads, each with the text it is about and its messages
+ */
+function serializeComments(options: MarkdownOptions): string {
+  const references = options.commentReferences;
+  const threads = (options.comments || [])
+    .filter((thread) => references?.has(thread.id))
+    .sort((a, b) => references!.get(a.id)!.number - references!.get(b.id)!.number);
+  if (threads.length === 0) return '';
+
+  const items = threads.map((thread, index) => {
+    const marker = `${index + 1}. `;
+    const quote = `“${escapeText(references!.get(thread.id)!.text)}”${thread.resolved ? ' (resolved)' : ''}`;
+    const messages = thread.messages.map((message) => {
+      const body = escapeLineStarts(escapeText(message.body)).replace(/\n/g, '\\\n  ');
+      return `- **${escapeText(message.author)}** (${formatCommentTime(message.createdAt)}): ${body}`;
+    });
+    return prefixLines([quote, ...messages].join('\n'), marker, ' '.repeat(marker.length));
+  });
+  return `---\n\n## Comments\n\n${items.join('\n')}`;
+}
+
+/**
+ * Convert TipTap JSON to Markdown.
+ * Underline, highlight and text color have no Markdown syntax and are written as inline HTML,
+ * as are tables with merged, resized or colored cells. Equations are written as $…$ and $$…$$.
+ * Comments are only written when their threads are passed in: the commented text gets a numbered
+ * reference and the threads are listed under a Comments heading at the end.
+ * @param doc - TipTap JSON document
+ * @param options - Paths to use for images stored in IndexedDB, and comment threads to include
+ */
+export function documentToMarkdown(doc: JSONContent, options: MarkdownOptions = {}): string {
+  const withReferences = { ...options, commentReferences: new Map() };
+  const blocks = [serializeBlocks(doc.content, withReferences), serializeComments(withReferences)];
+  return `${blocks.filter(Boolean).join('\n\n')}\n`;
+}
+
+/**
+ * Export a document as Markdown.
+ * Documents with stored images are exported as a zip holding the .md file
+ * and an images/ folder next to it; others as a plain .md file.
+ * @param doc - TipTap JSON document
+ * @param title - Document title, used for the file name
+ * @param options.comments - Comment threads to include (see documentToMarkdown); left out by default
+ */
+export async function exportMarkdown(
+  doc: JSONContent,
+  title: string,
+  { comments }: { comments?: CommentThread[] } = {}
+): Promise<{ blob: Blob; filename: string }> {
+  const baseName = toFileName(title);
+  const imageIds = collectImageIds(doc);
+
+  if (imageIds.size === 0) {
+    return {
+      blob: new Blob([documentToMarkdown(doc, { comments })], { type: 'text/markdown' }),
+      filename: `${baseName}.md`,
+    };
+  }
+
+  const files: Record<string, Uint8Array> = {};
+  const imagePaths = new Map<string, string>();
+
+  for (const imageId of imageIds) {
+    const blob = await loadImageBlob(imageId);
+    if (!blob) continue;
+
+    const path = `images/${imageId}.${IMAGE_EXTENSIONS[blob.type] || 'png'}`;
+    files[path] = new Uint8Array(await blob.arrayBuffer());
+    imagePaths.set(imageId, path);
+  }
+  files[`${baseName}.md`] = strToU8(documentToMarkdown(doc, { imagePaths, comments }));
+
+  return {
+    blob: new Blob([zipSync(files) as BlobPart], { type: 'application/zip' }),
+    filename: `${baseName}.zip`,
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/* Import                                                              */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Turn bullet lists whose items all start with "[ ]" or "[x]" into task lists,
+ * marked up the way the task list extensions parse them
+ */
+function taskListRule(state: StateCore) {
+  const tokens = state.tokens;
+
+  tokens.forEach((listToken, listIndex) => {
+    if (listToken.type !== 'bullet_list_open') return;
+
+    const items: { token: Token; inline: Token; match: RegExpMatchArray }[] = [];
+    for (let index = listIndex + 1; index < tokens.length; index++) {
+      const token = tokens[index];
+      if (token.level === listToken.level && token.type === 'bullet_list_close') break;
+      if (token.level !== listToken.level + 1 || token.type !== 'list_item_open') continue;
+
+      // Escaped brackets are separate text_special tokens, so "\[ \]" stays plain text
+      const inline = tokens[index + 1]?.type === 'paragraph_open' ? tokens[index + 2] : undefined;
+      const first = inline?.children?.[0];
+      const match = first?.type === 'text' ? first.content.match(TASK_MARKER_PATTERN) : null;
+      if (!inline || !first || !match) return;
+      items.push({ token, inline, match });
+    }
+    if (items.length === 0) return;
+
+    listToken.attrSet('data-type', 'taskList');
+    for (const { token, inline, match } of items) {
+      const children = inline.children!;
+      token.attrSet('data-type', 'taskItem');
+      token.attrSet('data-checked', String(match[1] !== ' '));
+      children[0].content = children[0].content.slice(match[0].length);
+
+      const detailsIndex = children.findIndex(
+        (child) => child.type === 'html_inline' && TASK_DETAILS_PATTERN.test(child.content)
+      );
+      if (detailsIndex === -1) continue;
+
+      try {
+        const details = JSON.parse(children[detailsIndex].content.match(TASK_DETAILS_PATTERN)![1]);
+        if (details.dueDate) token.attrSet('data-due-date', String(details.dueDate));
+        if (details.assignee) token.attrSet('data-assignee', String(details.assignee));
+        if (details.priority) token.attrSet('data-priority', String(details.priority));
+      } catch {
+        continue;
+      }
+      children.splice(detailsIndex, 1);
+      const previous = children[detailsIndex - 1];
+      if (previous?.type === 'text') previous.content = previous.content.trimEnd();
+    }
+  });
+}
+
+/**
+ * Take the line numbers flag out of fence info strings, so it isn't read as part of the language,
+ * and mark those code blocks the way the code block extension parses them
+ */
+function codeLineNumbersRule(state: StateCore) {
+  for (const token of state.tokens) {
+    if (token.type !== 'fence') continue;
+    const words = token.info.trim().split(/\s+/);
+    if (!words.includes(LINE_NUMBERS_FLAG)) continue;
+    token.info = words.filter((word) => word !== LINE_NUMBERS_FLAG).join(' ');
+    token.attrSet('data-line-numbers', 'true');
+  }
+}
+
+/**
+ * Equation blocks: "$$" at the start of a line, up to a line ending in "$$"
+ */
+function mathBlockRule(state: StateBlock, startLine: number, endLine: number, silent: boolean): boolean {
+  const start = state.bMarks[startLine] + state.tShift[startLine];
+  // Indented by four spaces it is a code block
+  if (state.sCount[startLine] - state.blkIndent >= 4 || !state.src.startsWith('$$', start)) return false;
+
+  const lineText = (line: number) => state.src.slice(state.bMarks[line] + state.tShift[line], state.eMarks[line]);
+  const first = lineText(startLine).slice(2);
+  let lastLine = startLine;
+  let latex: string;
+  if (first.trimEnd().endsWith('$$')) {
+    latex = first.trimEnd().slice(0, -2);
+  } else {
+    do {
+      lastLine++;
+      if (lastLine >= endLine) return false;
+    } while (!lineText(lastLine).trimEnd().endsWith('$$'));
+    const middle = state.getLines(startLine + 1, lastLine, state.tShift[startLine], false);
+    latex = [first, middle, lineText(lastLine).trimEnd().slice(0, -2)].join('\n');
+  }
+  if (silent) return true;
+
+  const token = state.push('math_block', 'div', 0);
+  token.block = true;
+  token.content = latex.trim();
+  token.map = [startLine, lastLine + 1];
+  state.line = lastLine + 1;
+  return true;
+}
+
+function mathInlineRule(state: StateInline, silent: boolean): boolean {
+  if (state.src[state.pos] !== '$') return false;
+  const match = INLINE_MATH_PATTERN.exec(state.src.slice(state.pos, state.posMax));
+  if (!match) return false;
+
+  if (!silent) state.push('math_inline', 'span', 0).content = match[1];
+  state.pos += match[0].length;
+  return true;
+}
+
+async function mapImages(
+  node: JSONContent,
+  resolveImage: (src: string) => Promise<{ imageId: string } | null>
+): Promise<JSONContent> {
+  if (node.type === 'image' && node.attrs?.src && !node.attrs.imageId) {
+    const resolved = await resolveImage(node.attrs.src);
+    if (resolved) {
+      return { ...node, attrs: { ...node.attrs, src: null, imageId: resolved.imageId } };
+    }
+  }
+
+  if (node.content) {
+    const content: JSONContent[] = [];
+    for (const child of node.content) {
+      content.push(await mapImages(child, resolveImage));
+    }
+    return { ...node, content };
+  }
+
+  return node;
+}
+
+/**
+ * Convert Markdown to TipTap JSON.
+ * Markdown is rendered to HTML and parsed with the editor's own schema,
+ * so inline HTML written by the exporter maps back to the same marks.
+ * @param markdown - Markdown source
+ * @param resolveImage - Optional lookup that stores an image and returns its imageId
+ */
+export async function markdownToDocument(
+  markdown: string,
+  resolveImage?: (src: string) => Promise<{ imageId: string } | null>
+): Promise<JSONContent> {
+  const html = markdownParser.render(markdown);
+  const doc = generateJSON(html, getEditorExtensions()) as JSONContent;
+  return resolveImage ? mapImages(doc, resolveImage) : doc;
+}
+
+function findTitle(doc: JSONContent): string | null {
+  const heading = doc.content?.find((node) => node.type === 'heading');
+  const text = heading?.content?.map((child) => child.text || '').join('').trim();
+  return text || null;
+}
+
+// Image paths in Markdown are usually URL-encoded, but a literal % that isn't an escape is taken as is
+function decodeImagePath(src: string): string {
+  try {
+    return decodeURI(src);
+  } catch {
+    return src;
+  }
+}
+
+/**
+ * Import a .md file, or a .zip holding a .md file and its images.
+ * Images found in the archive are stored in IndexedDB.
+ * @param file - File chosen by the user
+ * @returns Title and TipTap JSON content for a new document
+ */
+export async function importMarkdown(file: File): Promise<{ title: string; content: JSONContent }> {
+  const fileTitle = file.name.replace(/\.(md|markdown|txt|zip)$/i, '');
+
+  if (!/\.zip$/i.test(file.name)) {
+    const content = await markdownToDocument(await file.text());
+    return { title: findTitle(content) || fileTitle, content };
+  }
+
+  const entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  const markdownPath = Object.keys(entries).find((path) => /\.(md|markdown)$/i.test(path));
+  if (!markdownPath) {
+    throw new Error('No Markdown file found in the archive');
+  }
+
+  // Image paths are relative to the .md file
+  const baseDir = markdownPath.includes('/') ? markdownPath.slice(0, markdownPath.lastIndexOf('/') + 1) : '';
+  const content = await markdownToDocument(strFromU8(entries[markdownPath]), async (src) => {
+    const path = baseDir + decodeImagePath(src).replace(/^\.\//, '');
+    const data = entries[path];
+    if (!data) return null;
+
+    const extension = path.split('.').pop()?.toLowerCase() ?? '';
+    const type = IMAGE_TYPES[extension] || 'application/octet-stream';
+    const imageId = await saveImage(new Blob([data as BlobPart], { type }));
+    return { imageId };
+  });
+
+  return { title: findTitle(content) || fileTitle, content };
+}
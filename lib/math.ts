@@ -0,0 +1,189 @@
+import { Node, InputRule, mergeAttributes, ReactNodeViewRenderer, Editor } from '@tiptap/react';
+import { NodeSelection } from '@tiptap/pm/state';
+import katex from 'katex';
+import { Sigma, SquareSigma } from 'lucide-react';
+import { registerSlashCommands } from './slash-commands';
+import MathView from '@/components/MathView';
+
+/**
+ * Equations written in LaTeX: inline ones in the text, and blocks on their own line.
+ * The source is the node's `latex` attribute; KaTeX, bundled with the app, renders it in the
+ * editor, so it works offline and prints as shown. Markdown export writes $…$ and $$…$$.
+ */
+
+export interface RenderedMath {
+  html: string;
+  // KaTeX's explanation when the source isn't valid LaTeX; html is empty then
+  error: string | null;
+}
+
+/**
+ * Render LaTeX to HTML, or explain why it can't be
+ * @param displayMode - Typeset as a block (larger, centered) rather than inline with text
+ */
+export function renderMath(latex: string, displayMode: boolean): RenderedMath {
+  try {
+    return { html: katex.renderToString(latex, { displayMode, throwOnError: true }), error: null };
+  } catch (error) {
+    if (error instanceof katex.ParseError) return { html: '', error: error.rawMessage };
+    return { html: '', error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Insert an equation in place of the selection, which becomes its source, and select it to edit
+ */
+export function insertMath(editor: Editor, displayMode: boolean): boolean {
+  const { from, to, empty } = editor.state.selection;
+  const latex = empty ? '' : editor.state.doc.textBetween(from, to, ' ');
+  const type = editor.schema.nodes[displayMode ? 'blockMath' : 'inlineMath'];
+
+  return editor
+    .chain()
+    .focus()
+    .command(({ tr }) => {
+      const node = type.create({ latex });
+      tr.replaceRangeWith(from, to, node);
+      // A block may have split the paragraph around it, so look for where it ended up
+      let position: number | null = null;
+      tr.doc.descendants((child, pos) => {
+        if (child === node) position = pos;
+        return position === null;
+      });
+      if (position !== null) tr.setSelection(NodeSelection.create(tr.doc, position));
+      return true;
+    })
+    .run();
+}
+
+const latexAttribute = {
+  latex: {
+    default: '',
+    parseHTML: (element: HTMLElement) => element.getAttribute('data-latex') ?? element.textContent ?? '',
+    renderHTML: (attributes: Record<string, string>) => ({ 'data-latex': attributes.latex }),
+  },
+};
+
+/**
+ * Equation inside a line of text. Typing $…$ turns the text between the dollar signs into one,
+ * and Ctrl/Cmd+Shift+M makes one of the selection.
+ */
+export const InlineMath = Node.create({
+  name: 'inlineMath',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return latexAttribute;
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-type="inline-math"]' }];
+  },
+
+  // The source as text, so copies into other apps keep it
+  renderHTML({ node, HTMLAttributes }) {
+    return ['span', mergeAttributes(HTMLAttributes, { 'data-type': 'inline-math' }), node.attrs.latex];
+  },
+
+  renderText({ node }) {
+    return `$${node.attrs.latex}$`;
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(MathView, { as: 'span' });
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      'Mod-Shift-m': () => insertMath(this.editor, false),
+    };
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        // Not after a backslash or another $, and no space just inside the dollar signs, so prices like
+        // "$5 or $10" stay text
+        find: /(^|[^\\$])\$([^\s$]|[^\s$][^$]*[^\s$\\])\$$/,
+        handler: ({ state, range, match }) => {
+          const from = range.from + match[1].length;
+          state.tr.replaceWith(from, range.to, this.type.create({ latex: match[2] }));
+        },
+      }),
+    ];
+  },
+});
+
+/**
+ * Equation on its own line, typeset centered. Typing "$$ " at the start of a paragraph adds one.
+ */
+export const BlockMath = Node.create({
+  name: 'blockMath',
+  group: 'block',
+  atom: true,
+  selectable: true,
+  draggable: true,
+
+  addAttributes() {
+    return latexAttribute;
+  },
+
+  parseHTML() {
+    return [{ tag: 'div[data-type="block-math"]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-type': 'block-math' }), node.attrs.latex];
+  },
+
+  renderText({ node }) {
+    return `$$${node.attrs.latex}$$`;
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(MathView);
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: /^\$\$\s$/,
+        handler: ({ state, range }) => {
+          const { tr } = state;
+          const position = tr.doc.resolve(range.from).before();
+          // The equation goes above what is left of the paragraph, selected so its source can be typed
+          tr.delete(range.from, range.to).insert(position, this.type.create());
+          tr.setSelection(NodeSelection.create(tr.doc, position));
+        },
+      }),
+    ];
+  },
+});
+
+registerSlashCommands(
+  {
+    id: 'blockMath',
+    title: 'Equation',
+    description: 'LaTeX formula on its own line',
+    keywords: ['math', 'latex', 'formula', 'katex'],
+    icon: SquareSigma,
+    run: (editor, range) => {
+      editor.chain().focus().deleteRange(range).run();
+      insertMath(editor, true);
+    },
+  },
+  {
+    id: 'inlineMath',
+    title: 'Inline Equation',
+    description: 'LaTeX formula within the text',
+    keywords: ['math', 'latex', 'formula', 'katex'],
+    icon: Sigma,
+    run: (editor, range) => {
+      editor.chain().focus().deleteRange(range).run();
+      insertMath(editor, false);
+    },
+  }
+);
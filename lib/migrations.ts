@@ -0,0 +1,404 @@
+import { openDB, deleteDB, IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import type { JSONContent } from '@tiptap/react';
+import { isQuotaExceededError, type NotesDB, type NoteDocument } from './storage';
+
+export const DB_NAME = 'notes-app-db';
+// Copy of the database taken right before an upgrade, kept until the upgraded database has opened
+const BACKUP_DB_NAME = 'notes-app-db-backup';
+// Shipped steps must never change, so they keep their own copies of these constants
+// The single document used before the library existed
+const LEGACY_DOCUMENT_ID = 'main-document';
+const LEGACY_DEFAULT_TITLE = 'Untitled note';
+
+type UpgradeTransaction = IDBPTransaction<NotesDB, StoreNames<NotesDB>[], 'versionchange'>;
+
+export interface Migration {
+  // Database version this step upgrades to
+  version: number;
+  description: string;
+  // Runs inside the upgrade transaction; only await requests on `transaction`
+  migrate: (db: IDBPDatabase<NotesDB>, transaction: UpgradeTransaction) => Promise<void> | void;
+}
+
+export interface MigrationProgress {
+  phase: 'backup' | 'migrating' | 'blocked' | 'done';
+  fromVersion: number;
+  toVersion: number;
+  // Index of the running step (1-based) and the number of steps
+  step: number;
+  total: number;
+  description?: string;
+}
+
+/**
+ * Thrown when a migration step fails. The upgrade transaction is aborted,
+ * so the database is left exactly as it was before the upgrade started.
+ */
+export class MigrationError extends Error {
+  constructor(public version: number, public description: string, cause: unknown) {
+    super(`Migration to version ${version} (${description}) failed: ${cause instanceof Error ? cause.message : cause}`, {
+      cause,
+    });
+    this.name = 'MigrationError';
+  }
+}
+
+/**
+ * Derive a title from the first line of text in TipTap JSON
+ */
+function deriveTitle(content: JSONContent | null): string {
+  const firstText = (node: JSONContent | null | undefined): string => {
+    if (!node) return '';
+    if (node.type === 'text') return node.text || '';
+    if (Array.isArray(node.content)) {
+      for (const child of node.content) {
+        const text = firstText(child).trim();
+        if (text) return text;
+      }
+    }
+    return '';
+  };
+
+  const text = firstText(content);
+  return text ? text.slice(0, 80) : LEGACY_DEFAULT_TITLE;
+}
+
+/**
+ * Ordered schema migrations. Never edit a step that has shipped; append a new one instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create the documents and images stores',
+    migrate(db) {
+      if (!db.objectStoreNames.contains('documents')) {
+        db.createObjectStore('documents', { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains('images')) {
+        db.createObjectStore('images', { keyPath: 'id' });
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Turn the single note into a note library',
+    async migrate(db, transaction) {
+      const documents = transaction.objectStore('documents');
+      if (!documents.indexNames.contains('by-updatedAt')) {
+        documents.createIndex('by-updatedAt', 'updatedAt');
+      }
+
+      // v1 stored a single untitled record; give it library metadata
+      const legacy = (await documents.get(LEGACY_DOCUMENT_ID)) as Partial<NoteDocument> | undefined;
+      if (legacy) {
+        await documents.put({
+          ...legacy,
+          id: LEGACY_DOCUMENT_ID,
+          title: legacy.title || deriveTitle(legacy.content || null),
+          content: legacy.content || null,
+          createdAt: legacy.createdAt || legacy.updatedAt || Date.now(),
+          updatedAt: legacy.updatedAt || Date.now(),
+        });
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Add version history',
+    migrate(db) {
+      if (!db.objectStoreNames.contains('snapshots')) {
+        const snapshots = db.createObjectStore('snapshots', { keyPath: 'id' });
+        snapshots.createIndex('by-document', 'documentId');
+      }
+    },
+  },
+  {
+    version: 4,
+    description: 'Add the vault settings store',
+    migrate(db) {
+      if (!db.objectStoreNames.contains('vault')) {
+        db.createObjectStore('vault', { keyPath: 'id' });
+      }
+    },
+  },
+  {
+    version: 5,
+    description: 'Add the sync outbox',
+    migrate(db) {
+      if (!db.objectStoreNames.contains('outbox')) {
+        db.createObjectStore('outbox', { keyPath: 'documentId' });
+      }
+      if (!db.objectStoreNames.contains('syncState')) {
+        db.createObjectStore('syncState', { keyPath: 'id' });
+      }
+    },
+  },
+  {
+    version: 6,
+    description: 'Add the note link index',
+    // No stored note can contain links yet, so there is nothing to index
+    migrate(db) {
+      if (!db.objectStoreNames.contains('links')) {
+        const links = db.createObjectStore('links', { keyPath: 'documentId' });
+        links.createIndex('by-target', 'targets', { multiEntry: true });
+      }
+    },
+  },
+  {
+    version: 7,
+    description: 'Add the comments store',
+    migrate(db) {
+      if (!db.objectStoreNames.contains('comments')) {
+        const comments = db.createObjectStore('comments', { keyPath: 'id' });
+        comments.createIndex('by-document', 'documentId');
+      }
+    },
+  },
+  {
+    version: 8,
+    description: 'Add the full-text search index',
+    // Existing notes may be encrypted, so they are indexed on the first search (see lib/search-index.ts)
+    migrate(db) {
+      if (!db.objectStoreNames.contains('searchIndex')) {
+        const searchIndex = db.createObjectStore('searchIndex', { keyPath: 'documentId' });
+        searchIndex.createIndex('by-term', 'terms', { multiEntry: true });
+      }
+    },
+  },
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+type ProgressListener = (progress: MigrationProgress) => void;
+const progressListeners = new Set<ProgressListener>();
+
+function reportProgress(progress: MigrationProgress) {
+  progressListeners.forEach((listener) => listener(progress));
+}
+
+/**
+ * Listen for backup and migration progress while the database is opened
+ * @returns Function that removes the listener
+ */
+export function subscribeToMigrationProgress(listener: ProgressListener): () => void {
+  progressListeners.add(listener);
+  return () => {
+    progressListeners.delete(listener);
+  };
+}
+
+/**
+ * Run every step after fromVersion up to toVersion inside the upgrade transaction
+ * @throws MigrationError after aborting the transaction
+ */
+async function runMigrations(
+  db: IDBPDatabase<NotesDB>,
+  transaction: UpgradeTransaction,
+  fromVersion: number,
+  toVersion: number
+): Promise<void> {
+  const steps = MIGRATIONS.filter((step) => step.version > fromVersion && step.version <= toVersion);
+
+  for (const [index, step] of steps.entries()) {
+    reportProgress({
+      phase: 'migrating',
+      fromVersion,
+      toVersion,
+      step: index + 1,
+      total: steps.length,
+      description: step.description,
+    });
+    try {
+      await step.migrate(db, transaction);
+    } catch (error) {
+      try {
+        transaction.abort();
+      } catch {
+        // Already aborted by the failed request
+      }
+      throw new MigrationError(step.version, step.description, error);
+    }
+  }
+}
+
+/**
+ * Open the database at `version`, running the migrations it needs.
+ * A failing step aborts the whole upgrade and rejects with its MigrationError.
+ */
+async function openMigrated(
+  version: number,
+  callbacks: { blocking?: () => void } = {}
+): Promise<IDBPDatabase<NotesDB>> {
+  let failure: MigrationError | null = null;
+
+  try {
+    return await openDB<NotesDB>(DB_NAME, version, {
+      upgrade(db, oldVersion, newVersion, transaction) {
+        // A database created empty by probeVersion still needs every step
+        const fromVersion = db.objectStoreNames.length === 0 ? 0 : oldVersion;
+        runMigrations(db, transaction, fromVersion, newVersion ?? version).catch((error) => {
+          failure = error;
+        });
+      },
+      blocked(currentVersion) {
+        reportProgress({ phase: 'blocked', fromVersion: currentVersion, toVersion: version, step: 0, total: 0 });
+      },
+      blocking: callbacks.blocking,
+    });
+  } catch (error) {
+    throw failure || error;
+  }
+}
+
+/**
+ * Read the stored version without upgrading. Opening without a version
+ * creates an empty database when there is none, which counts as version 0.
+ */
+async function probeVersion(): Promise<number> {
+  const db = await openDB(DB_NAME);
+  const version = db.objectStoreNames.length === 0 ? 0 : db.version;
+  db.close();
+  return version;
+}
+
+/**
+ * Copy every record of the database into BACKUP_DB_NAME, replacing any earlier backup
+ */
+async function backupDatabase(version: number): Promise<void> {
+  const source = await openDB(DB_NAME);
+  const storeNames = Array.from(source.objectStoreNames);
+  const records: { store: string; key: IDBValidKey; value: unknown }[] = [];
+
+  try {
+    for (const store of storeNames) {
+      let cursor = await source.transaction(store).store.openCursor();
+      while (cursor) {
+        records.push({ store, key: cursor.key, value: cursor.value });
+        cursor = await cursor.continue();
+      }
+    }
+  } finally {
+    source.close();
+  }
+
+  await deleteDB(BACKUP_DB_NAME);
+  const backup = await openDB(BACKUP_DB_NAME, 1, {
+    upgrade(db) {
+      db.createObjectStore('meta');
+      db.createObjectStore('records', { autoIncrement: true });
+    },
+  });
+  try {
+    const tx = backup.transaction(['meta', 'records'], 'readwrite');
+    await Promise.all([
+      tx.objectStore('meta').put({ version, storeNames, createdAt: Date.now() }, 'info'),
+      ...records.map((record) => tx.objectStore('records').put(record)),
+    ]);
+    await tx.done;
+  } finally {
+    backup.close();
+  }
+}
+
+/**
+ * Open the notes database, upgrading it to DB_VERSION if needed.
+ * Existing data is backed up to a separate database before any migration runs, and the backup is
+ * deleted once the upgrade has succeeded; it is only kept to restore from when a step fails.
+ * When storage is too full for the copy, the upgrade runs without one.
+ * @param callbacks.blocking - Called when another tab needs this connection closed to upgrade
+ * @throws MigrationError if a step fails; the database is rolled back to its previous version
+ */
+export async function openNotesDatabase(callbacks: { blocking?: () => void } = {}): Promise<IDBPDatabase<NotesDB>> {
+  const currentVersion = await probeVersion();
+  if (currentVersion >= DB_VERSION) {
+    const db = await openMigrated(DB_VERSION, callbacks);
+    // Earlier app versions kept the backup after upgrading
+    await discardMigrationBackup();
+    return db;
+  }
+
+  const total = MIGRATIONS.filter((step) => step.version > currentVersion).length;
+  if (currentVersion > 0) {
+    reportProgress({ phase: 'backup', fromVersion: currentVersion, toVersion: DB_VERSION, step: 0, total });
+    try {
+      await backupDatabase(currentVersion);
+    } catch (error) {
+      if (!isQuotaExceededError(error)) throw error;
+      // A second copy doesn't fit; upgrading without one beats not opening at all
+      console.error('Failed to back up the database before upgrading, storage is full:', error);
+      await discardMigrationBackup();
+    }
+  }
+
+  const db = await openMigrated(DB_VERSION, callbacks);
+  await discardMigrationBackup();
+  reportProgress({ phase: 'done', fromVersion: currentVersion, toVersion: DB_VERSION, step: total, total });
+  return db;
+}
+
+/**
+ * Whether a pre-upgrade backup exists
+ * @returns Version and time of the backup, or null
+ */
+export async function getMigrationBackupInfo(): Promise<{ version: number; createdAt: number } | null> {
+  try {
+    const backup = await openDB(BACKUP_DB_NAME);
+    try {
+      if (!backup.objectStoreNames.contains('meta')) return null;
+      return (await backup.get('meta', 'info')) || null;
+    } finally {
+      backup.close();
+    }
+  } catch (error) {
+    console.error('Failed to read migration backup:', error);
+    return null;
+  }
+}
+
+/**
+ * Replace the notes database with the pre-upgrade backup, at the version it was taken from.
+ * The next openNotesDatabase call runs the migrations again.
+ * Close every open connection (see openNotesDatabase's blocking callback) before calling this.
+ */
+export async function restoreMigrationBackup(): Promise<void> {
+  const backup = await openDB(BACKUP_DB_NAME);
+  let info: { version: number; storeNames: string[] } | undefined;
+  let records: { store: string; key: IDBValidKey; value: unknown }[] = [];
+  try {
+    info = await backup.get('meta', 'info');
+    records = await backup.getAll('records');
+  } finally {
+    backup.close();
+  }
+  if (!info) {
+    throw new Error('No migration backup found');
+  }
+
+  await deleteDB(DB_NAME);
+  const db = await openMigrated(info.version);
+  try {
+    // The backup holds raw records from an older schema, so write them untyped
+    const raw = db as unknown as IDBPDatabase;
+    const tx = raw.transaction(info.storeNames, 'readwrite');
+    await Promise.all(
+      records.map(({ store, key, value }) => {
+        const objectStore = tx.objectStore(store);
+        return objectStore.keyPath ? objectStore.put(value) : objectStore.put(value, key);
+      })
+    );
+    await tx.done;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Delete the pre-upgrade backup, e.g. because it holds data that has since been encrypted
+ */
+export async function discardMigrationBackup(): Promise<void> {
+  try {
+    await deleteDB(BACKUP_DB_NAME);
+  } catch (error) {
+    console.error('Failed to delete migration backup:', error);
+  }
+}
@@ -0,0 +1,208 @@
+import { Node, mergeAttributes, ReactNodeViewRenderer, JSONContent } from '@tiptap/react';
+import Suggestion from '@tiptap/suggestion';
+import { PluginKey } from '@tiptap/pm/state';
+import { FileText } from 'lucide-react';
+import { getDB, openDocument, DocumentSummary } from './storage';
+import { getBlockText } from './diff';
+import { fuzzyScore, renderSuggestionMenu } from './slash-commands';
+import type { FocusTarget } from './editor-focus';
+import type { MenuItem } from '@/components/SlashCommandMenu';
+import NoteLinkView from '@/components/NoteLinkView';
+
+// Most notes offered by the "[[" menu at once
+const MAX_SUGGESTIONS = 8;
+
+// Current title of every note, published by the page from the library list
+let noteTitles = new Map<string, string>();
+const titleListeners = new Set<() => void>();
+
+type OpenNoteListener = (documentId: string, focus?: Omit<FocusTarget, 'documentId'>) => void;
+const openNoteListeners = new Set<OpenNoteListener>();
+
+/**
+ * Publish the library's titles; links show them live, so renaming a note updates every link to it
+ */
+export function setNoteTitles(documents: DocumentSummary[]): void {
+  noteTitles = new Map(documents.map((document) => [document.id, document.title]));
+  titleListeners.forEach((listener) => listener());
+}
+
+/**
+ * @returns The note's current title, or null if there is no such note
+ */
+export function getNoteTitle(documentId: string): string | null {
+  return noteTitles.get(documentId) ?? null;
+}
+
+/**
+ * Listen for title changes, and notes being added or removed
+ * @returns Function that removes the listener
+ */
+export function subscribeToNoteTitles(listener: () => void): () => void {
+  titleListeners.add(listener);
+  return () => {
+    titleListeners.delete(listener);
+  };
+}
+
+/**
+ * Ask the page to open a note, optionally with the cursor on one of its nodes
+ */
+export function openNote(documentId: string, focus?: Omit<FocusTarget, 'documentId'>): void {
+  openNoteListeners.forEach((listener) => listener(documentId, focus));
+}
+
+/**
+ * Listen for requests to open a note, e.g. from a link or the backlinks panel
+ * @returns Function that removes the listener
+ */
+export function subscribeToOpenNote(listener: OpenNoteListener): () => void {
+  openNoteListeners.add(listener);
+  return () => {
+    openNoteListeners.delete(listener);
+  };
+}
+
+type NoteSuggestion = MenuItem & { documentId: string };
+
+function findNotes(query: string): NoteSuggestion[] {
+  const matches = [...noteTitles]
+    .map(([documentId, title]) => ({ documentId, title, score: query ? fuzzyScore(query, title) : 0 }))
+    .filter((match) => match.score !== null);
+  if (query) matches.sort((a, b) => b.score! - a.score!);
+
+  return matches
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ documentId, title }) => ({ id: documentId, documentId, title, icon: FileText }));
+}
+
+const noteLinkPluginKey = new PluginKey('noteLinks');
+
+/**
+ * Link to another note by ID. The note's current title is shown, so renaming
+ * it doesn't break the link; `title` is the title when the link was made,
+ * kept for exports and for links to notes that no longer exist.
+ * Typing "[[" opens a menu of notes to link to.
+ */
+export const NoteLink = Node.create({
+  name: 'noteLink',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      documentId: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-note-link'),
+        renderHTML: (attributes) => ({ 'data-note-link': attributes.documentId }),
+      },
+      title: {
+        default: '',
+        parseHTML: (element) => element.textContent || '',
+        renderHTML: () => ({}),
+      },
+    };
+  },
+
+  parseHTML() {
+    // Ahead of the link mark, which would otherwise claim the <a>
+    return [{ tag: 'a[data-note-link]', priority: 100 }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    const title = getNoteTitle(node.attrs.documentId) ?? node.attrs.title;
+    return ['a', mergeAttributes(HTMLAttributes, { href: `#${node.attrs.documentId}` }), title];
+  },
+
+  renderText({ node }) {
+    return `[[${getNoteTitle(node.attrs.documentId) ?? node.attrs.title}]]`;
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(NoteLinkView, { as: 'span' });
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      Suggestion<NoteSuggestion, NoteSuggestion>({
+        editor: this.editor,
+        pluginKey: noteLinkPluginKey,
+        char: '[[',
+        allowSpaces: true,
+        // Also right after a word, e.g. "see[[Plans"
+        allowedPrefixes: null,
+        allow: ({ state, range }) => !state.doc.resolve(range.from).parent.type.spec.code,
+        items: ({ query }) => findNotes(query),
+        command: ({ editor, range, props }) => {
+          editor
+            .chain()
+            .focus()
+            .deleteRange(range)
+            .insertContent([
+              { type: 'noteLink', attrs: { documentId: props.documentId, title: props.title } },
+              { type: 'text', text: ' ' },
+            ])
+            .run();
+        },
+        render: renderSuggestionMenu<NoteSuggestion>('No matching notes'),
+      }),
+    ];
+  },
+});
+
+/**
+ * A note linking to the current one
+ */
+export interface Backlink {
+  documentId: string;
+  title: string;
+  // Text of the block holding the first link, for context
+  excerpt: string;
+  // Position of that link among the note's links, for jumping to it (see lib/editor-focus.ts)
+  index: number;
+}
+
+// First link to documentId in content, with the text around it
+function findLink(content: JSONContent | null, documentId: string): Omit<Backlink, 'documentId' | 'title'> | null {
+  let index = 0;
+  let found: Omit<Backlink, 'documentId' | 'title'> | null = null;
+
+  const walk = (node: JSONContent, block: JSONContent) => {
+    if (found) return;
+    if (node.type === 'noteLink') {
+      if (node.attrs?.documentId === documentId) {
+        found = { excerpt: getBlockText(block).trim(), index };
+      }
+      index++;
+      return;
+    }
+    const isTextblock = node.content?.some((child) => child.type === 'text' || child.type === 'noteLink');
+    node.content?.forEach((child) => walk(child, isTextblock ? node : block));
+  };
+
+  if (content) walk(content, content);
+  return found;
+}
+
+/**
+ * Notes that link to a document, by title, found through the link index
+ */
+export async function getBacklinks(documentId: string): Promise<Backlink[]> {
+  const db = await getDB();
+  const sourceIds = await db.getAllKeysFromIndex('links', 'by-target', documentId);
+  const backlinks: Backlink[] = [];
+
+  for (const sourceId of sourceIds) {
+    if (sourceId === documentId) continue;
+    const record = await db.get('documents', sourceId);
+    if (!record) continue;
+
+    const source = await openDocument(record);
+    const link = findLink(source.content, documentId);
+    if (link) backlinks.push({ documentId: source.id, title: source.title, ...link });
+  }
+
+  return backlinks.sort((a, b) => a.title.localeCompare(b.title));
+}
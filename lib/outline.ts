@@ -0,0 +1,228 @@
+import { Extension, Node, mergeAttributes, ReactNodeViewRenderer, type Editor } from '@tiptap/react';
+import { Plugin, PluginKey, TextSelection, type EditorState, type Transaction } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { ListTree } from 'lucide-react';
+import { registerSlashCommands } from './slash-commands';
+import TableOfContentsView from '@/components/TableOfContentsView';
+
+/**
+ * A heading and the section it starts: everything up to the next heading of the same or a higher level.
+ * Only headings at the top level of the document start sections; one inside a quote or list is part of
+ * the section around it.
+ */
+export interface OutlineEntry {
+  // Position among the outline's headings
+  index: number;
+  level: number;
+  text: string;
+  // Position of the heading, and the end of its section
+  pos: number;
+  end: number;
+  // Whether anything follows the heading within its section
+  hasContent: boolean;
+  collapsed: boolean;
+}
+
+interface CollapseState {
+  // Positions of collapsed headings
+  collapsed: number[];
+}
+
+const collapseKey = new PluginKey<CollapseState>('collapsibleSections');
+
+function getSections(doc: ProseMirrorNode, collapsed: number[] = []): OutlineEntry[] {
+  const headings: { pos: number; node: ProseMirrorNode }[] = [];
+  doc.forEach((node, pos) => {
+    if (node.type.name === 'heading') headings.push({ pos, node });
+  });
+
+  return headings.map(({ pos, node }, index) => {
+    const level = node.attrs.level as number;
+    const next = headings.slice(index + 1).find((heading) => heading.node.attrs.level <= level);
+    const end = next ? next.pos : doc.content.size;
+    return {
+      index,
+      level,
+      text: node.textContent,
+      pos,
+      end,
+      hasContent: end > pos + node.nodeSize,
+      collapsed: collapsed.includes(pos),
+    };
+  });
+}
+
+/**
+ * Headings of the editor's document, in order
+ */
+export function getOutline(state: EditorState): OutlineEntry[] {
+  return getSections(state.doc, collapseKey.getState(state)?.collapsed);
+}
+
+function toggleTransaction(state: EditorState, pos: number): Transaction {
+  const tr = state.tr.setMeta(collapseKey, { toggle: pos });
+  const entry = getOutline(state).find((candidate) => candidate.pos === pos);
+  const headingEnd = pos + (state.doc.nodeAt(pos)?.nodeSize ?? 0);
+  // Bring the cursor out of the section being hidden, to the end of its heading
+  if (entry && !entry.collapsed && state.selection.from > headingEnd && state.selection.from < entry.end) {
+    tr.setSelection(TextSelection.create(tr.doc, headingEnd - 1));
+  }
+  return tr;
+}
+
+/**
+ * Collapse or expand the section under the heading at pos
+ */
+export function toggleSection(editor: Editor, pos: number): void {
+  editor.view.dispatch(toggleTransaction(editor.state, pos));
+}
+
+/**
+ * Put the cursor at the start of a heading and scroll it to the middle of the window
+ */
+export function scrollToHeading(editor: Editor, entry: OutlineEntry): void {
+  const { state, view } = editor;
+  // Moving the cursor into a collapsed section expands it (see CollapsibleSections)
+  view.dispatch(state.tr.setSelection(TextSelection.near(state.doc.resolve(entry.pos + 1))));
+  view.focus();
+  (view.nodeDOM(entry.pos) as HTMLElement | null)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+}
+
+/**
+ * Move a whole section (heading and everything under it) in front of another entry's section
+ * @param toIndex - Entry to move in front of; the number of entries moves it to the end of the document
+ */
+export function moveSection(editor: Editor, fromIndex: number, toIndex: number): void {
+  const entries = getOutline(editor.state);
+  const source = entries[fromIndex];
+  const target = toIndex < entries.length ? entries[toIndex].pos : editor.state.doc.content.size;
+  // Dropping a section onto itself, or onto a heading inside it, changes nothing
+  if (!source || (target >= source.pos && target <= source.end)) return;
+
+  const { tr } = editor.state;
+  const slice = tr.doc.slice(source.pos, source.end);
+  tr.delete(source.pos, source.end);
+  tr.insert(tr.mapping.map(target), slice.content);
+  editor.view.dispatch(tr.scrollIntoView());
+}
+
+function toggleWidget(collapsed: boolean) {
+  return (view: Editor['view'], getPos: () => number | undefined) => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = `section-toggle${collapsed ? ' section-toggle-collapsed' : ''}`;
+    button.contentEditable = 'false';
+    button.title = collapsed ? 'Expand section' : 'Collapse section';
+    button.textContent = '▾';
+    button.addEventListener('mousedown', (event) => {
+      event.preventDefault();
+      const pos = getPos();
+      // The widget sits just inside the heading
+      if (pos !== undefined) view.dispatch(toggleTransaction(view.state, pos - 1));
+    });
+    return button;
+  };
+}
+
+/**
+ * Collapsible sections: a toggle beside each heading hides the rest of its section.
+ * Collapsing only changes the view; nothing is saved.
+ */
+export const CollapsibleSections = Extension.create({
+  name: 'collapsibleSections',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<CollapseState>({
+        key: collapseKey,
+        state: {
+          init: () => ({ collapsed: [] }),
+          apply(tr, value, _oldState, newState) {
+            let collapsed = value.collapsed
+              .map((pos) => tr.mapping.mapResult(pos))
+              .filter((result) => !result.deleted)
+              .map((result) => result.pos);
+
+            const toggle = tr.getMeta(collapseKey)?.toggle as number | undefined;
+            if (toggle !== undefined) {
+              collapsed = collapsed.includes(toggle)
+                ? collapsed.filter((pos) => pos !== toggle)
+                : [...collapsed, toggle];
+            }
+
+            // Keep only headings that still have something to hide, and open the section the cursor moves into
+            const { from } = newState.selection;
+            const sections = getSections(newState.doc, collapsed);
+            return {
+              collapsed: sections
+                .filter(
+                  (entry) =>
+                    entry.collapsed &&
+                    entry.hasContent &&
+                    !(from > entry.pos + newState.doc.nodeAt(entry.pos)!.nodeSize && from < entry.end)
+                )
+                .map((entry) => entry.pos),
+            };
+          },
+        },
+        props: {
+          decorations(state) {
+            const decorations: Decoration[] = [];
+            for (const entry of getOutline(state)) {
+              if (!entry.hasContent) continue;
+              decorations.push(
+                Decoration.widget(entry.pos + 1, toggleWidget(entry.collapsed), {
+                  side: -1,
+                  key: `section-toggle-${entry.collapsed}`,
+                  ignoreSelection: true,
+                })
+              );
+              if (!entry.collapsed) continue;
+
+              const heading = state.doc.nodeAt(entry.pos)!;
+              decorations.push(Decoration.node(entry.pos, entry.pos + heading.nodeSize, { class: 'heading-collapsed' }));
+              state.doc.nodesBetween(entry.pos + heading.nodeSize, entry.end, (node, pos) => {
+                decorations.push(Decoration.node(pos, pos + node.nodeSize, { class: 'section-hidden' }));
+                return false;
+              });
+            }
+            return DecorationSet.create(state.doc, decorations);
+          },
+        },
+      }),
+    ];
+  },
+});
+
+/**
+ * Table of contents block, rebuilt from the document's headings as they change
+ */
+export const TableOfContents = Node.create({
+  name: 'tableOfContents',
+  group: 'block',
+  atom: true,
+  selectable: true,
+  draggable: true,
+
+  parseHTML() {
+    return [{ tag: 'nav[data-type="table-of-contents"]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['nav', mergeAttributes(HTMLAttributes, { 'data-type': 'table-of-contents' })];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(TableOfContentsView);
+  },
+});
+
+registerSlashCommands({
+  id: 'tableOfContents',
+  title: 'Table of Contents',
+  description: 'List of headings that stays up to date',
+  keywords: ['toc', 'outline', 'contents'],
+  icon: ListTree,
+  run: (editor, range) => editor.chain().focus().deleteRange(range).insertContent({ type: 'tableOfContents' }).run(),
+});
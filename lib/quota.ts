@@ -0,0 +1,128 @@
+import { getDB, StorageFullError } from './storage';
+import type { EncryptedPayload } from './crypto';
+
+export type PersistenceState = 'granted' | 'denied' | 'unsupported';
+
+export type QuotaLevel = 'ok' | 'warning' | 'critical';
+
+export interface QuotaStatus {
+  usage: number;
+  quota: number;
+  level: QuotaLevel;
+}
+
+export interface UsageBreakdown {
+  documents: number;
+  images: number;
+  history: number;
+}
+
+// Share of the quota at which the app starts warning
+export const QUOTA_WARNING_RATIO = 0.8;
+export const QUOTA_CRITICAL_RATIO = 0.95;
+
+/**
+ * Ask the browser not to evict this origin's data under storage pressure.
+ * Browsers may grant it silently, prompt, or decide based on engagement.
+ */
+export async function requestPersistentStorage(): Promise<PersistenceState> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) {
+    return 'unsupported';
+  }
+  try {
+    if (await navigator.storage.persisted()) return 'granted';
+    return (await navigator.storage.persist()) ? 'granted' : 'denied';
+  } catch (error) {
+    console.error('Failed to request persistent storage:', error);
+    return 'denied';
+  }
+}
+
+/**
+ * Whether persistent storage has been granted, without asking for it
+ */
+export async function getPersistenceState(): Promise<PersistenceState> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persisted) {
+    return 'unsupported';
+  }
+  try {
+    return (await navigator.storage.persisted()) ? 'granted' : 'denied';
+  } catch {
+    return 'denied';
+  }
+}
+
+export function getQuotaLevel(usage: number, quota: number): QuotaLevel {
+  if (!quota) return 'ok';
+  const ratio = usage / quota;
+  if (ratio >= QUOTA_CRITICAL_RATIO) return 'critical';
+  if (ratio >= QUOTA_WARNING_RATIO) return 'warning';
+  return 'ok';
+}
+
+/**
+ * Current usage and quota for this origin, as estimated by the browser
+ * @returns null when the Storage API isn't available
+ */
+export async function getQuotaStatus(): Promise<QuotaStatus | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return null;
+  }
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota, level: getQuotaLevel(usage, quota) };
+  } catch (error) {
+    console.error('Failed to estimate storage:', error);
+    return null;
+  }
+}
+
+const jsonSize = (value: unknown) => new Blob([JSON.stringify(value)]).size;
+// Encrypted fields hold binary data, which JSON.stringify can't measure
+const payloadSize = (payload?: EncryptedPayload) => (payload ? payload.iv.byteLength + payload.data.byteLength : 0);
+
+/**
+ * Bytes used by note content, image blobs (with thumbnails) and version history.
+ * Sizes are measured from the stored data, so they don't include IndexedDB overhead.
+ */
+export async function getUsageBreakdown(): Promise<UsageBreakdown> {
+  const db = await getDB();
+  const breakdown: UsageBreakdown = { documents: 0, images: 0, history: 0 };
+
+  for (const { sealedTitle, sealedContent, ...document } of await db.getAll('documents')) {
+    breakdown.documents += jsonSize(document) + payloadSize(sealedTitle) + payloadSize(sealedContent);
+  }
+
+  let cursor = await db.transaction('images').store.openCursor();
+  while (cursor) {
+    breakdown.images += cursor.value.blob.size + (cursor.value.thumbnail?.size || 0);
+    cursor = await cursor.continue();
+  }
+
+  for (const { sealedContent, ...snapshot } of await db.getAll('snapshots')) {
+    breakdown.history += jsonSize(snapshot) + payloadSize(sealedContent);
+  }
+
+  return breakdown;
+}
+
+type StorageFullListener = (error: StorageFullError) => void;
+const storageFullListeners = new Set<StorageFullListener>();
+
+/**
+ * Surface a failed write to the app-level storage-full dialog
+ */
+export function reportStorageFull(error: StorageFullError): void {
+  storageFullListeners.forEach((listener) => listener(error));
+}
+
+/**
+ * Listen for writes that failed because storage is full
+ * @returns Function that removes the listener
+ */
+export function subscribeToStorageFull(listener: StorageFullListener): () => void {
+  storageFullListeners.add(listener);
+  return () => {
+    storageFullListeners.delete(listener);
+  };
+}
@@ -0,0 +1,281 @@
+import {
+  getDB,
+  getDocument,
+  listDocuments,
+  toSearchEntry,
+  sealSearchEntry,
+  openSearchEntry,
+  splitWords,
+  SearchBlock,
+  SearchEntry,
+} from './storage';
+import { isVaultEnabled } from './crypto';
+
+/**
+ * Full-text search across notes.
+ *
+ * Every save writes the note's search entry (see toSearchEntry): its distinct words, with a
+ * multiEntry index over them, and the text of each block. A query looks up the notes containing
+ * every one of its words, then reads their blocks to check phrases, rank the notes and cut a
+ * snippet. Encrypted entries can't be looked up by word, so in vault mode all of them are read.
+ */
+
+export interface SnippetPart {
+  text: string;
+  // A matched word
+  highlighted: boolean;
+}
+
+export interface SearchResult {
+  documentId: string;
+  title: string;
+  snippet: SnippetPart[];
+  // Block with the best match, to scroll to (see lib/editor-focus.ts); null if only the title matched
+  block: Pick<SearchBlock, 'nodeType' | 'index'> | null;
+  score: number;
+}
+
+/**
+ * Part of a query: a word, matched as a prefix, or a quoted phrase of whole words
+ */
+interface Needle {
+  terms: string[];
+  prefix: boolean;
+}
+
+interface Occurrence {
+  // Index of the first matched word
+  word: number;
+  length: number;
+  exact: boolean;
+}
+
+type Word = ReturnType<typeof splitWords>[number];
+
+const MAX_RESULTS = 20;
+const SNIPPET_LENGTH = 160;
+// Text shown before the first match in a snippet
+const SNIPPET_LEAD = 40;
+// A word in the title counts this many times as much as one in the text
+const TITLE_WEIGHT = 3;
+// Prefix matches count less than whole words
+const PREFIX_WEIGHT = 0.5;
+
+/**
+ * Split a query into words and "quoted phrases"
+ */
+function parseQuery(query: string): Needle[] {
+  const needles: Needle[] = [];
+  const rest = query.replace(/"([^"]*)("|$)/g, (_match, phrase: string) => {
+    const terms = splitWords(phrase).map((word) => word.term);
+    if (terms.length > 0) needles.push({ terms, prefix: false });
+    return ' ';
+  });
+  const words = new Set(splitWords(rest).map((word) => word.term));
+  words.forEach((term) => needles.push({ terms: [term], prefix: true }));
+  return needles;
+}
+
+function findOccurrences(words: Word[], needle: Needle): Occurrence[] {
+  const occurrences: Occurrence[] = [];
+  const { terms, prefix } = needle;
+  for (let i = 0; i + terms.length <= words.length; i++) {
+    if (prefix) {
+      if (words[i].term.startsWith(terms[0])) {
+        occurrences.push({ word: i, length: 1, exact: words[i].term === terms[0] });
+      }
+    } else if (terms.every((term, j) => words[i + j].term === term)) {
+      occurrences.push({ word: i, length: terms.length, exact: true });
+    }
+  }
+  return occurrences;
+}
+
+function hasTerms(terms: string[], needle: Needle): boolean {
+  return needle.terms.every((term) =>
+    terms.some((candidate) => (needle.prefix ? candidate.startsWith(term) : candidate === term))
+  );
+}
+
+/**
+ * Index notes that have no search entry yet: the ones stored before the index existed
+ */
+async function indexMissingDocuments(): Promise<void> {
+  const db = await getDB();
+  const [documentIds, indexedIds] = await Promise.all([db.getAllKeys('documents'), db.getAllKeys('searchIndex')]);
+  const indexed = new Set(indexedIds);
+
+  for (const documentId of documentIds) {
+    if (indexed.has(documentId)) continue;
+    const document = await getDocument(documentId);
+    if (!document) continue;
+    const entry = await sealSearchEntry(toSearchEntry(documentId, document.content));
+
+    const tx = db.transaction('searchIndex', 'readwrite');
+    // A save in the meantime has written a newer entry
+    if (!(await tx.store.getKey(documentId))) await tx.store.put(entry);
+    await tx.done;
+  }
+}
+
+/**
+ * Notes whose indexed words contain the needle, without reading their entries
+ */
+async function lookUp(needle: Needle): Promise<Set<string>> {
+  const db = await getDB();
+  const found = await Promise.all(
+    needle.terms.map(async (term) => {
+      const range = needle.prefix ? IDBKeyRange.bound(term, `${term}\uffff`) : IDBKeyRange.only(term);
+      return new Set(await db.getAllKeysFromIndex('searchIndex', 'by-term', range));
+    })
+  );
+  return new Set([...found[0]].filter((id) => found.every((ids) => ids.has(id))));
+}
+
+/**
+ * Entries of the notes that may match every needle, in the title or the text, and for each
+ * needle the number of notes it occurs in
+ */
+async function findCandidates(
+  needles: Needle[],
+  titleWords: Map<string, Word[]>
+): Promise<{ entries: SearchEntry[]; counts: number[] }> {
+  const db = await getDB();
+  const inTitle = (needle: Needle) =>
+    [...titleWords].filter(([, words]) => findOccurrences(words, needle).length > 0).map(([id]) => id);
+
+  if (isVaultEnabled()) {
+    const entries = await Promise.all((await db.getAll('searchIndex')).map(openSearchEntry));
+    const matches = needles.map((needle) => {
+      const inText = entries.filter((entry) => hasTerms(entry.terms, needle)).map((entry) => entry.documentId);
+      return new Set([...inText, ...inTitle(needle)]);
+    });
+    return {
+      entries: entries.filter((entry) => matches.every((ids) => ids.has(entry.documentId))),
+      counts: matches.map((ids) => ids.size),
+    };
+  }
+
+  const matches = await Promise.all(
+    needles.map(async (needle) => new Set([...(await lookUp(needle)), ...inTitle(needle)]))
+  );
+  const ids = [...matches[0]].filter((id) => matches.every((set) => set.has(id)));
+  const records = await Promise.all(ids.map((id) => db.get('searchIndex', id)));
+  const entries = await Promise.all(
+    records.filter((record): record is SearchEntry => Boolean(record)).map(openSearchEntry)
+  );
+  return { entries, counts: matches.map((set) => set.size) };
+}
+
+/**
+ * The text around the first match in a block, with the matched words highlighted
+ */
+function buildSnippet(text: string, words: Word[], occurrences: Occurrence[]): SnippetPart[] {
+  const ranges = occurrences
+    .map(({ word, length }) => ({ start: words[word].start, end: words[word + length - 1].end }))
+    .sort((a, b) => a.start - b.start);
+
+  let start = ranges.length > 0 ? Math.max(0, ranges[0].start - SNIPPET_LEAD) : 0;
+  // Start on a word boundary
+  if (start > 0) start = words.find((word) => word.start >= start)?.start ?? start;
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  const parts: SnippetPart[] = [];
+  let cursor = start;
+  for (const range of ranges) {
+    if (range.start < cursor || range.end > end) continue;
+    if (range.start > cursor) parts.push({ text: text.slice(cursor, range.start), highlighted: false });
+    parts.push({ text: text.slice(range.start, range.end), highlighted: true });
+    cursor = range.end;
+  }
+  if (cursor < end) parts.push({ text: text.slice(cursor, end), highlighted: false });
+  if (start > 0) parts.unshift({ text: '…', highlighted: false });
+  if (end < text.length) parts.push({ text: '…', highlighted: false });
+  return parts;
+}
+
+/**
+ * Rank a note against the query and find its best block; null if it doesn't match every needle
+ */
+function scoreEntry(
+  entry: SearchEntry,
+  title: string,
+  needles: Needle[],
+  weights: number[]
+): SearchResult | null {
+  const titleWords = splitWords(title);
+  const blocks = entry.blocks.map((block) => {
+    const words = splitWords(block.text);
+    return { block, words, occurrences: needles.map((needle) => findOccurrences(words, needle)) };
+  });
+
+  let score = 0;
+  for (const [index, needle] of needles.entries()) {
+    const inTitle = findOccurrences(titleWords, needle);
+    const inText = blocks.flatMap((block) => block.occurrences[index]);
+    if (inTitle.length === 0 && inText.length === 0) return null;
+
+    // More occurrences count for less and less
+    const frequency = inText.reduce((sum, occurrence) => sum + (occurrence.exact ? 1 : PREFIX_WEIGHT), 0);
+    let titleFrequency = 0;
+    if (inTitle.length > 0) titleFrequency = inTitle.some((occurrence) => occurrence.exact) ? 1 : PREFIX_WEIGHT;
+    score += weights[index] * needle.terms.length * (frequency / (frequency + 1) + TITLE_WEIGHT * titleFrequency);
+  }
+
+  // The block matching the most parts of the query, then the most often
+  let best: (typeof blocks)[number] | null = null;
+  let bestRank = [0, 0];
+  for (const candidate of blocks) {
+    const rank = [
+      candidate.occurrences.filter((occurrences) => occurrences.length > 0).length,
+      candidate.occurrences.reduce((sum, occurrences) => sum + occurrences.length, 0),
+    ];
+    if (rank[0] > bestRank[0] || (rank[0] === bestRank[0] && rank[1] > bestRank[1])) {
+      best = candidate;
+      bestRank = rank;
+    }
+  }
+
+  // Only the title matched: show the start of the note
+  const shown = best ?? blocks[0];
+  return {
+    documentId: entry.documentId,
+    title,
+    snippet: shown ? buildSnippet(shown.block.text, shown.words, best ? best.occurrences.flat() : []) : [],
+    block: best && { nodeType: best.block.nodeType, index: best.block.index },
+    score,
+  };
+}
+
+/**
+ * Search every note for a query: words match as prefixes ("not" finds "notes"), "quoted phrases"
+ * match whole words in order, and a note must contain all of them, in its title or its text
+ * @returns Best matches first
+ */
+export async function searchNotes(query: string): Promise<SearchResult[]> {
+  const needles = parseQuery(query);
+  if (needles.length === 0) return [];
+
+  try {
+    await indexMissingDocuments();
+    const documents = await listDocuments();
+    const titles = new Map(documents.map((document) => [document.id, document.title]));
+    const titleWords = new Map(documents.map((document) => [document.id, splitWords(document.title)]));
+
+    const { entries, counts } = await findCandidates(needles, titleWords);
+    // Words found in fewer notes tell more about a note
+    const weights = counts.map((count) => Math.log(1 + documents.length / Math.max(count, 1)));
+
+    return entries
+      .flatMap((entry) => {
+        const title = titles.get(entry.documentId);
+        const result = title !== undefined && scoreEntry(entry, title, needles, weights);
+        return result ? [result] : [];
+      })
+      .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+      .slice(0, MAX_RESULTS);
+  } catch (error) {
+    console.error('Failed to search notes:', error);
+    return [];
+  }
+}
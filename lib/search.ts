@@ -0,0 +1,233 @@
+import { Extension, type Editor } from '@tiptap/react';
+import { Plugin, PluginKey, TextSelection, type EditorState, type Transaction } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+
+export interface SearchQuery {
+  text: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  // Treat text as a regular expression; the replacement can then use $1, $<name> and $&
+  regex: boolean;
+}
+
+interface SearchMatch {
+  from: number;
+  to: number;
+  // The match and its capture groups, for the replacement
+  groups: RegExpExecArray;
+}
+
+export interface SearchState {
+  query: SearchQuery | null;
+  matches: SearchMatch[];
+  // Index of the current match, or -1
+  current: number;
+  // Set when the query is not a valid regular expression
+  error: string | null;
+}
+
+const searchKey = new PluginKey<SearchState>('search');
+
+// Stands in for images, links to notes and line breaks, so matches don't run across them
+const LEAF_PLACEHOLDER = '\ufffc';
+
+const EMPTY_STATE: SearchState = { query: null, matches: [], current: -1, error: null };
+
+function toRegExp(query: SearchQuery): RegExp {
+  const source = query.regex ? query.text : query.text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  // \b only knows ASCII letters
+  const pattern = query.wholeWord ? `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])` : source;
+  return new RegExp(pattern, query.caseSensitive ? 'gu' : 'giu');
+}
+
+/**
+ * Every match of the query, in document order. Matches stay within one textblock.
+ */
+function findMatches(doc: ProseMirrorNode, pattern: RegExp): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return;
+
+    // One character per position, so string offsets map straight back onto the document
+    let text = '';
+    node.forEach((child) => {
+      text += child.isText ? child.text : LEAF_PLACEHOLDER.repeat(child.nodeSize);
+    });
+
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+        continue;
+      }
+      if (match[0].includes(LEAF_PLACEHOLDER)) continue;
+      const from = pos + 1 + match.index;
+      matches.push({ from, to: from + match[0].length, groups: match });
+    }
+    return false;
+  });
+  return matches;
+}
+
+/**
+ * Expand $1, $<name>, $& and $$ in a regex replacement
+ */
+function expandReplacement(replacement: string, groups: RegExpExecArray): string {
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, key: string, name?: string) => {
+    if (key === '$') return '$';
+    if (key === '&') return groups[0];
+    if (name !== undefined) return groups.groups?.[name] ?? '';
+    const index = Number(key);
+    return index > 0 && index < groups.length ? (groups[index] ?? '') : token;
+  });
+}
+
+// Match at or after pos, wrapping around to the first
+function matchFrom(matches: SearchMatch[], pos: number): number {
+  if (matches.length === 0) return -1;
+  const index = matches.findIndex((match) => match.from >= pos);
+  return index === -1 ? 0 : index;
+}
+
+function computeState(doc: ProseMirrorNode, query: SearchQuery | null, near: number): SearchState {
+  if (!query?.text) return { ...EMPTY_STATE, query };
+  let pattern: RegExp;
+  try {
+    pattern = toRegExp(query);
+  } catch (error) {
+    return { ...EMPTY_STATE, query, error: error instanceof Error ? error.message : String(error) };
+  }
+  const matches = findMatches(doc, pattern);
+  return { query, matches, current: matchFrom(matches, near), error: null };
+}
+
+export function getSearchState(state: EditorState): SearchState {
+  return searchKey.getState(state) ?? EMPTY_STATE;
+}
+
+/**
+ * Search for query, starting from the cursor; null clears the search and its highlighting
+ */
+export function setSearchQuery(editor: Editor, query: SearchQuery | null): void {
+  editor.view.dispatch(editor.state.tr.setMeta(searchKey, { query }).setMeta('addToHistory', false));
+}
+
+function selectMatch(tr: Transaction, match: SearchMatch | undefined): Transaction {
+  if (!match) return tr;
+  return tr.setSelection(TextSelection.create(tr.doc, match.from, match.to)).scrollIntoView();
+}
+
+/**
+ * Select the next (or previous) match, wrapping around at the end of the document.
+ * The first step selects the current match, unless it's already selected.
+ */
+export function findNext(editor: Editor, direction: 1 | -1 = 1): void {
+  const { matches, current } = getSearchState(editor.state);
+  if (matches.length === 0) return;
+  const { from, to } = editor.state.selection;
+  const isSelected = matches[current]?.from === from && matches[current]?.to === to;
+  // The current match is the first one after the cursor, so forward it's the next one already
+  const step = isSelected || direction === -1 ? direction : 0;
+  const next = (current + step + matches.length) % matches.length;
+  editor.view.dispatch(selectMatch(editor.state.tr.setMeta(searchKey, { current: next }), matches[next]));
+}
+
+// Replace a match with text carrying the marks of its first character, so formatting survives
+function replaceMatch(tr: Transaction, match: SearchMatch, replacement: string) {
+  const marks = tr.doc.resolve(match.from).nodeAfter?.marks;
+  if (replacement) {
+    tr.replaceWith(match.from, match.to, tr.doc.type.schema.text(replacement, marks));
+  } else {
+    tr.delete(match.from, match.to);
+  }
+}
+
+function replacementFor(state: SearchState, match: SearchMatch, replacement: string): string {
+  return state.query?.regex ? expandReplacement(replacement, match.groups) : replacement;
+}
+
+/**
+ * Replace the current match and move on to the next one
+ */
+export function replaceCurrent(editor: Editor, replacement: string): void {
+  const search = getSearchState(editor.state);
+  const match = search.matches[search.current];
+  if (!match) return;
+
+  const { tr } = editor.state;
+  replaceMatch(tr, match, replacementFor(search, match, replacement));
+  // The search is run again on the new document, from just after the replacement
+  tr.setMeta(searchKey, { near: tr.mapping.map(match.to) });
+  editor.view.dispatch(tr);
+  const next = getSearchState(editor.state);
+  editor.view.dispatch(selectMatch(editor.state.tr, next.matches[next.current]));
+}
+
+/**
+ * Replace every match in one step, so a single undo brings them all back
+ * @returns Number of replacements
+ */
+export function replaceAll(editor: Editor, replacement: string): number {
+  const search = getSearchState(editor.state);
+  if (search.matches.length === 0) return 0;
+
+  const { tr } = editor.state;
+  // Back to front, so earlier positions stay valid
+  for (const match of [...search.matches].reverse()) {
+    replaceMatch(tr, match, replacementFor(search, match, replacement));
+  }
+  editor.view.dispatch(tr);
+  return search.matches.length;
+}
+
+/**
+ * Find and replace: highlights the matches of the current search (see setSearchQuery)
+ */
+export const SearchAndReplace = Extension.create({
+  name: 'searchAndReplace',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<SearchState>({
+        key: searchKey,
+        state: {
+          init: () => EMPTY_STATE,
+          apply(tr, value, _oldState, newState) {
+            const meta = tr.getMeta(searchKey) as
+              | { query?: SearchQuery | null; current?: number; near?: number }
+              | undefined;
+
+            if (meta?.query !== undefined) {
+              return computeState(newState.doc, meta.query, newState.selection.from);
+            }
+            if (meta?.current !== undefined) {
+              return { ...value, current: meta.current };
+            }
+            if (!tr.docChanged || !value.query) return value;
+
+            // Stay at the match the current one moved to
+            const current = value.matches[value.current];
+            const near = meta?.near ?? (current ? tr.mapping.map(current.from) : newState.selection.from);
+            return computeState(newState.doc, value.query, near);
+          },
+        },
+        props: {
+          decorations(state) {
+            const { matches, current } = getSearchState(state);
+            if (matches.length === 0) return DecorationSet.empty;
+            return DecorationSet.create(
+              state.doc,
+              matches.map((match, index) =>
+                Decoration.inline(match.from, match.to, {
+                  class: index === current ? 'search-match search-match-current' : 'search-match',
+                })
+              )
+            );
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,213 @@
+import { Extension, ReactRenderer, type Editor, type Range } from '@tiptap/react';
+import Suggestion, { type SuggestionProps } from '@tiptap/suggestion';
+import { PluginKey } from '@tiptap/pm/state';
+import { Heading1, Heading2, Heading3, List, ListOrdered, Quote, Code, Minus, type LucideIcon } from 'lucide-react';
+import SlashCommandMenu, { type SlashCommandMenuHandle, type MenuItem } from '@/components/SlashCommandMenu';
+
+/**
+ * A block that can be inserted from the "/" menu
+ */
+export interface SlashCommand extends MenuItem {
+  // Other words that find the command, e.g. "h1" for Heading 1
+  keywords?: string[];
+  icon: LucideIcon;
+  // Replace the typed "/query" (range) with the block
+  run: (editor: Editor, range: Range) => void;
+}
+
+// Commands in registration order, which is also the menu order before anything is typed
+const commands = new Map<string, SlashCommand>();
+
+/**
+ * Add commands to the "/" menu. Extensions call this next to their definition.
+ * A command with the id of an existing one replaces it.
+ * @returns Function that removes the commands again
+ */
+export function registerSlashCommands(...added: SlashCommand[]): () => void {
+  for (const command of added) {
+    commands.set(command.id, command);
+  }
+  return () => {
+    for (const command of added) {
+      if (commands.get(command.id) === command) commands.delete(command.id);
+    }
+  };
+}
+
+export function getSlashCommands(): SlashCommand[] {
+  return [...commands.values()];
+}
+
+/**
+ * Score how well a query matches text when its characters appear in order.
+ * Runs of consecutive characters and matches at word starts score higher.
+ * @returns Score, or null when the query doesn't match
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const target = text.toLowerCase();
+  let score = 0;
+  let previous = -1;
+
+  for (const char of query.toLowerCase()) {
+    const index = target.indexOf(char, previous + 1);
+    if (index === -1) return null;
+
+    if (index === previous + 1) score += 3;
+    else if (index === 0 || target[index - 1] === ' ') score += 2;
+    else score += 1;
+    previous = index;
+  }
+  // Prefer shorter titles when the match is otherwise equal
+  return score - target.length / 100;
+}
+
+/**
+ * Commands matching what was typed after "/", best match first
+ */
+export function findSlashCommands(query: string): SlashCommand[] {
+  const all = getSlashCommands();
+  if (!query) return all;
+
+  return all
+    .map((command) => {
+      const scores = [command.title, ...(command.keywords || [])]
+        .map((text) => fuzzyScore(query, text))
+        .filter((score): score is number => score !== null);
+      return { command, score: scores.length ? Math.max(...scores) : null };
+    })
+    .filter((match) => match.score !== null)
+    .sort((a, b) => b.score! - a.score!)
+    .map((match) => match.command);
+}
+
+// Blocks from the starter kit; extensions with blocks of their own register them where they are defined
+registerSlashCommands(
+  {
+    id: 'heading1',
+    title: 'Heading 1',
+    description: 'Large section heading',
+    keywords: ['h1', 'title'],
+    icon: Heading1,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).setHeading({ level: 1 }).run(),
+  },
+  {
+    id: 'heading2',
+    title: 'Heading 2',
+    description: 'Medium section heading',
+    keywords: ['h2', 'subtitle'],
+    icon: Heading2,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).setHeading({ level: 2 }).run(),
+  },
+  {
+    id: 'heading3',
+    title: 'Heading 3',
+    description: 'Small section heading',
+    keywords: ['h3'],
+    icon: Heading3,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).setHeading({ level: 3 }).run(),
+  },
+  {
+    id: 'bulletList',
+    title: 'Bullet List',
+    description: 'Unordered list',
+    keywords: ['ul', 'unordered'],
+    icon: List,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).toggleBulletList().run(),
+  },
+  {
+    id: 'orderedList',
+    title: 'Numbered List',
+    description: 'Ordered list',
+    keywords: ['ol', 'ordered'],
+    icon: ListOrdered,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).toggleOrderedList().run(),
+  },
+  {
+    id: 'blockquote',
+    title: 'Quote',
+    description: 'Blockquote',
+    keywords: ['blockquote', 'citation'],
+    icon: Quote,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).toggleBlockquote().run(),
+  },
+  {
+    id: 'codeBlock',
+    title: 'Code Block',
+    description: 'Preformatted code',
+    keywords: ['pre', 'snippet'],
+    icon: Code,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).toggleCodeBlock().run(),
+  },
+  {
+    id: 'horizontalRule',
+    title: 'Divider',
+    description: 'Horizontal line',
+    keywords: ['hr', 'horizontal rule', 'separator'],
+    icon: Minus,
+    run: (editor, range) => editor.chain().focus().deleteRange(range).setHorizontalRule().run(),
+  }
+);
+
+const slashCommandPluginKey = new PluginKey('slashCommands');
+
+function placeMenu(element: HTMLElement, props: SuggestionProps<MenuItem>) {
+  const rect = props.clientRect?.();
+  if (!rect) return;
+
+  // Open upwards when there isn't room below the cursor
+  const opensUp = rect.bottom + element.offsetHeight + 8 > window.innerHeight && rect.top > element.offsetHeight;
+  element.style.left = `${Math.min(rect.left, window.innerWidth - element.offsetWidth - 8)}px`;
+  element.style.top = opensUp ? `${rect.top - element.offsetHeight - 4}px` : `${rect.bottom + 4}px`;
+}
+
+/**
+ * Suggestion renderer that shows the items in a SlashCommandMenu below the cursor
+ * @param emptyMessage - Shown when nothing matches
+ */
+export function renderSuggestionMenu<I extends MenuItem>(emptyMessage: string) {
+  return () => {
+    let renderer: ReactRenderer<SlashCommandMenuHandle> | null = null;
+
+    return {
+      onStart: (props: SuggestionProps<I, I>) => {
+        renderer = new ReactRenderer(SlashCommandMenu, { props: { ...props, emptyMessage }, editor: props.editor });
+        renderer.element.style.position = 'fixed';
+        renderer.element.style.zIndex = '40';
+        document.body.appendChild(renderer.element);
+        placeMenu(renderer.element, props);
+      },
+      onUpdate: (props: SuggestionProps<I, I>) => {
+        renderer?.updateProps({ ...props, emptyMessage });
+        if (renderer) placeMenu(renderer.element, props);
+      },
+      onKeyDown: ({ event }: { event: KeyboardEvent }) => renderer?.ref?.onKeyDown(event) ?? false,
+      onExit: () => {
+        renderer?.element.remove();
+        renderer?.destroy();
+        renderer = null;
+      },
+    };
+  };
+}
+
+/**
+ * "/" menu: typing "/" at the start of a word opens the registered commands, filtered by what follows
+ */
+export const SlashCommands = Extension.create({
+  name: 'slashCommands',
+
+  addProseMirrorPlugins() {
+    return [
+      Suggestion<SlashCommand, SlashCommand>({
+        editor: this.editor,
+        pluginKey: slashCommandPluginKey,
+        char: '/',
+        // Not inside code, where "/" is just text
+        allow: ({ state, range }) => !state.doc.resolve(range.from).parent.type.spec.code,
+        items: ({ query }) => findSlashCommands(query),
+        command: ({ editor, range, props }) => props.run(editor, range),
+        render: renderSuggestionMenu<SlashCommand>('No matching blocks'),
+      }),
+    ];
+  },
+});
@@ -1,128 +1,777 @@
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { DBSchema, IDBPDatabase } from 'idb';
+import type { JSONContent } from '@tiptap/react';
+import { notifyTabs } from './tab-sync';
+import { openNotesDatabase } from './migrations';
+import { clearJournal } from './journal';
+import { getBlockText } from './diff';
+import {
+  isVaultEnabled,
+  requireVaultKey,
+  encryptJSON,
+  decryptJSON,
+  encryptBytes,
+  decryptBytes,
+  EncryptedPayload,
+} from './crypto';
+import type { VaultConfig } from './vault';
 
-interface NotesDB extends DBSchema {
+export interface NoteDocument {
+  id: string;
+  title: string;
+  content: JSONContent | null;
+  createdAt: number;
+  updatedAt: number;
+  // Incremented on every content save; records from before revisions count as 0
+  revision?: number;
+  // Vault mode stores title and content here, encrypted (see lib/vault.ts)
+  sealedTitle?: EncryptedPayload;
+  sealedContent?: EncryptedPayload;
+  // Server revision the content was last pushed or pulled at (see lib/sync.ts)
+  syncedRevision?: number;
+}
+
+export type DocumentSummary = Omit<
+  NoteDocument,
+  'content' | 'revision' | 'sealedTitle' | 'sealedContent' | 'syncedRevision'
+>;
+
+export interface DocumentSnapshot {
+  id: string;
+  documentId: string;
+  content: JSONContent;
+  createdAt: number;
+  // 'auto' snapshots are pruned by retention rules; the others are kept. 'deleted' is the note as it was
+  // deleted, kept with the rest of its history until lib/history.ts purges it
+  kind: 'auto' | 'manual' | 'restore' | 'deleted';
+  // Title of the deleted note, on its 'deleted' snapshot
+  title?: string;
+  sealedContent?: EncryptedPayload;
+  sealedTitle?: EncryptedPayload;
+}
+
+export interface StoredImage {
+  id: string;
+  blob: Blob;
+  createdAt: number;
+  // Small preview shown until the full image is needed (see lib/image-pipeline.ts)
+  thumbnail?: Blob | null;
+  width?: number | null;
+  height?: number | null;
+  // In vault mode blob and thumbnail hold ciphertext; this has what's needed to decrypt them
+  sealed?: { iv: Uint8Array<ArrayBuffer>; type: string; thumbnailIv?: Uint8Array<ArrayBuffer>; thumbnailType?: string };
+}
+
+export type ImageVariant = 'full' | 'thumbnail';
+
+/**
+ * A local change waiting to be pushed to the sync server (see lib/sync.ts).
+ * There is one entry per document; a later change replaces the earlier entry.
+ */
+export interface OutboxEntry {
+  documentId: string;
+  queuedAt: number;
+  deleted: boolean;
+  // For deletions, the server revision the document was last synced at
+  syncedRevision?: number;
+}
+
+/**
+ * Position in the server's change feed, per server
+ */
+export interface SyncCursor {
+  id: 'cursor';
+  serverUrl: string;
+  seq: number;
+}
+
+/**
+ * Notes that a document links to (see lib/note-links.ts), so backlinks can be looked up.
+ * Written together with the document's content.
+ */
+export interface NoteLinks {
+  documentId: string;
+  // IDs of the linked notes; plain text even in vault mode, like the document IDs themselves
+  targets: string[];
+}
+
+/**
+ * One message in a comment thread: the comment that opened it or a reply
+ */
+export interface CommentMessage {
+  id: string;
+  author: string;
+  body: string;
+  createdAt: number;
+}
+
+/**
+ * Discussion about a range of a note (see lib/comments.ts). The range is a comment mark in the
+ * note's content carrying the thread ID, so it moves with the text as the note is edited.
+ */
+export interface CommentThread {
+  id: string;
+  documentId: string;
+  messages: CommentMessage[];
+  resolved: boolean;
+  createdAt: number;
+  updatedAt: number;
+  // Vault mode stores the messages here, encrypted
+  sealedMessages?: EncryptedPayload;
+}
+
+/**
+ * A block of a note's text in the search index
+ */
+export interface SearchBlock {
+  // Node type and position among the note's nodes of that type, like a FocusTarget (lib/editor-focus.ts)
+  nodeType: string;
+  index: number;
+  text: string;
+}
+
+/**
+ * Full-text index record of a document (see lib/search-index.ts). Written together with the document's content.
+ */
+export interface SearchEntry {
+  documentId: string;
+  // Distinct words of the note (see toSearchTerm); the multiEntry 'by-term' index over them is the inverted index
+  terms: string[];
+  blocks: SearchBlock[];
+  updatedAt: number;
+  // Vault mode stores terms and blocks here, encrypted; sealed entries can't be looked up by term
+  sealedBlocks?: EncryptedPayload;
+}
+
+export interface NotesDB extends DBSchema {
   documents: {
     key: string;
-    value: {
-      id: string;
-      content: any;
-      updatedAt: number;
-    };
+    value: NoteDocument;
+    indexes: { 'by-updatedAt': number };
   };
   images: {
     key: string;
-    value: {
-      id: string;
-      blob: Blob;
-      createdAt: number;
-    };
+    value: StoredImage;
+  };
+  snapshots: {
+    key: string;
+    value: DocumentSnapshot;
+    indexes: { 'by-document': string };
+  };
+  vault: {
+    key: string;
+    value: VaultConfig;
+  };
+  outbox: {
+    key: string;
+    value: OutboxEntry;
+  };
+  syncState: {
+    key: string;
+    value: SyncCursor;
+  };
+  links: {
+    key: string;
+    value: NoteLinks;
+    indexes: { 'by-target': string };
+  };
+  comments: {
+    key: string;
+    value: CommentThread;
+    indexes: { 'by-document': string };
+  };
+  searchIndex: {
+    key: string;
+    value: SearchEntry;
+    indexes: { 'by-term': string };
+  };
+}
+
+export const DEFAULT_DOCUMENT_TITLE = 'Untitled note';
+
+// Stands in for encrypted content, so sealed records still have a valid document
+const SEALED_CONTENT_PLACEHOLDER: JSONContent = { type: 'doc' };
+
+/**
+ * Thrown by saveDocument when the document was saved elsewhere (e.g. another tab)
+ * since the revision the caller last loaded; nothing has been written
+ */
+export class DocumentConflictError extends Error {
+  constructor(public current: NoteDocument) {
+    super(`Document ${current.id} was changed elsewhere (revision ${current.revision ?? 0})`);
+    this.name = 'DocumentConflictError';
+  }
+}
+
+/**
+ * Thrown by saveDocument when the document was deleted (e.g. in another tab) after the caller
+ * loaded it; nothing has been written, so the save doesn't bring it back
+ */
+export class DocumentDeletedError extends Error {
+  constructor(documentId: string) {
+    super(`Document ${documentId} was deleted`);
+    this.name = 'DocumentDeletedError';
+  }
+}
+
+/**
+ * Thrown when a write fails because the browser's storage quota for this origin is used up
+ */
+export class StorageFullError extends Error {
+  constructor(cause: unknown) {
+    super('Storage is full: the browser has no space left for this app', { cause });
+    this.name = 'StorageFullError';
+  }
+}
+
+/**
+ * Detect quota errors, which browsers report under different names
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (error instanceof StorageFullError) return true;
+  if (!(error instanceof DOMException)) return false;
+  // Firefox used NS_ERROR_DOM_QUOTA_REACHED before adopting the standard name
+  return error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED';
+}
+
+let dbPromise: Promise<IDBPDatabase<NotesDB>> | null = null;
+
+/**
+ * Initialize and get the IndexedDB instance.
+ * Schema changes live in lib/migrations.ts and run the first time this is called.
+ */
+export async function getDB(): Promise<IDBPDatabase<NotesDB>> {
+  if (!dbPromise) {
+    const opening = openNotesDatabase({
+      // Another tab is upgrading the schema; let it, and reopen on next use
+      blocking: () => {
+        opening.then((db) => db.close());
+        dbPromise = null;
+      },
+    });
+    dbPromise = opening;
+    // Let a later call retry after a failed open or migration
+    opening.catch(() => {
+      if (dbPromise === opening) dbPromise = null;
+    });
+  }
+
+  return dbPromise;
+}
+
+/**
+ * Generate a unique identifier with the given prefix
+ */
+export function generateId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Drop object URLs from stored images so saved JSON only references them by imageId.
+ * blob: URLs die with the page that created them; display URLs come from lib/image-urls.ts.
+ */
+export function stripImageUrls(content: JSONContent): JSONContent {
+  const isStoredImage = content.type === 'image' && content.attrs?.imageId;
+  return {
+    ...content,
+    ...(isStoredImage && { attrs: { ...content.attrs, src: null } }),
+    ...(content.content && { content: content.content.map(stripImageUrls) }),
+  };
+}
+
+/**
+ * Drop comment marks, e.g. from content copied into a new note, which starts without comment threads
+ */
+export function stripComments(content: JSONContent): JSONContent {
+  const marks = content.marks?.filter((mark) => mark.type !== 'comment');
+  return {
+    ...content,
+    ...(content.marks && { marks }),
+    ...(content.content && { content: content.content.map(stripComments) }),
+  };
+}
+
+/**
+ * Encrypt a document's title and content when vault mode is on; plain records pass through
+ */
+export async function sealDocument(document: NoteDocument): Promise<NoteDocument> {
+  if (!isVaultEnabled()) return document;
+  const key = requireVaultKey();
+  const [sealedTitle, sealedContent] = await Promise.all([
+    encryptJSON(document.title, key),
+    encryptJSON(document.content, key),
+  ]);
+  return { ...document, title: '', content: null, sealedTitle, sealedContent };
+}
+
+/**
+ * Decrypt a stored document record; plain records pass through
+ * @throws VaultLockedError if the record is encrypted and the vault is locked
+ */
+export async function openDocument(record: NoteDocument): Promise<NoteDocument> {
+  const { sealedTitle, sealedContent, ...document } = record;
+  const [title, content] = await Promise.all([
+    sealedTitle ? decryptJSON<string>(sealedTitle) : document.title,
+    sealedContent ? decryptJSON<JSONContent | null>(sealedContent) : document.content,
+  ]);
+  return { ...document, title, content };
+}
+
+export async function sealSnapshot(snapshot: DocumentSnapshot): Promise<DocumentSnapshot> {
+  if (!isVaultEnabled()) return snapshot;
+  const { title, ...rest } = snapshot;
+  const [sealedContent, sealedTitle] = await Promise.all([
+    encryptJSON(snapshot.content),
+    title === undefined ? undefined : encryptJSON(title),
+  ]);
+  return { ...rest, content: SEALED_CONTENT_PLACEHOLDER, sealedContent, ...(sealedTitle && { sealedTitle }) };
+}
+
+export async function openSnapshot(record: DocumentSnapshot): Promise<DocumentSnapshot> {
+  const { sealedContent, sealedTitle, ...snapshot } = record;
+  if (!sealedContent) return snapshot;
+  const [content, title] = await Promise.all([
+    decryptJSON<JSONContent>(sealedContent),
+    sealedTitle ? decryptJSON<string>(sealedTitle) : snapshot.title,
+  ]);
+  return { ...snapshot, content, ...(title !== undefined && { title }) };
+}
+
+export async function sealImage(image: StoredImage): Promise<StoredImage> {
+  if (!isVaultEnabled()) return image;
+  const key = requireVaultKey();
+  const full = await encryptBytes(await image.blob.arrayBuffer(), key);
+  const thumbnail = image.thumbnail ? await encryptBytes(await image.thumbnail.arrayBuffer(), key) : null;
+  return {
+    ...image,
+    blob: new Blob([full.data]),
+    thumbnail: thumbnail && new Blob([thumbnail.data]),
+    sealed: { iv: full.iv, type: image.blob.type, thumbnailIv: thumbnail?.iv, thumbnailType: image.thumbnail?.type },
+  };
+}
+
+export async function openImage(record: StoredImage): Promise<StoredImage> {
+  const { sealed, ...image } = record;
+  if (!sealed) return image;
+  const key = requireVaultKey();
+  const full = await decryptBytes({ iv: sealed.iv, data: await image.blob.arrayBuffer() }, key);
+  const thumbnail =
+    image.thumbnail && sealed.thumbnailIv
+      ? await decryptBytes({ iv: sealed.thumbnailIv, data: await image.thumbnail.arrayBuffer() }, key)
+      : null;
+  return {
+    ...image,
+    blob: new Blob([full], { type: sealed.type }),
+    thumbnail: thumbnail && new Blob([thumbnail], { type: sealed.thumbnailType }),
+  };
+}
+
+export async function sealCommentThread(thread: CommentThread): Promise<CommentThread> {
+  if (!isVaultEnabled()) return thread;
+  return { ...thread, messages: [], sealedMessages: await encryptJSON(thread.messages) };
+}
+
+export async function openCommentThread(record: CommentThread): Promise<CommentThread> {
+  const { sealedMessages, ...thread } = record;
+  return sealedMessages ? { ...thread, messages: await decryptJSON<CommentMessage[]>(sealedMessages) } : thread;
+}
+
+export async function sealSearchEntry(entry: SearchEntry): Promise<SearchEntry> {
+  if (!isVaultEnabled()) return entry;
+  const { terms, blocks } = entry;
+  return { ...entry, terms: [], blocks: [], sealedBlocks: await encryptJSON({ terms, blocks }) };
+}
+
+export async function openSearchEntry(record: SearchEntry): Promise<SearchEntry> {
+  const { sealedBlocks, ...entry } = record;
+  if (!sealedBlocks) return entry;
+  return { ...entry, ...(await decryptJSON<Pick<SearchEntry, 'terms' | 'blocks'>>(sealedBlocks)) };
+}
+
+/**
+ * Normalize a word for the search index: lowercase, without accents
+ */
+export function toSearchTerm(word: string): string {
+  return word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * Words of a text with where they are in it
+ */
+export function splitWords(text: string): { term: string; start: number; end: number }[] {
+  return [...text.matchAll(/[\p{L}\p{N}][\p{L}\p{N}\p{M}]*/gu)].map((match) => ({
+    term: toSearchTerm(match[0]),
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+/**
+ * Search index record for a document's content: the text of each block that has any
+ */
+export function toSearchEntry(documentId: string, content: JSONContent | null): SearchEntry {
+  const blocks: SearchBlock[] = [];
+  // Nodes seen so far per type, counting the ones without text too, as the editor would
+  const counts = new Map<string, number>();
+  const walk = (node: JSONContent) => {
+    const type = node.type ?? '';
+    const index = counts.get(type) ?? 0;
+    counts.set(type, index + 1);
+    if (node.content?.some((child) => child.type === 'text' || child.type === 'noteLink')) {
+      const text = getBlockText(node).trim();
+      if (text) blocks.push({ nodeType: type, index, text });
+    }
+    node.content?.forEach(walk);
   };
+  if (content) walk(content);
+  const terms = new Set(blocks.flatMap((block) => splitWords(block.text).map((word) => word.term)));
+  return { documentId, terms: [...terms], blocks, updatedAt: Date.now() };
 }
 
-const DB_NAME = 'notes-app-db';
-const DB_VERSION = 1;
-const DOCUMENT_ID = 'main-document';
+/**
+ * Link index record for a document's content
+ */
+export function toNoteLinks(documentId: string, content: JSONContent | null): NoteLinks {
+  const targets = new Set<string>();
+  const walk = (node: JSONContent) => {
+    if (node.type === 'noteLink' && node.attrs?.documentId) targets.add(node.attrs.documentId);
+    node.content?.forEach(walk);
+  };
+  if (content) walk(content);
+  return { documentId, targets: [...targets] };
+}
+
+function toSummary(document: NoteDocument): DocumentSummary {
+  return {
+    id: document.id,
+    title: document.title,
+    createdAt: document.createdAt,
+    updatedAt: document.updatedAt,
+  };
+}
+
+/**
+ * List all documents in the library, most recently updated first
+ */
+export async function listDocuments(): Promise<DocumentSummary[]> {
+  try {
+    const db = await getDB();
+    const documents = await db.getAllFromIndex('documents', 'by-updatedAt');
+    return (await Promise.all(documents.reverse().map(openDocument))).map(toSummary);
+  } catch (error) {
+    console.error('Failed to list documents:', error);
+    return [];
+  }
+}
+
+/**
+ * Create a new document in the library
+ * @param title - Document title
+ * @param content - Optional initial TipTap JSON content
+ */
+export async function createDocument(
+  title: string = DEFAULT_DOCUMENT_TITLE,
+  content: JSONContent | null = null
+): Promise<DocumentSummary> {
+  try {
+    const now = Date.now();
+    const document: NoteDocument = {
+      id: generateId('doc'),
+      title,
+      content: content && stripImageUrls(stripComments(content)),
+      createdAt: now,
+      updatedAt: now,
+      revision: 0,
+    };
+    const record = await sealDocument(document);
+    const searchEntry = await sealSearchEntry(toSearchEntry(document.id, document.content));
+
+    const db = await getDB();
+    const tx = db.transaction(['documents', 'outbox', 'links', 'searchIndex'], 'readwrite');
+    await Promise.all([
+      tx.objectStore('documents').put(record),
+      tx.objectStore('outbox').put({ documentId: document.id, queuedAt: now, deleted: false }),
+      tx.objectStore('links').put(toNoteLinks(document.id, document.content)),
+      tx.objectStore('searchIndex').put(searchEntry),
+    ]);
+    await tx.done;
+    notifyTabs({ type: 'library-changed' });
+    return toSummary(document);
+  } catch (error) {
+    console.error('Failed to create document:', error);
+    throw isQuotaExceededError(error) ? new StorageFullError(error) : error;
+  }
+}
+
+/**
+ * Rename a document
+ * @param documentId - Document to rename
+ * @param title - New title
+ */
+export async function renameDocument(documentId: string, title: string): Promise<void> {
+  try {
+    // Encrypt first: the transaction would commit while waiting on WebCrypto
+    const newTitle = title.trim() || DEFAULT_DOCUMENT_TITLE;
+    const sealedTitle = isVaultEnabled() ? await encryptJSON(newTitle) : undefined;
 
-let dbInstance: IDBPDatabase<NotesDB> | null = null;
+    const db = await getDB();
+    const tx = db.transaction(['documents', 'outbox'], 'readwrite');
+    const document = await tx.objectStore('documents').get(documentId);
+    if (document) {
+      const now = Date.now();
+      await tx.objectStore('documents').put({
+        ...document,
+        title: sealedTitle ? '' : newTitle,
+        sealedTitle,
+        updatedAt: now,
+      });
+      await tx.objectStore('outbox').put({ documentId, queuedAt: now, deleted: false });
+    }
+    await tx.done;
+    notifyTabs({ type: 'library-changed' });
+  } catch (error) {
+    console.error('Failed to rename document:', error);
+    throw error;
+  }
+}
 
 /**
- * Initialize and get the IndexedDB instance
+ * Duplicate a document, including its content
+ * @param documentId - Document to copy
+ * @returns Summary of the new copy
  */
-async function getDB(): Promise<IDBPDatabase<NotesDB>> {
-  if (dbInstance) {
-    return dbInstance;
+export async function duplicateDocument(documentId: string): Promise<DocumentSummary> {
+  try {
+    const source = await getDocument(documentId);
+    if (!source) {
+      throw new Error(`Document not found: ${documentId}`);
+    }
+    return await createDocument(`${source.title} (copy)`, source.content);
+  } catch (error) {
+    console.error('Failed to duplicate document:', error);
+    throw error;
   }
+}
 
-  dbInstance = await openDB<NotesDB>(DB_NAME, DB_VERSION, {
-    upgrade(db) {
-      // Create object stores if they don't exist
-      if (!db.objectStoreNames.contains('documents')) {
-        db.createObjectStore('documents', { keyPath: 'id' });
-      }
-      if (!db.objectStoreNames.contains('images')) {
-        db.createObjectStore('images', { keyPath: 'id' });
-      }
-    },
+/**
+ * The 'deleted' snapshot that keeps a note restorable from Recently Deleted, encrypted in vault mode.
+ * Build it before the transaction that deletes the note; it can't stay open across WebCrypto calls.
+ * @param documentId - Note about to be deleted
+ * @returns The snapshot to store, or null if the note doesn't exist
+ */
+export async function prepareDeletedSnapshot(documentId: string): Promise<DocumentSnapshot | null> {
+  const stored = await getDocument(documentId);
+  if (!stored) return null;
+  return sealSnapshot({
+    id: generateId('snap'),
+    documentId,
+    content: stored.content || { type: 'doc', content: [] },
+    createdAt: Date.now(),
+    kind: 'deleted',
+    title: stored.title,
   });
+}
+
+/**
+ * Delete a document from the library, along with its comments.
+ * Its version history is kept, plus a 'deleted' snapshot of the note as it was, so it can be restored
+ * from Recently Deleted until the history is purged (see lib/history.ts).
+ * @param documentId - Document to delete
+ */
+export async function deleteDocument(documentId: string): Promise<void> {
+  try {
+    const lastSnapshot = await prepareDeletedSnapshot(documentId);
+
+    const db = await getDB();
+    const tx = db.transaction(['documents', 'snapshots', 'outbox', 'links', 'comments', 'searchIndex'], 'readwrite');
+    const document = await tx.objectStore('documents').get(documentId);
+    const threadIds = await tx.objectStore('comments').index('by-document').getAllKeys(documentId);
+    await Promise.all([
+      tx.objectStore('documents').delete(documentId),
+      // Links to this note stay in the other notes and show as missing
+      tx.objectStore('links').delete(documentId),
+      tx.objectStore('searchIndex').delete(documentId),
+      ...(lastSnapshot ? [tx.objectStore('snapshots').put(lastSnapshot)] : []),
+      ...threadIds.map((threadId) => tx.objectStore('comments').delete(threadId)),
+      tx.objectStore('outbox').put({
+        documentId,
+        queuedAt: Date.now(),
+        deleted: true,
+        syncedRevision: document?.syncedRevision,
+      }),
+    ]);
+    await tx.done;
+    // Unsaved edits of a deleted note must not come back as a recovered note
+    clearJournal(documentId);
+    notifyTabs({ type: 'library-changed' });
+  } catch (error) {
+    console.error('Failed to delete document:', error);
+    throw error;
+  }
+}
 
-  return dbInstance;
+/**
+ * Whether a document was deleted: its deletion is waiting to sync, or it is in Recently Deleted
+ * @param documentId - Document that no longer exists
+ */
+export async function wasDocumentDeleted(documentId: string): Promise<boolean> {
+  const db = await getDB();
+  const [pending, snapshots] = await Promise.all([
+    db.get('outbox', documentId),
+    db.getAllFromIndex('snapshots', 'by-document', documentId),
+  ]);
+  return !!pending?.deleted || snapshots.some((snapshot) => snapshot.kind === 'deleted');
 }
 
 /**
  * Save document content to IndexedDB
+ * @param documentId - Document to save
  * @param docJson - TipTap JSON content
+ * @param baseRevision - Revision the content was edited from; omit to overwrite unconditionally
+ * @returns The new revision
+ * @throws DocumentConflictError if the stored revision no longer matches baseRevision
+ * @throws DocumentDeletedError if baseRevision is given and the document no longer exists
  */
-export async function saveDocument(docJson: any): Promise<void> {
+export async function saveDocument(
+  documentId: string,
+  docJson: JSONContent,
+  baseRevision?: number
+): Promise<number> {
   try {
-    const db = await getDB();
-    await db.put('documents', {
-      id: DOCUMENT_ID,
-      content: docJson,
-      updatedAt: Date.now(),
+    // Encrypted before the transaction opens; it can't stay open across WebCrypto calls
+    const sealed = await sealDocument({
+      id: documentId,
+      title: DEFAULT_DOCUMENT_TITLE,
+      content: stripImageUrls(docJson),
+      createdAt: 0,
+      updatedAt: 0,
     });
+    const searchEntry = await sealSearchEntry(toSearchEntry(documentId, docJson));
+
+    const db = await getDB();
+    const tx = db.transaction(['documents', 'outbox', 'links', 'searchIndex'], 'readwrite');
+    const existing = await tx.objectStore('documents').get(documentId);
+    const currentRevision = existing?.revision ?? 0;
+
+    if (baseRevision !== undefined && !existing) {
+      throw new DocumentDeletedError(documentId);
+    }
+    if (existing && baseRevision !== undefined && currentRevision !== baseRevision) {
+      throw new DocumentConflictError(await openDocument(existing));
+    }
+
+    const now = Date.now();
+    const revision = currentRevision + 1;
+    await Promise.all([
+      tx.objectStore('documents').put({
+        ...sealed,
+        ...(existing && {
+          title: existing.title,
+          sealedTitle: existing.sealedTitle,
+          syncedRevision: existing.syncedRevision,
+        }),
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+        revision,
+      }),
+      tx.objectStore('outbox').put({ documentId, queuedAt: now, deleted: false }),
+      tx.objectStore('links').put(toNoteLinks(documentId, docJson)),
+      tx.objectStore('searchIndex').put(searchEntry),
+    ]);
+    await tx.done;
+
+    notifyTabs({ type: 'document-saved', documentId, revision, updatedAt: now });
+    return revision;
   } catch (error) {
+    if (error instanceof DocumentConflictError || error instanceof DocumentDeletedError) {
+      throw error;
+    }
     console.error('Failed to save document:', error);
-    throw error;
+    throw isQuotaExceededError(error) ? new StorageFullError(error) : error;
   }
 }
 
 /**
- * Load document content from IndexedDB
- * @returns TipTap JSON content or null if not found
+ * Load a document with its metadata and revision
+ * @param documentId - Document to load
+ * @returns The document or null if not found
  */
-export async function loadDocument(): Promise<any | null> {
+export async function getDocument(documentId: string): Promise<NoteDocument | null> {
   try {
     const db = await getDB();
-    const doc = await db.get('documents', DOCUMENT_ID);
-    return doc?.content || null;
+    const record = await db.get('documents', documentId);
+    if (!record) {
+      return null;
+    }
+    const doc = await openDocument(record);
+    return {
+      ...doc,
+      // Older saves may still carry blob: URLs from a previous session
+      content: doc.content && stripImageUrls(doc.content),
+      revision: doc.revision ?? 0,
+    };
   } catch (error) {
     console.error('Failed to load document:', error);
     return null;
   }
 }
 
+/**
+ * Load document content from IndexedDB
+ * @param documentId - Document to load
+ * @returns TipTap JSON content or null if not found
+ */
+export async function loadDocument(documentId: string): Promise<JSONContent | null> {
+  const doc = await getDocument(documentId);
+  return doc?.content || null;
+}
+
 /**
  * Save image blob to IndexedDB
  * @param blob - Image blob to store
+ * @param details - Optional thumbnail and pixel dimensions
  * @returns imageId - Unique identifier for the stored image
  */
-export async function saveImage(blob: Blob): Promise<string> {
+export async function saveImage(
+  blob: Blob,
+  details: Pick<StoredImage, 'thumbnail' | 'width' | 'height'> = {}
+): Promise<string> {
   try {
-    const db = await getDB();
-    const imageId = `img-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    
-    await db.put('images', {
+    const imageId = generateId('img');
+    const image = await sealImage({
       id: imageId,
       blob,
       createdAt: Date.now(),
+      ...details,
     });
+
+    const db = await getDB();
+    await db.put('images', image);
     
     return imageId;
   } catch (error) {
     console.error('Failed to save image:', error);
-    throw error;
+    throw isQuotaExceededError(error) ? new StorageFullError(error) : error;
   }
 }
 
 /**
- * Load image blob from IndexedDB and convert to object URL
+ * Load the raw image blob from IndexedDB (e.g. for exporting or display)
+ * Use acquireImageUrl from lib/image-urls.ts to get a managed object URL instead.
  * @param imageId - Unique identifier for the image
- * @returns Object URL for the image or null if not found
+ * @param variant - 'thumbnail' falls back to the full image when there is none
+ * @returns Image blob or null if not found
  */
-export async function loadImage(imageId: string): Promise<string | null> {
+export async function loadImageBlob(imageId: string, variant: ImageVariant = 'full'): Promise<Blob | null> {
   try {
     const db = await getDB();
-    const image = await db.get('images', imageId);
-    
-    if (!image) {
+    const record = await db.get('images', imageId);
+    if (!record) {
       return null;
     }
-    
-    // Create object URL from blob
-    const objectURL = URL.createObjectURL(image.blob);
-    return objectURL;
+    const image = await openImage(record);
+    return (variant === 'thumbnail' && image.thumbnail) || image.blob;
   } catch (error) {
-    console.error('Failed to load image:', error);
+    console.error('Failed to load image blob:', error);
     return null;
   }
 }
@@ -161,9 +810,15 @@ export async function deleteImage(imageId: string): Promise<void> {
  * This storage layer uses IndexedDB, a client-side database built into modern browsers.
  * 
  * Architecture:
- * - Two object stores: 'documents' (editor content) and 'images' (image blobs)
- * - Document content is stored as TipTap JSON format
- * - Images are stored as Blob objects with unique IDs
+ * - Two object stores: 'documents' (the note library) and 'images' (image blobs)
+ * - Each document has its own id, title and timestamps; content is TipTap JSON
+ * - The pre-library 'main-document' record is upgraded in place to the first note
+ * - Schema changes are ordered steps in lib/migrations.ts; the database is copied
+ *   to a backup database first and a failing step rolls the whole upgrade back
+ * - A 'snapshots' store keeps version history per document (see lib/history.ts)
+ * - Images are stored as Blob objects with unique IDs, plus an optional thumbnail
+ * - Every library change also writes an 'outbox' entry in the same transaction, which the
+ *   optional sync client pushes to the server (lib/sync.ts)
  * - Image references in the document use custom imageId attributes
  * 
  * Benefits of IndexedDB:
@@ -173,15 +828,27 @@ export async function deleteImage(imageId: string): Promise<void> {
  * - Structured storage with indexes
  * 
  * Limitations:
- * - Storage quota depends on available disk space and browser
+ * - Storage quota depends on available disk space and browser; writes that exceed it
+ *   throw StorageFullError (see lib/quota.ts for monitoring and persistence)
  * - Data is origin-specific (per domain)
- * - No built-in sync across devices
- * - Can be cleared by user or browser (treat as cache, not primary storage)
+ * - Sync across devices is opt-in, through a self-hosted server (lib/sync.ts)
+ * - Can be cleared by the user, or by the browser under storage pressure unless
+ *   persistent storage was granted (the app requests it on startup)
  * 
  * Image Handling:
  * - When user pastes/drops an image, we extract the Blob
  * - Store Blob in IndexedDB and get a unique imageId
  * - Insert image node in editor with custom attribute containing imageId
- * - On load, resolve imageId to object URL for display
- * - Object URLs are memory-efficient and don't duplicate data
+ * - Every content save bumps the document's revision; saves based on an older
+ *   revision are rejected with DocumentConflictError (see lib/tab-sync.ts)
+ * - Image node views acquire object URLs from a ref-counted cache (lib/image-urls.ts)
+ *   and release them when the node is removed or the document is closed
+ * - Saved JSON never contains blob: URLs, only the imageId
+ *
+ * Vault mode (lib/vault.ts):
+ * - Titles, content and image blobs are encrypted with AES-GCM before they are written
+ * - Encryption happens before a transaction opens, since IndexedDB commits a transaction
+ *   that is left waiting on anything other than its own requests
+ * - Every reader goes through openDocument/openSnapshot/openImage, which accept
+ *   both encrypted and plain records
  */
@@ -0,0 +1,66 @@
+import type { JSONContent } from '@tiptap/react';
+
+/**
+ * Wire format shared by the sync client (lib/sync.ts) and the route handlers under app/api/sync.
+ *
+ * Every document on the server has a revision that goes up by one per accepted push, and
+ * every change gets the next value of a server-wide sequence number. Clients pull
+ * the changes after the last sequence number they saw, and push with the revision
+ * their edits are based on; a push from an outdated revision is rejected with 409.
+ */
+
+export const SYNC_API_PATH = '/api/sync';
+
+export interface SyncDocument {
+  id: string;
+  title: string;
+  content: JSONContent | null;
+  createdAt: number;
+  updatedAt: number;
+  // 0 means the document doesn't exist on the server yet
+  revision: number;
+  // Server-wide sequence number of the last change
+  seq: number;
+  // Deleted documents stay behind as tombstones so other clients learn about the deletion
+  deleted: boolean;
+}
+
+// GET /api/sync/changes?since=<seq>
+export interface ChangesResponse {
+  seq: number;
+  documents: SyncDocument[];
+}
+
+// PUT /api/sync/documents/<id>
+export interface PushRequest {
+  baseRevision: number;
+  title: string;
+  content: JSONContent | null;
+  createdAt: number;
+  updatedAt: number;
+  deleted: boolean;
+}
+
+export interface PushResponse {
+  revision: number;
+  seq: number;
+}
+
+// Body of a 409 response to a push
+export interface ConflictResponse {
+  document: SyncDocument;
+}
+
+// Headers carrying image dimensions on /api/sync/images/<id>
+export const IMAGE_WIDTH_HEADER = 'X-Image-Width';
+export const IMAGE_HEIGHT_HEADER = 'X-Image-Height';
+
+// Image types the server accepts: what the image pipeline produces or stores as-is (lib/image-pipeline.ts)
+export const SYNC_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/avif', 'image/svg+xml'];
+
+/**
+ * IDs are used as file names on the server, so only allow the characters generateId produces
+ */
+export function isValidSyncId(id: string): boolean {
+  return /^[A-Za-z0-9_-]{1,100}$/.test(id);
+}
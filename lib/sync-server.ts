@@ -0,0 +1,177 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { timingSafeEqual } from 'crypto';
+import { IMAGE_WIDTH_HEADER, IMAGE_HEIGHT_HEADER } from './sync-protocol';
+import type { SyncDocument, ChangesResponse, PushRequest, PushResponse } from './sync-protocol';
+
+/**
+ * Filesystem store behind the sync route handlers. Server-only: never import it from client code.
+ *
+ * Layout of SYNC_DATA_DIR:
+ * - state.json: { seq } - last sequence number handed out
+ * - documents/<id>.json: SyncDocument
+ * - images/<id>: image bytes, with images/<id>.json holding type and dimensions
+ */
+
+const DATA_DIR = process.env.SYNC_DATA_DIR || path.join(process.cwd(), 'sync-data');
+
+export interface StoredImageMeta {
+  type: string;
+  width: number | null;
+  height: number | null;
+  createdAt: number;
+}
+
+export type PushResult =
+  | { status: 'ok'; response: PushResponse }
+  | { status: 'conflict'; document: SyncDocument };
+
+// Every write goes through this chain, so sequence numbers and revisions never race
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function exclusive<T>(task: () => Promise<T>): Promise<T> {
+  const result = writeQueue.then(task);
+  writeQueue = result.catch(() => {});
+  return result;
+}
+
+const documentPath = (id: string) => path.join(DATA_DIR, 'documents', `${id}.json`);
+const imagePath = (id: string) => path.join(DATA_DIR, 'images', id);
+
+async function readJSON<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// Write to a temporary file and rename it, so a crash never leaves a half-written file
+async function writeAtomic(file: string, data: string | Uint8Array): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temporary = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, data);
+  await fs.rename(temporary, file);
+}
+
+/**
+ * Check the bearer token against SYNC_TOKEN
+ * @returns An error response, or null when the request may proceed
+ */
+export function checkAuthorization(request: Request): Response | null {
+  const token = process.env.SYNC_TOKEN;
+  if (!token) {
+    return Response.json({ error: 'Sync is not enabled on this server (set SYNC_TOKEN)' }, { status: 503 });
+  }
+  const given = Buffer.from(request.headers.get('authorization')?.replace(/^Bearer /, '') || '');
+  const expected = Buffer.from(token);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return Response.json({ error: 'Invalid sync token' }, { status: 401 });
+  }
+  return null;
+}
+
+/**
+ * Documents changed after the given sequence number, including deletions
+ */
+export async function listChanges(since: number): Promise<ChangesResponse> {
+  const state = await readJSON<{ seq: number }>(path.join(DATA_DIR, 'state.json'));
+  let files: string[] = [];
+  try {
+    files = await fs.readdir(path.join(DATA_DIR, 'documents'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  const documents: SyncDocument[] = [];
+  for (const file of files) {
+    if (!file.endsWith('.json')) continue;
+    const document = await readJSON<SyncDocument>(path.join(DATA_DIR, 'documents', file));
+    if (document && document.seq > since) documents.push(document);
+  }
+
+  return { seq: state?.seq ?? 0, documents: documents.sort((a, b) => a.seq - b.seq) };
+}
+
+/**
+ * Store a new revision of a document, unless it changed since baseRevision
+ */
+export function pushDocument(id: string, push: PushRequest): Promise<PushResult> {
+  return exclusive(async () => {
+    const current = await readJSON<SyncDocument>(documentPath(id));
+    // A document the server doesn't have (e.g. after its data was reset) is simply recreated
+    if (current && current.revision !== push.baseRevision) {
+      return { status: 'conflict', document: current };
+    }
+
+    const state = (await readJSON<{ seq: number }>(path.join(DATA_DIR, 'state.json'))) || { seq: 0 };
+    const seq = state.seq + 1;
+    const document: SyncDocument = {
+      id,
+      title: push.title,
+      content: push.deleted ? null : push.content,
+      createdAt: current?.createdAt ?? push.createdAt,
+      updatedAt: push.updatedAt,
+      revision: (current?.revision ?? 0) + 1,
+      seq,
+      deleted: push.deleted,
+    };
+
+    await writeAtomic(documentPath(id), JSON.stringify(document));
+    await writeAtomic(path.join(DATA_DIR, 'state.json'), JSON.stringify({ seq }));
+    return { status: 'ok', response: { revision: document.revision, seq } };
+  });
+}
+
+/**
+ * Read a stored image
+ * @returns Bytes and metadata, or null if the image was never uploaded
+ */
+export async function readImage(id: string): Promise<{ data: Buffer; meta: StoredImageMeta } | null> {
+  const meta = await readJSON<StoredImageMeta>(`${imagePath(id)}.json`);
+  if (!meta) return null;
+  return { data: await fs.readFile(imagePath(id)), meta };
+}
+
+/**
+ * Whether an image was uploaded, without reading it
+ */
+export async function hasImage(id: string): Promise<boolean> {
+  return (await readJSON<StoredImageMeta>(`${imagePath(id)}.json`)) !== null;
+}
+
+/**
+ * Store an image. Images never change once created, so a repeated upload just overwrites it.
+ */
+export function writeImage(id: string, data: Uint8Array, meta: StoredImageMeta): Promise<void> {
+  return exclusive(async () => {
+    await writeAtomic(imagePath(id), data);
+    // Written last: an image only counts as stored once its metadata exists
+    await writeAtomic(`${imagePath(id)}.json`, JSON.stringify(meta));
+  });
+}
+
+// Lets a copy of the app served from another origin (e.g. `npm run dev`) sync with this server.
+// Requests carry a bearer token rather than cookies, so any origin is fine.
+const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, HEAD, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': `Authorization, Content-Type, ${IMAGE_WIDTH_HEADER}, ${IMAGE_HEIGHT_HEADER}`,
+  'Access-Control-Expose-Headers': `${IMAGE_WIDTH_HEADER}, ${IMAGE_HEIGHT_HEADER}`,
+};
+
+/**
+ * Add the CORS headers to a response
+ */
+export function withCors(response: Response): Response {
+  Object.entries(CORS_HEADERS).forEach(([name, value]) => response.headers.set(name, value));
+  return response;
+}
+
+/**
+ * Answer a CORS preflight request
+ */
+export function preflight(): Response {
+  return withCors(new Response(null, { status: 204 }));
+}
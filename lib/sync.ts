@@ -0,0 +1,500 @@
+import {
+  getDB,
+  createDocument,
+  sealDocument,
+  openDocument,
+  sealImage,
+  openImage,
+  NoteDocument,
+  OutboxEntry,
+  toNoteLinks,
+  toSearchEntry,
+  sealSearchEntry,
+  prepareDeletedSnapshot,
+} from './storage';
+import { collectImageIds } from './custom-image';
+import { notifyAllTabs } from './tab-sync';
+import { isVaultEnabled } from './crypto';
+import { clearJournal } from './journal';
+import {
+  SYNC_API_PATH,
+  IMAGE_WIDTH_HEADER,
+  IMAGE_HEIGHT_HEADER,
+  SYNC_IMAGE_TYPES,
+  SyncDocument,
+  ChangesResponse,
+  PushRequest,
+  PushResponse,
+  ConflictResponse,
+} from './sync-protocol';
+import type { JSONContent } from '@tiptap/react';
+
+/**
+ * Optional sync with a self-hosted server (the route handlers under app/api/sync).
+ *
+ * Local changes are recorded in the 'outbox' store by lib/storage.ts, in the same transaction
+ * as the change itself, so nothing is lost while offline. A sync pushes the outbox, then pulls
+ * everything the server changed since the last pull. When a push is rejected because someone
+ * else changed the note first, the server's version wins and the local one is kept as a
+ * "(conflicted copy)" note, the same way conflicting tabs are resolved.
+ *
+ * The server stores what it is sent as is, so sync is paused while vault mode is on; changes stay
+ * in the outbox until it is turned off.
+ */
+
+export interface SyncSettings {
+  enabled: boolean;
+  // Empty means the server this app is served from
+  serverUrl: string;
+  token: string;
+}
+
+export type SyncState = 'disabled' | 'paused' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  lastSyncedAt: number | null;
+  // Local changes not pushed yet
+  pending: number;
+  error: string | null;
+}
+
+/**
+ * Thrown when the sync server answers with an error status
+ */
+export class SyncServerError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'SyncServerError';
+  }
+}
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = { enabled: false, serverUrl: '', token: '' };
+
+const SETTINGS_KEY = 'notes-app-sync-settings';
+// Only one tab syncs at a time; the outbox is shared by all of them
+const SYNC_LOCK = 'notes-app-sync';
+const SYNC_INTERVAL = 30 * 1000;
+// Delay after a local change, so a burst of saves is pushed together
+const REQUEST_DELAY = 2000;
+
+let status: SyncStatus = { state: 'disabled', lastSyncedAt: null, pending: 0, error: null };
+const statusListeners = new Set<(status: SyncStatus) => void>();
+let activeSync: Promise<void> | null = null;
+let requestTimer: ReturnType<typeof setTimeout> | null = null;
+// Images known to be on the server, so they aren't checked on every push
+const uploadedImages = new Set<string>();
+
+/**
+ * Read the sync settings saved in localStorage
+ */
+export function getSyncSettings(): SyncSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_SYNC_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SYNC_SETTINGS;
+  } catch {
+    return DEFAULT_SYNC_SETTINGS;
+  }
+}
+
+/**
+ * Persist sync settings to localStorage and sync right away when enabled
+ */
+export function saveSyncSettings(settings: SyncSettings): void {
+  const normalized = { ...settings, serverUrl: settings.serverUrl.trim().replace(/\/+$/, '') };
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(normalized));
+  syncNow();
+}
+
+export function getSyncStatus(): SyncStatus {
+  return status;
+}
+
+function setStatus(update: Partial<SyncStatus>) {
+  status = { ...status, ...update };
+  statusListeners.forEach((listener) => listener(status));
+}
+
+/**
+ * Listen for sync progress and errors
+ * @returns Function that removes the listener
+ */
+export function subscribeToSyncStatus(listener: (status: SyncStatus) => void): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+async function request(path: string, init: RequestInit = {}): Promise<Response> {
+  const { serverUrl, token } = getSyncSettings();
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${token}`);
+  return fetch(`${serverUrl}${SYNC_API_PATH}${path}`, { ...init, headers, cache: 'no-store' });
+}
+
+async function expectOk(response: Response): Promise<void> {
+  if (response.ok) return;
+  const body = await response.json().catch(() => null);
+  throw new SyncServerError(response.status, body?.error || `The sync server responded with ${response.status}`);
+}
+
+const readDimension = (value: string | null) => (value ? Number(value) : null);
+
+/**
+ * Start over when the server changes: every local note is new to it.
+ * Revisions from another server mean nothing here, so they are cleared.
+ */
+async function prepareCursor(serverUrl: string): Promise<void> {
+  const db = await getDB();
+  const cursor = await db.get('syncState', 'cursor');
+  if (cursor?.serverUrl === serverUrl) return;
+
+  const tx = db.transaction(['documents', 'outbox', 'syncState'], 'readwrite');
+  const now = Date.now();
+  await tx.objectStore('outbox').clear();
+  for (const document of await tx.objectStore('documents').getAll()) {
+    await tx.objectStore('documents').put({ ...document, syncedRevision: undefined });
+    await tx.objectStore('outbox').put({ documentId: document.id, queuedAt: now, deleted: false });
+  }
+  await tx.objectStore('syncState').put({ id: 'cursor', serverUrl, seq: 0 });
+  await tx.done;
+  uploadedImages.clear();
+}
+
+async function uploadImages(content: JSONContent | null): Promise<void> {
+  const db = await getDB();
+  for (const imageId of collectImageIds(content)) {
+    if (uploadedImages.has(imageId)) continue;
+
+    const path = `/images/${encodeURIComponent(imageId)}`;
+    const head = await request(path, { method: 'HEAD' });
+    if (head.status !== 404) {
+      await expectOk(head);
+      uploadedImages.add(imageId);
+      continue;
+    }
+
+    const record = await db.get('images', imageId);
+    if (!record) continue;
+    const image = await openImage(record);
+    // The server only takes the image types the pipeline produces; others stay in this browser
+    if (!SYNC_IMAGE_TYPES.includes(image.blob.type)) {
+      console.warn(`Image ${imageId} is not synced: unsupported type ${image.blob.type || 'unknown'}`);
+      continue;
+    }
+    const headers = new Headers({ 'Content-Type': image.blob.type || 'application/octet-stream' });
+    if (image.width) headers.set(IMAGE_WIDTH_HEADER, String(image.width));
+    if (image.height) headers.set(IMAGE_HEIGHT_HEADER, String(image.height));
+    await expectOk(await request(path, { method: 'PUT', headers, body: image.blob }));
+    uploadedImages.add(imageId);
+  }
+}
+
+// Pulled images have no thumbnail; loadImageBlob falls back to the full image
+async function downloadImages(content: JSONContent | null): Promise<void> {
+  const db = await getDB();
+  for (const imageId of collectImageIds(content)) {
+    if (await db.getKey('images', imageId)) continue;
+
+    const response = await request(`/images/${encodeURIComponent(imageId)}`);
+    if (response.status === 404) continue;
+    await expectOk(response);
+
+    const image = await sealImage({
+      id: imageId,
+      blob: await response.blob(),
+      createdAt: Date.now(),
+      thumbnail: null,
+      width: readDimension(response.headers.get(IMAGE_WIDTH_HEADER)),
+      height: readDimension(response.headers.get(IMAGE_HEIGHT_HEADER)),
+    });
+    await db.put('images', image);
+    uploadedImages.add(imageId);
+  }
+}
+
+/**
+ * Write the server's version of a document locally, or delete it for a tombstone
+ * @param replacePending - Overwrite even if the document has unpushed local changes
+ * @returns Whether anything was written
+ */
+async function applyServerDocument(server: SyncDocument, replacePending = false): Promise<boolean> {
+  if (!server.deleted) {
+    await downloadImages(server.content);
+  }
+  const sealed = server.deleted
+    ? null
+    : await sealDocument({
+        id: server.id,
+        title: server.title,
+        content: server.content,
+        createdAt: server.createdAt,
+        updatedAt: server.updatedAt,
+      });
+  const searchEntry = server.deleted ? null : await sealSearchEntry(toSearchEntry(server.id, server.content));
+  // A note deleted on another device goes to Recently Deleted here too
+  const lastSnapshot = server.deleted ? await prepareDeletedSnapshot(server.id) : null;
+
+  const db = await getDB();
+  const tx = db.transaction(['documents', 'snapshots', 'outbox', 'links', 'comments', 'searchIndex'], 'readwrite');
+  const documentStore = tx.objectStore('documents');
+  const [current, pending] = await Promise.all([documentStore.get(server.id), tx.objectStore('outbox').get(server.id)]);
+
+  // Local changes are pushed first; a conflict there brings the server's version back
+  if (!replacePending && (pending || (current && (current.syncedRevision ?? 0) >= server.revision))) {
+    return false;
+  }
+
+  let revision = 0;
+  if (sealed) {
+    revision = (current?.revision ?? 0) + 1;
+    await documentStore.put({ ...sealed, revision, syncedRevision: server.revision });
+    await tx.objectStore('links').put(toNoteLinks(server.id, server.content));
+    if (searchEntry) await tx.objectStore('searchIndex').put(searchEntry);
+  } else if (current) {
+    const threadIds = await tx.objectStore('comments').index('by-document').getAllKeys(server.id);
+    await Promise.all([
+      documentStore.delete(server.id),
+      tx.objectStore('links').delete(server.id),
+      tx.objectStore('searchIndex').delete(server.id),
+      ...(lastSnapshot ? [tx.objectStore('snapshots').put(lastSnapshot)] : []),
+      ...threadIds.map((threadId) => tx.objectStore('comments').delete(threadId)),
+    ]);
+  }
+  if (pending) {
+    await tx.objectStore('outbox').delete(server.id);
+  }
+  await tx.done;
+
+  if (!sealed && current) {
+    clearJournal(server.id);
+  }
+  if (sealed && current) {
+    // Open editors pick this up like a save from another tab
+    notifyAllTabs({ type: 'document-saved', documentId: server.id, revision, updatedAt: server.updatedAt });
+  }
+  return true;
+}
+
+/**
+ * Record that a push was accepted. The outbox entry stays if the note changed again meanwhile.
+ */
+async function markPushed(entry: OutboxEntry, serverRevision: number): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(['documents', 'outbox'], 'readwrite');
+  const current = await tx.objectStore('documents').get(entry.documentId);
+  if (current && !entry.deleted) {
+    await tx.objectStore('documents').put({ ...current, syncedRevision: serverRevision });
+  }
+  const queued = await tx.objectStore('outbox').get(entry.documentId);
+  if (queued && queued.queuedAt === entry.queuedAt) {
+    await tx.objectStore('outbox').delete(entry.documentId);
+  }
+  await tx.done;
+}
+
+/**
+ * Settle a rejected push. Edits win over a deletion on the server; otherwise the
+ * server's version wins and the local one is saved as a separate note.
+ */
+async function resolveConflict(entry: OutboxEntry, local: NoteDocument | null, server: SyncDocument): Promise<void> {
+  if (server.deleted && local) {
+    // Push again on top of the tombstone on the next pass
+    const db = await getDB();
+    const tx = db.transaction('documents', 'readwrite');
+    const current = await tx.store.get(local.id);
+    if (current) {
+      await tx.store.put({ ...current, syncedRevision: server.revision });
+    }
+    await tx.done;
+    return;
+  }
+
+  const isSameContent =
+    local &&
+    local.title === server.title &&
+    JSON.stringify(local.content) === JSON.stringify(server.content);
+  if (!local || server.deleted || isSameContent) {
+    // Nothing of ours to keep (e.g. the note was already pushed before the cursor was reset)
+    await markPushed(entry, server.revision);
+    if (!local && !server.deleted) await applyServerDocument(server, true);
+    return;
+  }
+
+  await createDocument(`${local.title} (conflicted copy)`, local.content);
+  await applyServerDocument(server, true);
+}
+
+async function pushOutbox(): Promise<number> {
+  const db = await getDB();
+  let changed = 0;
+
+  for (const entry of await db.getAll('outbox')) {
+    const record = entry.deleted ? undefined : await db.get('documents', entry.documentId);
+    const local = record ? await openDocument(record) : null;
+    // Deleted before it ever reached the server, or deleted since it was queued
+    if (entry.deleted ? entry.syncedRevision === undefined : !local) {
+      await markPushed(entry, 0);
+      continue;
+    }
+
+    await uploadImages(local?.content ?? null);
+    const push: PushRequest = local
+      ? {
+          baseRevision: local.syncedRevision ?? 0,
+          title: local.title,
+          content: local.content,
+          createdAt: local.createdAt,
+          updatedAt: local.updatedAt,
+          deleted: false,
+        }
+      : {
+          baseRevision: entry.syncedRevision ?? 0,
+          title: '',
+          content: null,
+          createdAt: entry.queuedAt,
+          updatedAt: entry.queuedAt,
+          deleted: true,
+        };
+
+    const response = await request(`/documents/${encodeURIComponent(entry.documentId)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(push),
+    });
+    if (response.status === 409) {
+      const { document } = (await response.json()) as ConflictResponse;
+      await resolveConflict(entry, local, document);
+      changed++;
+      continue;
+    }
+    await expectOk(response);
+    const { revision } = (await response.json()) as PushResponse;
+    await markPushed(entry, revision);
+  }
+
+  return changed;
+}
+
+async function pullChanges(): Promise<number> {
+  const db = await getDB();
+  const cursor = await db.get('syncState', 'cursor');
+  if (!cursor) return 0;
+
+  const response = await request(`/changes?since=${cursor.seq}`);
+  await expectOk(response);
+  const changes = (await response.json()) as ChangesResponse;
+
+  let changed = 0;
+  for (const document of changes.documents) {
+    if (await applyServerDocument(document)) changed++;
+  }
+  await db.put('syncState', { ...cursor, seq: changes.seq });
+  return changed;
+}
+
+async function runSync(): Promise<void> {
+  const settings = getSyncSettings();
+  const db = await getDB();
+  if (!settings.enabled) {
+    setStatus({ state: 'disabled', error: null, pending: await db.count('outbox') });
+    return;
+  }
+  if (isVaultEnabled()) {
+    setStatus({ state: 'paused', error: null, pending: await db.count('outbox') });
+    return;
+  }
+  if (!navigator.onLine) {
+    setStatus({ state: 'offline', pending: await db.count('outbox') });
+    return;
+  }
+
+  const run = async () => {
+    setStatus({ state: 'syncing' });
+    try {
+      await prepareCursor(settings.serverUrl);
+      const changed = (await pushOutbox()) + (await pullChanges());
+      if (changed > 0) {
+        notifyAllTabs({ type: 'library-changed' });
+      }
+      setStatus({ state: 'idle', lastSyncedAt: Date.now(), error: null, pending: await db.count('outbox') });
+    } catch (error) {
+      console.error('Sync failed:', error);
+      // fetch rejects with a TypeError when the server can't be reached
+      const isOffline = error instanceof TypeError;
+      setStatus({
+        state: isOffline ? 'offline' : 'error',
+        error: isOffline ? null : error instanceof Error ? error.message : String(error),
+        pending: await db.count('outbox'),
+      });
+    }
+  };
+
+  if (navigator.locks) {
+    await navigator.locks.request(SYNC_LOCK, { ifAvailable: true }, async (lock) => {
+      if (lock) {
+        await run();
+      } else {
+        // Another tab is syncing the shared outbox right now
+        setStatus({ pending: await db.count('outbox') });
+      }
+    });
+  } else {
+    await run();
+  }
+}
+
+/**
+ * Push local changes and pull remote ones now. Calls during a running sync share it.
+ */
+export function syncNow(): Promise<void> {
+  if (!activeSync) {
+    activeSync = runSync()
+      .catch((error) => {
+        console.error('Sync failed:', error);
+      })
+      .finally(() => {
+        activeSync = null;
+      });
+  }
+  return activeSync;
+}
+
+/**
+ * Sync shortly after a local change, batching changes made close together
+ */
+export function requestSync(): void {
+  if (!getSyncSettings().enabled || isVaultEnabled()) return;
+  if (requestTimer) clearTimeout(requestTimer);
+  requestTimer = setTimeout(() => {
+    requestTimer = null;
+    syncNow();
+  }, REQUEST_DELAY);
+}
+
+/**
+ * Sync now, then periodically, when the browser comes back online and when the tab is shown again
+ * @returns Function that stops syncing
+ */
+export function startSync(): () => void {
+  const handleOnline = () => syncNow();
+  const handleOffline = () => setStatus({ state: getSyncSettings().enabled ? 'offline' : 'disabled' });
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') syncNow();
+  };
+
+  syncNow();
+  const interval = setInterval(syncNow, SYNC_INTERVAL);
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+
+  return () => {
+    clearInterval(interval);
+    if (requestTimer) clearTimeout(requestTimer);
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+  };
+}
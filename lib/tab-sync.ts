@@ -0,0 +1,66 @@
+/**
+ * Messages exchanged between tabs that have the app open
+ * - 'document-saved': a tab saved new content for a document
+ * - 'library-changed': documents were created, renamed, deleted or restored
+ * - 'vault-changed': vault mode was turned on or off, or its settings changed
+ * - 'comments-changed': comment threads of a document were added, answered, resolved or deleted
+ */
+export type TabMessage =
+  | { type: 'document-saved'; documentId: string; revision: number; updatedAt: number }
+  | { type: 'library-changed' }
+  | { type: 'vault-changed' }
+  | { type: 'comments-changed'; documentId: string };
+
+type TabListener = (message: TabMessage) => void;
+
+const CHANNEL_NAME = 'notes-app-sync';
+
+// One channel per tab; a BroadcastChannel never receives its own messages
+let channel: BroadcastChannel | null = null;
+// Listeners in this tab, for changes that didn't originate here (see notifyAllTabs)
+const localListeners = new Set<TabListener>();
+
+function getChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') {
+    return null;
+  }
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+/**
+ * Tell every other open tab about a change
+ */
+export function notifyTabs(message: TabMessage): void {
+  try {
+    getChannel()?.postMessage(message);
+  } catch (error) {
+    console.error('Failed to notify other tabs:', error);
+  }
+}
+
+/**
+ * Tell this tab as well as every other tab about a change made in the background,
+ * e.g. one pulled from the sync server
+ */
+export function notifyAllTabs(message: TabMessage): void {
+  notifyTabs(message);
+  localListeners.forEach((listener) => listener(message));
+}
+
+/**
+ * Listen for changes made in other tabs (and background changes in this one)
+ * @returns Function that removes the listener
+ */
+export function subscribeToTabs(listener: TabListener): () => void {
+  localListeners.add(listener);
+  const target = getChannel();
+  const handleMessage = (event: MessageEvent<TabMessage>) => listener(event.data);
+  target?.addEventListener('message', handleMessage);
+  return () => {
+    localListeners.delete(listener);
+    target?.removeEventListener('message', handleMessage);
+  };
+}
@@ -0,0 +1,146 @@
+import { TaskItem } from '@tiptap/extension-list';
+import { ReactNodeViewRenderer, JSONContent } from '@tiptap/react';
+import { ListChecks } from 'lucide-react';
+import { getDB, openDocument } from './storage';
+import { getBlockText } from './diff';
+import { registerSlashCommands } from './slash-commands';
+import TaskItemView from '@/components/TaskItemView';
+
+export type TaskPriority = 'low' | 'medium' | 'high';
+
+export interface TaskDetails {
+  // Local date, YYYY-MM-DD
+  dueDate: string | null;
+  assignee: string | null;
+  priority: TaskPriority | null;
+}
+
+/**
+ * A task found in a stored note, for the task dashboard
+ */
+export interface TaskEntry extends TaskDetails {
+  documentId: string;
+  documentTitle: string;
+  // Position among the note's task items, in document order (see lib/editor-focus.ts)
+  index: number;
+  text: string;
+  checked: boolean;
+}
+
+export const TASK_PRIORITIES: TaskPriority[] = ['high', 'medium', 'low'];
+
+/**
+ * Task item with optional due date, assignee and priority.
+ * The details stay with the item it was set on: a new item split off with Enter starts without them.
+ */
+export const DetailedTaskItem = TaskItem.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      dueDate: {
+        default: null,
+        keepOnSplit: false,
+        parseHTML: (element) => element.getAttribute('data-due-date'),
+        renderHTML: (attributes) => (attributes.dueDate ? { 'data-due-date': attributes.dueDate } : {}),
+      },
+      assignee: {
+        default: null,
+        keepOnSplit: false,
+        parseHTML: (element) => element.getAttribute('data-assignee'),
+        renderHTML: (attributes) => (attributes.assignee ? { 'data-assignee': attributes.assignee } : {}),
+      },
+      priority: {
+        default: null,
+        keepOnSplit: false,
+        parseHTML: (element) => {
+          const priority = element.getAttribute('data-priority') as TaskPriority | null;
+          return priority && TASK_PRIORITIES.includes(priority) ? priority : null;
+        },
+        renderHTML: (attributes) => (attributes.priority ? { 'data-priority': attributes.priority } : {}),
+      },
+    };
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(TaskItemView);
+  },
+});
+
+registerSlashCommands({
+  id: 'taskList',
+  title: 'Task List',
+  description: 'Checklist with due dates',
+  keywords: ['todo', 'checkbox', 'checklist'],
+  icon: ListChecks,
+  run: (editor, range) => editor.chain().focus().deleteRange(range).toggleTaskList().run(),
+});
+
+/**
+ * Today's date in the same format as dueDate
+ */
+export function getToday(): string {
+  const now = new Date();
+  return [now.getFullYear(), now.getMonth() + 1, now.getDate()]
+    .map((part) => String(part).padStart(2, '0'))
+    .join('-');
+}
+
+export function isOverdue(task: TaskDetails & { checked: boolean }, today = getToday()): boolean {
+  return !task.checked && !!task.dueDate && task.dueDate < today;
+}
+
+/**
+ * Every task item in a document, in document order
+ */
+export function collectTasks(
+  doc: JSONContent | null,
+  documentId: string,
+  documentTitle: string
+): TaskEntry[] {
+  const tasks: TaskEntry[] = [];
+
+  const walk = (node: JSONContent) => {
+    if (node.type === 'taskItem') {
+      // Nested task lists are tasks of their own
+      const ownBlocks = (node.content || []).filter((child) => child.type !== 'taskList');
+      tasks.push({
+        documentId,
+        documentTitle,
+        index: tasks.length,
+        text: ownBlocks.map(getBlockText).join(' ').trim(),
+        checked: !!node.attrs?.checked,
+        dueDate: node.attrs?.dueDate ?? null,
+        assignee: node.attrs?.assignee ?? null,
+        priority: node.attrs?.priority ?? null,
+      });
+    }
+    node.content?.forEach(walk);
+  };
+
+  if (doc) walk(doc);
+  return tasks;
+}
+
+const PRIORITY_ORDER: Record<TaskPriority, number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Open tasks across all notes: earliest due date first (undated last), then by priority
+ */
+export async function listOpenTasks(): Promise<TaskEntry[]> {
+  const db = await getDB();
+  const tasks: TaskEntry[] = [];
+
+  for (const record of await db.getAll('documents')) {
+    const document = await openDocument(record);
+    tasks.push(
+      ...collectTasks(document.content, document.id, document.title).filter((task) => !task.checked)
+    );
+  }
+
+  return tasks.sort(
+    (a, b) =>
+      (a.dueDate ?? '9999').localeCompare(b.dueDate ?? '9999') ||
+      (a.priority ? PRIORITY_ORDER[a.priority] : 3) - (b.priority ? PRIORITY_ORDER[b.priority] : 3) ||
+      a.documentTitle.localeCompare(b.documentTitle)
+  );
+}
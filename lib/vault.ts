@@ -0,0 +1,322 @@
+import {
+  getDB,
+  sealDocument,
+  openDocument,
+  sealSnapshot,
+  openSnapshot,
+  sealImage,
+  openImage,
+  sealCommentThread,
+  openCommentThread,
+  sealSearchEntry,
+  openSearchEntry,
+} from './storage';
+import {
+  setVaultKey,
+  isVaultEnabled,
+  isVaultUnlocked,
+  generateDataKey,
+  wrapDataKey,
+  unwrapDataKey,
+  WrappedKey,
+} from './crypto';
+import { discardMigrationBackup } from './migrations';
+import { forgetAllCollaboration } from './collaboration';
+import { unsealJournal } from './journal';
+import { notifyTabs } from './tab-sync';
+
+/**
+ * Vault mode: notes and images are encrypted at rest with a key protected by a passphrase.
+ * The passphrase itself is never stored; forgetting it makes the notes unrecoverable.
+ */
+export interface VaultConfig extends WrappedKey {
+  id: typeof CONFIG_ID;
+  // Lock after this many minutes without input; 0 never locks automatically
+  autoLockMinutes: number;
+  createdAt: number;
+}
+
+export interface VaultStatus {
+  enabled: boolean;
+  locked: boolean;
+  autoLockMinutes: number;
+}
+
+const CONFIG_ID = 'config';
+export const DEFAULT_AUTO_LOCK_MINUTES = 10;
+export const MIN_PASSPHRASE_LENGTH = 8;
+// Passes over the library when records keep changing while they are re-encrypted
+const MAX_RESEAL_PASSES = 5;
+
+let autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES;
+
+type VaultListener = (status: VaultStatus) => void;
+const statusListeners = new Set<VaultListener>();
+const lockRequestListeners = new Set<() => void>();
+
+export function getVaultStatus(): VaultStatus {
+  return { enabled: isVaultEnabled(), locked: isVaultEnabled() && !isVaultUnlocked(), autoLockMinutes };
+}
+
+function reportStatus() {
+  const status = getVaultStatus();
+  statusListeners.forEach((listener) => listener(status));
+}
+
+async function getConfig(): Promise<VaultConfig | undefined> {
+  const db = await getDB();
+  return db.get('vault', CONFIG_ID);
+}
+
+/**
+ * Read the vault settings. Call before anything reads or writes notes.
+ */
+export async function initVault(): Promise<VaultStatus> {
+  const config = await getConfig();
+  if (!config) {
+    setVaultKey(false, null);
+  } else if (!isVaultUnlocked()) {
+    setVaultKey(true, null);
+  }
+  autoLockMinutes = config?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+  return getVaultStatus();
+}
+
+/**
+ * Pick up settings changed in another tab
+ * @returns True when vault mode was turned on or off there; this tab must reload to follow
+ */
+export async function syncVaultSettings(): Promise<boolean> {
+  const config = await getConfig();
+  if (Boolean(config) !== isVaultEnabled()) {
+    return true;
+  }
+  autoLockMinutes = config?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+  reportStatus();
+  return false;
+}
+
+/**
+ * Unlock the vault for this tab
+ * @throws WrongPassphraseError
+ */
+export async function unlockVault(passphrase: string): Promise<void> {
+  const config = await getConfig();
+  if (!config) {
+    throw new Error('Vault mode is not enabled');
+  }
+  setVaultKey(true, await unwrapDataKey(config, passphrase));
+  reportStatus();
+}
+
+/**
+ * Forget the key. Use requestVaultLock from the UI, so open notes are saved first.
+ */
+export function lockVault(): void {
+  if (!isVaultEnabled()) return;
+  setVaultKey(true, null);
+  reportStatus();
+}
+
+/**
+ * Ask the vault gate to lock. It closes the open note first, so its last save
+ * can still be encrypted before the key is forgotten.
+ */
+export function requestVaultLock(): void {
+  lockRequestListeners.forEach((listener) => listener());
+}
+
+/**
+ * Bring every record in line with the current mode: encrypt plain records when the vault
+ * is enabled, decrypt sealed ones when it is not. Records are processed outside the
+ * transaction, so one that changed meanwhile is left for the next pass.
+ * @returns Number of records that still need a pass
+ */
+async function resealPass(): Promise<number> {
+  const db = await getDB();
+  const encrypt = isVaultEnabled();
+  const [documents, snapshots, images, threads, searchEntries] = await Promise.all([
+    db.getAll('documents'),
+    db.getAll('snapshots'),
+    db.getAll('images'),
+    db.getAll('comments'),
+    db.getAll('searchIndex'),
+  ]);
+
+  const staleDocuments = documents.filter((document) =>
+    encrypt ? !(document.sealedTitle && document.sealedContent) : Boolean(document.sealedTitle || document.sealedContent)
+  );
+  const staleSnapshots = snapshots.filter((snapshot) => encrypt !== Boolean(snapshot.sealedContent));
+  const staleImages = images.filter((image) => encrypt !== Boolean(image.sealed));
+  const staleThreads = threads.filter((thread) => encrypt !== Boolean(thread.sealedMessages));
+  const staleEntries = searchEntries.filter((entry) => encrypt !== Boolean(entry.sealedBlocks));
+
+  const [newDocuments, newSnapshots, newImages, newThreads, newEntries] = await Promise.all([
+    Promise.all(staleDocuments.map(async (record) => sealDocument(await openDocument(record)))),
+    Promise.all(staleSnapshots.map(async (record) => sealSnapshot(await openSnapshot(record)))),
+    Promise.all(staleImages.map(async (record) => sealImage(await openImage(record)))),
+    Promise.all(staleThreads.map(async (record) => sealCommentThread(await openCommentThread(record)))),
+    Promise.all(staleEntries.map(async (record) => sealSearchEntry(await openSearchEntry(record)))),
+  ]);
+
+  let skipped = 0;
+  const tx = db.transaction(['documents', 'snapshots', 'images', 'comments', 'searchIndex'], 'readwrite');
+  for (const [index, document] of newDocuments.entries()) {
+    const current = await tx.objectStore('documents').get(document.id);
+    if (!current) continue;
+    if (current.updatedAt !== staleDocuments[index].updatedAt) {
+      skipped++;
+      continue;
+    }
+    await tx.objectStore('documents').put(document);
+  }
+  for (const [index, thread] of newThreads.entries()) {
+    const current = await tx.objectStore('comments').get(thread.id);
+    if (!current) continue;
+    if (current.updatedAt !== staleThreads[index].updatedAt) {
+      skipped++;
+      continue;
+    }
+    await tx.objectStore('comments').put(thread);
+  }
+  for (const [index, entry] of newEntries.entries()) {
+    const current = await tx.objectStore('searchIndex').get(entry.documentId);
+    if (!current) continue;
+    if (current.updatedAt !== staleEntries[index].updatedAt) {
+      skipped++;
+      continue;
+    }
+    await tx.objectStore('searchIndex').put(entry);
+  }
+  // Snapshots and images never change once written; only skip deleted ones
+  for (const snapshot of newSnapshots) {
+    if (await tx.objectStore('snapshots').getKey(snapshot.id)) {
+      await tx.objectStore('snapshots').put(snapshot);
+    }
+  }
+  for (const image of newImages) {
+    if (await tx.objectStore('images').getKey(image.id)) {
+      await tx.objectStore('images').put(image);
+    }
+  }
+  await tx.done;
+  return skipped;
+}
+
+async function resealLibrary(): Promise<void> {
+  for (let pass = 0; pass < MAX_RESEAL_PASSES; pass++) {
+    if ((await resealPass()) === 0) return;
+  }
+  // Saves made in the meantime already use the new mode; the rest is picked up next time
+  console.warn('Some notes kept changing while they were re-encrypted');
+}
+
+/**
+ * Turn vault mode on and encrypt every existing note, snapshot, image and comment, and the search index.
+ * Shared notes stop being shared: their CRDT state can't be encrypted, so it is deleted.
+ * @param passphrase - Protects the data key; at least MIN_PASSPHRASE_LENGTH characters
+ */
+export async function enableVault(passphrase: string): Promise<void> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`The passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  const key = await generateDataKey();
+  const config: VaultConfig = {
+    id: CONFIG_ID,
+    ...(await wrapDataKey(key, passphrase)),
+    autoLockMinutes,
+    createdAt: Date.now(),
+  };
+
+  const db = await getDB();
+  await db.put('vault', config);
+  // From here on every write is encrypted, including the ones racing the reseal
+  setVaultKey(true, key);
+  reportStatus();
+  notifyTabs({ type: 'vault-changed' });
+
+  await resealLibrary();
+  await forgetAllCollaboration();
+  // The pre-upgrade copy of the database would keep a readable copy of the notes
+  await discardMigrationBackup();
+}
+
+/**
+ * Replace the passphrase. Only the wrapped data key changes, so nothing is re-encrypted.
+ * @throws WrongPassphraseError if currentPassphrase is wrong
+ */
+export async function changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+  if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`The passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  const config = await getConfig();
+  if (!config) {
+    throw new Error('Vault mode is not enabled');
+  }
+  const key = await unwrapDataKey(config, currentPassphrase, true);
+  const db = await getDB();
+  await db.put('vault', { ...config, ...(await wrapDataKey(key, newPassphrase)) });
+}
+
+/**
+ * Decrypt everything and turn vault mode off
+ * @throws WrongPassphraseError
+ */
+export async function disableVault(passphrase: string): Promise<void> {
+  const config = await getConfig();
+  if (!config) return;
+  const key = await unwrapDataKey(config, passphrase);
+
+  // Keep the key to read sealed records while new writes go out in plain text
+  setVaultKey(false, key);
+  try {
+    await resealLibrary();
+  } catch (error) {
+    setVaultKey(true, key);
+    throw error;
+  }
+  // Unsaved edits from vault mode would be unreadable once the key is gone
+  await unsealJournal();
+
+  const db = await getDB();
+  await db.delete('vault', CONFIG_ID);
+  setVaultKey(false, null);
+  reportStatus();
+  notifyTabs({ type: 'vault-changed' });
+}
+
+/**
+ * Change how long the app waits without input before locking
+ * @param minutes - 0 turns auto-lock off
+ */
+export async function setAutoLockMinutes(minutes: number): Promise<void> {
+  const config = await getConfig();
+  if (!config) return;
+  const db = await getDB();
+  await db.put('vault', { ...config, autoLockMinutes: minutes });
+  autoLockMinutes = minutes;
+  reportStatus();
+  notifyTabs({ type: 'vault-changed' });
+}
+
+/**
+ * Listen for the vault being enabled, disabled, locked or unlocked
+ * @returns Function that removes the listener
+ */
+export function subscribeToVault(listener: VaultListener): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+/**
+ * Listen for requestVaultLock calls
+ * @returns Function that removes the listener
+ */
+export function subscribeToLockRequests(listener: () => void): () => void {
+  lockRequestListeners.add(listener);
+  return () => {
+    lockRequestListeners.delete(listener);
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * WebSocket server for collaborative editing (see lib/collaboration.ts).
+ *
+ * Speaks the y-websocket protocol: every connection joins the room named by the URL path
+ * (the note's ID), and the server relays document updates and cursor positions between
+ * everyone in the room. Rooms live in memory only. Each browser keeps the full document in
+ * IndexedDB and re-sends its changes on reconnect, so a restart loses nothing.
+ *
+ * Usage: npm run collab
+ *   COLLAB_HOST - interface to listen on (default: localhost)
+ *   COLLAB_PORT - port to listen on (default: 1234)
+ */
+
+import http from 'http';
+import { WebSocketServer } from 'ws';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+
+const HOST = process.env.COLLAB_HOST || 'localhost';
+const PORT = Number(process.env.COLLAB_PORT) || 1234;
+// Connections that miss a ping for this long are dropped
+const PING_INTERVAL = 30 * 1000;
+
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+
+/**
+ * @typedef {object} Room
+ * @property {Y.Doc} doc
+ * @property {awarenessProtocol.Awareness} awareness
+ * @property {Map<import('ws').WebSocket, Set<number>>} connections - Each connection with the awareness clients it controls
+ */
+
+/** @type {Map<string, Room>} */
+const rooms = new Map();
+
+/**
+ * @param {import('ws').WebSocket} socket
+ * @param {Uint8Array} message
+ */
+function send(socket, message) {
+  if (socket.readyState !== socket.OPEN) return;
+  socket.send(message, (error) => {
+    if (error) socket.close();
+  });
+}
+
+/**
+ * @param {Room} room
+ * @param {Uint8Array} message
+ */
+function broadcast(room, message) {
+  room.connections.forEach((_, socket) => send(socket, message));
+}
+
+/**
+ * @param {string} name
+ * @returns {Room}
+ */
+function getRoom(name) {
+  const existing = rooms.get(name);
+  if (existing) return existing;
+
+  const doc = new Y.Doc();
+  const awareness = new awarenessProtocol.Awareness(doc);
+  // The server is not a participant
+  awareness.setLocalState(null);
+  /** @type {Room} */
+  const room = { doc, awareness, connections: new Map() };
+
+  doc.on('update', (update) => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    broadcast(room, encoding.toUint8Array(encoder));
+  });
+
+  awareness.on('update', ({ added, updated, removed }, origin) => {
+    const changed = [...added, ...updated, ...removed];
+    // Remember which awareness clients a connection owns, to remove them when it closes
+    const controlled = room.connections.get(origin);
+    if (controlled) {
+      added.forEach((clientId) => controlled.add(clientId));
+      removed.forEach((clientId) => controlled.delete(clientId));
+    }
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, changed));
+    broadcast(room, encoding.toUint8Array(encoder));
+  });
+
+  rooms.set(name, room);
+  return room;
+}
+
+/**
+ * @param {string} name
+ * @param {Room} room
+ * @param {import('ws').WebSocket} socket
+ */
+function leaveRoom(name, room, socket) {
+  const controlled = room.connections.get(socket);
+  if (!controlled) return;
+  room.connections.delete(socket);
+  awarenessProtocol.removeAwarenessStates(room.awareness, [...controlled], null);
+
+  if (room.connections.size === 0) {
+    room.awareness.destroy();
+    room.doc.destroy();
+    rooms.delete(name);
+  }
+}
+
+/**
+ * @param {import('ws').WebSocket} socket
+ * @param {string} name
+ */
+function handleConnection(socket, name) {
+  const room = getRoom(name);
+  room.connections.set(socket, new Set());
+  socket.binaryType = 'arraybuffer';
+
+  socket.on('message', (data) => {
+    try {
+      const decoder = decoding.createDecoder(new Uint8Array(/** @type {ArrayBuffer} */ (data)));
+      const encoder = encoding.createEncoder();
+      switch (decoding.readVarUint(decoder)) {
+        case MESSAGE_SYNC:
+          encoding.writeVarUint(encoder, MESSAGE_SYNC);
+          syncProtocol.readSyncMessage(decoder, encoder, room.doc, socket);
+          // Only sync step 1 needs an answer
+          if (encoding.length(encoder) > 1) send(socket, encoding.toUint8Array(encoder));
+          break;
+        case MESSAGE_AWARENESS:
+          awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), socket);
+          break;
+      }
+    } catch (error) {
+      console.error(`Failed to handle a message in room ${name}:`, error);
+      room.doc.emit('error', [error]);
+    }
+  });
+
+  let isAlive = true;
+  socket.on('pong', () => {
+    isAlive = true;
+  });
+  const pingTimer = setInterval(() => {
+    if (!isAlive) {
+      socket.terminate();
+      return;
+    }
+    isAlive = false;
+    socket.ping();
+  }, PING_INTERVAL);
+
+  socket.on('close', () => {
+    clearInterval(pingTimer);
+    leaveRoom(name, room, socket);
+  });
+
+  // Start the sync: send our state vector, then everyone's cursors
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_SYNC);
+  syncProtocol.writeSyncStep1(encoder, room.doc);
+  send(socket, encoding.toUint8Array(encoder));
+
+  const states = room.awareness.getStates();
+  if (states.size > 0) {
+    const awarenessEncoder = encoding.createEncoder();
+    encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(
+      awarenessEncoder,
+      awarenessProtocol.encodeAwarenessUpdate(room.awareness, [...states.keys()])
+    );
+    send(socket, encoding.toUint8Array(awarenessEncoder));
+  }
+}
+
+const server = http.createServer((request, response) => {
+  response.writeHead(200, { 'Content-Type': 'text/plain' });
+  response.end('Notes collaboration server\n');
+});
+
+const wss = new WebSocketServer({ noServer: true });
+
+server.on('upgrade', (request, socket, head) => {
+  // Room names are note IDs, which need no URL encoding; anything else is turned away undecoded,
+  // since a malformed escape would throw here and take down every room
+  const name = (request.url || '/').split('?')[0].slice(1);
+  if (!/^[A-Za-z0-9_-]{1,100}$/.test(name)) {
+    socket.destroy();
+    return;
+  }
+  wss.handleUpgrade(request, socket, head, (ws) => handleConnection(ws, name));
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Collaboration server listening on ws://${HOST}:${PORT}`);
+});